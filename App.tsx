@@ -1,6 +1,7 @@
-import React, { useState } from 'react';
-import { Chat } from '@google/genai';
-import { AppStep, PersonaProfile, ResearchConfig, GroundingSource, ClarifyingQuestion, ChatMessage, InterviewSummary, InterviewMode } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { AppStep, PersonaProfile, ResearchConfig, GroundingSource, ClarifyingQuestion, ChatMessage, InterviewSummary, InterviewMode, ResearchProject, PanelMember, InterviewRecord, SynthesisReport, FocusGroupSession, DiscussionGuide, LibraryPersona, Quote, CodebookCode, CodeAssignment, InterviewWave, ConceptRespondent, ConceptTest, ConceptTestDesign, ConceptRotation, Stimulus } from './types';
+import ProjectList from './components/ProjectList';
+import PersonaLibrary from './components/PersonaLibrary';
 import SetupForm from './components/SetupForm';
 import ClarificationForm from './components/ClarificationForm';
 import PersonaPreview from './components/PersonaPreview';
@@ -8,28 +9,266 @@ import GuideInputForm from './components/GuideInputForm';
 import GuideReview from './components/GuideReview';
 import ChatInterface from './components/ChatInterface';
 import SummaryView from './components/SummaryView';
-import { generatePersonaProfile, createInterviewSession, analyzeRequirements, generateInterviewSummary, generateDiscussionGuide } from './services/geminiService';
+import BatchRunView from './components/BatchRunView';
+import SynthesisView from './components/SynthesisView';
+import FocusGroupSetup from './components/FocusGroupSetup';
+import FocusGroupInterface from './components/FocusGroupInterface';
+import QuoteBank from './components/QuoteBank';
+import CodingWorkspace from './components/CodingWorkspace';
+import WavePlanner from './components/WavePlanner';
+import ConceptTestSetup from './components/ConceptTestSetup';
+import ConceptTestView from './components/ConceptTestView';
+import ConceptTestSummary from './components/ConceptTestSummary';
+import { generatePersonaProfile, createInterviewSession, analyzeRequirements, generateInterviewSummary, generateDiscussionGuide, generateCrossInterviewSynthesis, generatePersonaAvatar, rewritePersonaSection, summarizeWaveMemory } from './services/geminiService';
+import { ChatSession } from './services/llmProvider';
+import { generatePersonaPanel, generatePanelMember } from './services/panel';
+import { createInterviewRecords, runBatchInterviews } from './services/batchRunner';
+import { buildGroupProfile, MIN_FOCUS_GROUP_SIZE } from './services/focusGroup';
+import { createEmptyGuide } from './services/guide';
+import { PERSONA_SECTIONS, PersonaEdit, PersonaSectionKey, describeDemographics, updatePersona } from './services/persona';
+import { deleteLibraryPersona, listLibraryPersonas, savePersonaToLibrary, updateLibraryPersona } from './services/personaLibrary';
+import { FOCUS_GROUP_ID, MAIN_INTERVIEW_ID, QuoteDraft, createQuote } from './services/quotes';
+import { TranscriptSource } from './services/transcriptExport';
+import { StudyBundleError, exportStudyBundle, importStudyBundle } from './services/studyBundle';
+import { WaveContext, createWave, getWaveLabel, moveToTranscript } from './services/waves';
+import { createConceptTest } from './services/conceptTest';
+import { runConceptTest } from './services/conceptTestRunner';
+import { saveProject, listProjects, deleteProject, createProjectId, isResumableStep, buildProjectTitle } from './services/projectStore';
+
+const AUTOSAVE_DELAY_MS = 500;
 
 const App: React.FC = () => {
   const [step, setStep] = useState<AppStep>(AppStep.SETUP);
   const [config, setConfig] = useState<ResearchConfig | null>(null);
+
+  // Project persistence
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectCreatedAt, setProjectCreatedAt] = useState<Date>(new Date());
+  const [projects, setProjects] = useState<ResearchProject[]>([]);
+  const [library, setLibrary] = useState<LibraryPersona[]>([]);
+  const lastStableStepRef = useRef<AppStep>(AppStep.SETUP);
   
   // Data State
   const [clarificationQuestions, setClarificationQuestions] = useState<ClarifyingQuestion[]>([]);
   const [persona, setPersona] = useState<PersonaProfile | null>(null);
   const [sources, setSources] = useState<GroundingSource[]>([]);
-  const [discussionGuide, setDiscussionGuide] = useState<string[]>([]);
+  const [panel, setPanel] = useState<PanelMember[]>([]);
+  const [busyMemberIds, setBusyMemberIds] = useState<string[]>([]);
+  const [panelProgress, setPanelProgress] = useState<{ done: number; total: number } | null>(null);
+  const [isRefreshingAvatar, setIsRefreshingAvatar] = useState(false);
+  const [discussionGuide, setDiscussionGuide] = useState<DiscussionGuide>(createEmptyGuide());
   
   const [interviewMode, setInterviewMode] = useState<InterviewMode>(InterviewMode.MANUAL);
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+  const [chatSession, setChatSession] = useState<ChatSession | null>(null);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [summary, setSummary] = useState<InterviewSummary | null>(null);
+  const [batchInterviews, setBatchInterviews] = useState<InterviewRecord[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const [synthesis, setSynthesis] = useState<SynthesisReport | null>(null);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [focusGroup, setFocusGroup] = useState<FocusGroupSession | null>(null);
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [isQuoteBankOpen, setIsQuoteBankOpen] = useState(false);
+  const [summaryTranscriptId, setSummaryTranscriptId] = useState(MAIN_INTERVIEW_ID); // Transcript shown on the summary screen
+  const [codebook, setCodebook] = useState<CodebookCode[]>([]);
+  const [codeAssignments, setCodeAssignments] = useState<CodeAssignment[]>([]);
+  const [isCodingOpen, setIsCodingOpen] = useState(false);
+  const [waves, setWaves] = useState<InterviewWave[]>([]);
+  const [waveEvents, setWaveEvents] = useState('');
+  const [isWavePlannerOpen, setIsWavePlannerOpen] = useState(false);
+  const [isPreparingWave, setIsPreparingWave] = useState(false);
+  const [conceptTest, setConceptTest] = useState<ConceptTest | null>(null);
+  const [isConceptTestRunning, setIsConceptTestRunning] = useState(false);
+  const conceptTestAbortRef = useRef<AbortController | null>(null);
   
   const [error, setError] = useState<string | null>(null);
   const [isLoadingGuide, setIsLoadingGuide] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+
+  // 0. Load recent projects on startup
+  useEffect(() => {
+    listProjects()
+      .then(saved => {
+        setProjects(saved);
+        if (saved.length > 0) setStep(AppStep.PROJECTS);
+      })
+      .catch(err => console.error("Failed to load saved projects", err));
+  }, []);
+
+  // Autosave the current study whenever its state changes
+  useEffect(() => {
+    if (isResumableStep(step)) lastStableStepRef.current = step;
+    if (!projectId || !config) return;
+
+    const timer = setTimeout(() => {
+      saveProject({
+        id: projectId,
+        title: buildProjectTitle({ config, persona }),
+        createdAt: projectCreatedAt,
+        updatedAt: new Date(),
+        step: lastStableStepRef.current,
+        config,
+        clarificationQuestions,
+        persona,
+        sources,
+        panel,
+        discussionGuide,
+        interviewMode,
+        chatHistory,
+        summary,
+        batchInterviews,
+        synthesis,
+        focusGroup,
+        quotes,
+        codebook,
+        codeAssignments,
+        waves,
+        waveEvents,
+        conceptTest
+      }).catch(err => console.error("Failed to save project", err));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [projectId, projectCreatedAt, step, config, clarificationQuestions, persona, sources, panel, discussionGuide, interviewMode, chatHistory, summary, batchInterviews, synthesis, focusGroup, quotes, codebook, codeAssignments, waves, waveEvents, conceptTest]);
+
+  const handleShowProjects = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error(err);
+    }
+    setStep(AppStep.PROJECTS);
+  };
+
+  const handleOpenProject = (project: ResearchProject) => {
+    setProjectId(project.id);
+    setProjectCreatedAt(new Date(project.createdAt));
+    setConfig(project.config);
+    setClarificationQuestions(project.clarificationQuestions);
+    setPersona(project.persona);
+    setSources(project.sources);
+    setPanel(project.panel);
+    setDiscussionGuide(project.discussionGuide);
+    setInterviewMode(project.interviewMode);
+    setChatHistory(project.chatHistory);
+    setSummary(project.summary);
+    setBatchInterviews(project.batchInterviews);
+    setSynthesis(project.synthesis);
+    setFocusGroup(project.focusGroup);
+    setQuotes(project.quotes);
+    setCodebook(project.codebook);
+    setCodeAssignments(project.codeAssignments);
+    setWaves(project.waves);
+    setWaveEvents(project.waveEvents);
+    setConceptTest(project.conceptTest);
+    setSummaryTranscriptId(MAIN_INTERVIEW_ID);
+    setChatSession(null);
+    setError(null);
+
+    let resumeStep = project.step;
+    if (resumeStep === AppStep.INTERVIEW) {
+      if (project.persona) {
+        // Chat sessions are not serializable; rehydrate one from the saved transcript
+        setChatSession(createInterviewSession(project.persona, project.config.industry, project.chatHistory, { waves: project.waves, events: project.waveEvents }));
+      } else {
+        resumeStep = AppStep.MODE_SELECTION;
+      }
+    }
+    // The summary screen reopens on the study's own report; group and batch reports are reached from their screens
+    if (resumeStep === AppStep.SUMMARY && !(project.summary && project.persona)) {
+      resumeStep = AppStep.MODE_SELECTION;
+    }
+    setStep(resumeStep);
+  };
+
+  const handleImportProject = async (file: File) => {
+    setError(null);
+    try {
+      const project = await importStudyBundle(file);
+      setProjects(prev => [project, ...prev]);
+    } catch (err) {
+      console.error(err);
+      if (err instanceof StudyBundleError) {
+        const details = err.issues.slice(0, 3).join("；");
+        setError(details ? `导入失败：${err.message}（${details}${err.issues.length > 3 ? ' 等' : ''}）` : `导入失败：${err.message}`);
+      } else {
+        setError("导入研究包失败。");
+      }
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      setProjects(prev => prev.filter(p => p.id !== id));
+    } catch (err) {
+      console.error(err);
+      setError("删除项目失败。");
+    }
+  };
+
+  const handleShowLibrary = async () => {
+    try {
+      setLibrary(await listLibraryPersonas());
+    } catch (err) {
+      console.error(err);
+    }
+    setStep(AppStep.LIBRARY);
+  };
+
+  const handleSaveToLibrary = async (memberId?: string): Promise<boolean> => {
+    const member = panel.find(m => m.id === memberId);
+    const profile = member ? member.profile : persona;
+    if (!profile || !config) return false;
+    try {
+      await savePersonaToLibrary(profile, member ? member.sources : sources, config);
+      return true;
+    } catch (err) {
+      console.error(err);
+      setError("保存到画像库失败。");
+      return false;
+    }
+  };
+
+  const handleUpdateLibraryTags = async (entry: LibraryPersona, tags: string[]) => {
+    const updated = { ...entry, tags };
+    setLibrary(prev => prev.map(e => e.id === entry.id ? updated : e));
+    try {
+      await updateLibraryPersona(updated);
+    } catch (err) {
+      console.error(err);
+      setError("更新标签失败。");
+    }
+  };
+
+  const handleDeleteLibraryPersona = async (id: string) => {
+    try {
+      await deleteLibraryPersona(id);
+      setLibrary(prev => prev.filter(e => e.id !== id));
+    } catch (err) {
+      console.error(err);
+      setError("删除画像失败。");
+    }
+  };
+
+  // A saved persona starts a new study at the guide step, skipping generation
+  const handleUseLibraryPersona = (entry: LibraryPersona) => {
+    handleReset();
+    setProjectId(createProjectId());
+    setProjectCreatedAt(new Date());
+    setConfig(entry.config);
+    setPersona(entry.profile);
+    setSources(entry.sources);
+    setStep(AppStep.GUIDE_INPUT);
+  };
 
   // 1. Initial Research Input
   const handleInitialSubmit = async (inputConfig: ResearchConfig) => {
+    if (!projectId) {
+      setProjectId(createProjectId());
+      setProjectCreatedAt(new Date());
+    }
     setConfig(inputConfig);
     setStep(AppStep.RESEARCHING);
     setError(null);
@@ -41,12 +280,7 @@ const App: React.FC = () => {
         setStep(AppStep.CLARIFYING);
       } else {
         // Pass materials if any
-        await executePersonaGeneration(
-          inputConfig.industry, 
-          inputConfig.targetAudience, 
-          [], 
-          inputConfig.referenceMaterials || []
-        );
+        await executePersonaGeneration(inputConfig, []);
       }
     } catch (err) {
       console.error(err);
@@ -58,14 +292,11 @@ const App: React.FC = () => {
   // 2. Clarification Input
   const handleClarificationSubmit = async (answers: string[]) => {
     if (!config) return;
+    const answeredConfig = { ...config, clarifications: answers };
+    setConfig(answeredConfig);
     setStep(AppStep.RESEARCHING);
     try {
-      await executePersonaGeneration(
-        config.industry, 
-        config.targetAudience, 
-        answers,
-        config.referenceMaterials || []
-      );
+      await executePersonaGeneration(answeredConfig, answers);
     } catch (err) {
       console.error(err);
       setError("生成画像失败，请重试。");
@@ -74,24 +305,111 @@ const App: React.FC = () => {
   };
 
   const executePersonaGeneration = async (
-    industry: string, 
-    audience: string, 
-    clarifications: string[],
-    materials: any[]
+    inputConfig: ResearchConfig,
+    clarifications: string[]
   ) => {
+    if (inputConfig.panel) {
+      try {
+        const members = await generatePersonaPanel(inputConfig, clarifications, (done, total) => setPanelProgress({ done, total }));
+        setPanel(members);
+        setPersona(null);
+        setSources([]);
+      } finally {
+        setPanelProgress(null);
+      }
+      setStep(AppStep.PREVIEW);
+      return;
+    }
+
     const { profile, sources: fetchedSources } = await generatePersonaProfile(
-      industry,
-      audience,
+      inputConfig.industry,
+      inputConfig.targetAudience,
       clarifications,
-      materials
+      inputConfig.referenceMaterials || []
     );
     setPersona(profile);
     setSources(fetchedSources);
+    setPanel([]);
     setStep(AppStep.PREVIEW);
   };
 
+  // 2b. Panel roster actions
+  const handleAcceptMember = (id: string) => {
+    setPanel(prev => prev.map(m => m.id === id ? { ...m, status: 'accepted' } : m));
+  };
+
+  const handleDiscardMember = (id: string) => {
+    setPanel(prev => prev.filter(m => m.id !== id));
+  };
+
+  const handleRegenerateMember = async (id: string) => {
+    const member = panel.find(m => m.id === id);
+    if (!member || !config) return;
+    setBusyMemberIds(prev => [...prev, id]);
+    try {
+      const otherNames = panel.filter(m => m.id !== id).map(m => m.profile.name);
+      const replacement = await generatePanelMember(config, config.clarifications || [], member.slot, [...otherNames, member.profile.name]);
+      setPanel(prev => prev.map(m => m.id === id ? { ...replacement, id } : m));
+    } catch (err) {
+      console.error(err);
+      setError("重新生成受访者失败，请重试。");
+    } finally {
+      setBusyMemberIds(prev => prev.filter(busyId => busyId !== id));
+    }
+  };
+
+  // 2c. Hand edits and section rewrites; memberId targets a panel member, otherwise the single persona
+  const applyProfileUpdate = (memberId: string | undefined, update: (profile: PersonaProfile) => PersonaProfile) => {
+    if (memberId) {
+      setPanel(prev => prev.map(m => m.id === memberId ? { ...m, profile: update(m.profile) } : m));
+    } else {
+      setPersona(prev => prev ? update(prev) : prev);
+    }
+  };
+
+  const refreshAvatar = async (profile: PersonaProfile, memberId?: string) => {
+    if (!config) return;
+    setIsRefreshingAvatar(true);
+    try {
+      const imageUrl = await generatePersonaAvatar(profile.name, config.industry, describeDemographics(profile.details));
+      if (imageUrl) applyProfileUpdate(memberId, p => ({ ...p, imageUrl }));
+    } finally {
+      setIsRefreshingAvatar(false);
+    }
+  };
+
+  const handleEditProfile = (edit: PersonaEdit, memberId?: string) => {
+    const current = memberId ? panel.find(m => m.id === memberId)?.profile : persona;
+    if (!current) return;
+    applyProfileUpdate(memberId, p => updatePersona(p, edit));
+    // The avatar is drawn from the name and demographics
+    if (edit.name !== undefined || edit.section?.key === 'demographics') {
+      refreshAvatar(updatePersona(current, edit), memberId);
+    }
+  };
+
+  const handleRewriteSection = async (key: PersonaSectionKey, instruction: string, memberId?: string) => {
+    const current = memberId ? panel.find(m => m.id === memberId)?.profile : persona;
+    const section = PERSONA_SECTIONS.find(s => s.key === key);
+    if (!current || !section || !config) return;
+    setError(null);
+    try {
+      const rewrite = await rewritePersonaSection(current, section, instruction, config.industry);
+      handleEditProfile({ section: { key, ...rewrite } }, memberId);
+    } catch (err) {
+      console.error(err);
+      setError("改写画像章节失败，请重试。");
+    }
+  };
+
   // 3. Confirm Profile -> Go to Guide Input
-  const handleConfirmProfile = () => {
+  const handleConfirmProfile = (memberId?: string) => {
+    const member = panel.find(m => m.id === memberId);
+    if (member) {
+      // Panel studies interview the chosen member in one-to-one mode
+      setPersona(member.profile);
+      setSources(member.sources);
+    }
     setStep(AppStep.GUIDE_INPUT);
   };
 
@@ -111,18 +429,22 @@ const App: React.FC = () => {
   };
 
   // 5. Confirm Guide -> Select Mode
-  const handleConfirmGuide = (finalGuide: string[]) => {
+  const handleConfirmGuide = (finalGuide: DiscussionGuide) => {
     setDiscussionGuide(finalGuide);
     setStep(AppStep.MODE_SELECTION);
   };
 
+  // Longitudinal studies: what the persona remembers of earlier waves
+  const waveContext = useMemo((): WaveContext => ({ waves, events: waveEvents }), [waves, waveEvents]);
+
   // 6. Start Interview
   const startInterview = (mode: InterviewMode) => {
     if (!persona || !config) return;
     setInterviewMode(mode);
     try {
-      const session = createInterviewSession(persona, config.industry);
+      const session = createInterviewSession(persona, config.industry, [], waveContext);
       setChatSession(session);
+      setChatHistory([]);
       setStep(AppStep.INTERVIEW);
     } catch (err) {
       console.error(err);
@@ -130,33 +452,264 @@ const App: React.FC = () => {
     }
   };
 
+  // 6b. Batch interviews over the accepted panel
+  const acceptedMembers = panel.filter(m => m.status === 'accepted');
+
+  const openBatch = () => {
+    // Keep transcripts already collected, add records for newly accepted members
+    const missing = acceptedMembers.filter(m => !batchInterviews.some(r => r.memberId === m.id));
+    setBatchInterviews([...batchInterviews, ...createInterviewRecords(missing)]);
+    setStep(AppStep.BATCH);
+  };
+
+  const startBatch = async (concurrency: number) => {
+    if (!config) return;
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setIsBatchRunning(true);
+    setError(null);
+    try {
+      await runBatchInterviews(acceptedMembers, batchInterviews, discussionGuide, config.industry, {
+        concurrency,
+        signal: controller.signal,
+        onUpdate: record => setBatchInterviews(prev => prev.map(r => r.id === record.id ? record : r))
+      });
+    } catch (err) {
+      console.error(err);
+      setError("批量访谈中断，请重试。");
+    } finally {
+      batchAbortRef.current = null;
+      setIsBatchRunning(false);
+    }
+  };
+
+  // The report is kept on the record; the study's own persona and interview stay untouched
+  const handleSummarizeBatchInterview = (record: InterviewRecord) => {
+    const member = panel.find(m => m.id === record.memberId);
+    if (!member) return;
+    if (record.summary) {
+      setSummaryTranscriptId(record.id);
+      setStep(AppStep.SUMMARY);
+      return;
+    }
+    summarizeInterview(member.profile, record.messages, AppStep.BATCH, record.id);
+  };
+
+  // 6c. Cross-interview synthesis over finished batch transcripts
+  const handleSynthesize = async () => {
+    if (!config) return;
+    const finished = batchInterviews.filter(r => r.status === 'done' && r.messages.length > 0);
+    setIsSynthesizing(true);
+    setError(null);
+    try {
+      const report = await generateCrossInterviewSynthesis(config.industry, finished);
+      setSynthesis(report);
+      setStep(AppStep.SYNTHESIS);
+    } catch (err) {
+      console.error(err);
+      setError("生成综合报告失败，请重试。");
+    } finally {
+      setIsSynthesizing(false);
+    }
+  };
+
+  // 6d. Focus group: several accepted members in one discussion
+  const focusGroupMembers = useMemo(
+    () => focusGroup ? panel.filter(m => focusGroup.memberIds.includes(m.id)) : [],
+    [focusGroup?.memberIds, panel]
+  );
+
+  const handleStartFocusGroup = (memberIds: string[], moderatorMode: InterviewMode) => {
+    setFocusGroup({ memberIds, moderatorMode, messages: [] });
+  };
+
+  // Stable callbacks: the discussion view re-runs its effects when these change
+  const handleFocusGroupMessagesChange = useCallback((messages: ChatMessage[]) => {
+    setFocusGroup(prev => prev ? { ...prev, messages } : prev);
+  }, []);
+
+  const handleFocusGroupModeChange = useCallback((moderatorMode: InterviewMode) => {
+    setFocusGroup(prev => prev ? { ...prev, moderatorMode } : prev);
+  }, []);
+
+  // The group profile only feeds the report; it never replaces the study's persona
+  const handleEndFocusGroup = (messages: ChatMessage[]) => {
+    summarizeInterview(buildGroupProfile(focusGroupMembers), messages, AppStep.FOCUS_GROUP, FOCUS_GROUP_ID);
+  };
+
+  // 6e. Concept test: the accepted panel, or the study's single persona, rates 2-5 concepts
+  const conceptRespondents = useMemo((): ConceptRespondent[] =>
+    acceptedMembers.length > 0
+      ? acceptedMembers.map(m => ({ memberId: m.id, profile: m.profile }))
+      : persona ? [{ profile: persona }] : [],
+    [panel, persona]
+  );
+
+  const handlePlanConceptTest = (concepts: Stimulus[], design: ConceptTestDesign, rotation: ConceptRotation) => {
+    setConceptTest(createConceptTest(concepts, design, rotation, conceptRespondents));
+  };
+
+  // Back to setup with the same concepts; codes applied to the discarded transcripts go with them
+  const handleRedesignConceptTest = () => {
+    if (!conceptTest) return;
+    const runIds = conceptTest.runs.map(r => r.id);
+    setQuotes(prev => prev.filter(q => !runIds.includes(q.interviewId)));
+    setCodeAssignments(prev => prev.filter(a => !runIds.includes(a.interviewId)));
+    setConceptTest({ ...conceptTest, runs: [] });
+  };
+
+  const startConceptTest = async (concurrency: number) => {
+    if (!config || !conceptTest) return;
+    const controller = new AbortController();
+    conceptTestAbortRef.current = controller;
+    setIsConceptTestRunning(true);
+    setError(null);
+    try {
+      await runConceptTest(conceptTest, config.industry, {
+        concurrency,
+        signal: controller.signal,
+        onUpdate: run => setConceptTest(prev => prev ? { ...prev, runs: prev.runs.map(r => r.id === run.id ? run : r) } : prev)
+      });
+    } catch (err) {
+      console.error(err);
+      setError("概念测试中断，请重试。");
+    } finally {
+      conceptTestAbortRef.current = null;
+      setIsConceptTestRunning(false);
+    }
+  };
+
   // 7. End Interview
   const handleEndSession = async (messages: ChatMessage[]) => {
-    if (!persona || !config) return;
-    setChatHistory(messages);
+    if (!persona) return;
+    summarizeInterview(persona, messages, AppStep.INTERVIEW, MAIN_INTERVIEW_ID);
+  };
+
+  const summarizeInterview = async (profile: PersonaProfile, messages: ChatMessage[], returnStep: AppStep, transcriptId: string) => {
+    if (!config) return;
+    if (transcriptId === MAIN_INTERVIEW_ID) setChatHistory(messages);
+    setSummaryTranscriptId(transcriptId);
+    setIsSummarizing(true);
     setStep(AppStep.RESEARCHING); // Re-use loading state for summary gen
     
     try {
-      const summaryData = await generateInterviewSummary(persona, config.industry, messages);
-      setSummary(summaryData);
+      const summaryData = await generateInterviewSummary(profile, config.industry, messages);
+      if (transcriptId === MAIN_INTERVIEW_ID) {
+        setSummary(summaryData);
+      } else if (transcriptId === FOCUS_GROUP_ID) {
+        setFocusGroup(prev => prev ? { ...prev, messages, summary: summaryData } : prev);
+      } else {
+        setBatchInterviews(prev => prev.map(r => r.id === transcriptId ? { ...r, summary: summaryData } : r));
+      }
       setStep(AppStep.SUMMARY);
     } catch (err) {
       console.error(err);
       setError("生成总结报告失败。");
-      setStep(AppStep.INTERVIEW); 
+      if (returnStep === AppStep.INTERVIEW) {
+        setChatSession(createInterviewSession(profile, config.industry, messages, waveContext));
+      }
+      setStep(returnStep); 
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+
+  // What the summary screen shows: the focus group's or a batch interview's own report, or the study's
+  const summaryReport = useMemo(() => {
+    if (summaryTranscriptId === FOCUS_GROUP_ID) {
+      return focusGroup?.summary
+        ? { summary: focusGroup.summary, profile: buildGroupProfile(focusGroupMembers), messages: focusGroup.messages, sources: [] }
+        : null;
     }
+    const record = batchInterviews.find(r => r.id === summaryTranscriptId);
+    if (record) {
+      const member = panel.find(m => m.id === record.memberId);
+      return record.summary && member
+        ? { summary: record.summary, profile: member.profile, messages: record.messages, sources: member.sources }
+        : null;
+    }
+    return summary && persona ? { summary, profile: persona, messages: chatHistory, sources } : null;
+  }, [focusGroup, focusGroupMembers, batchInterviews, summaryTranscriptId, panel, summary, persona, chatHistory, sources]);
+
+  // 8. Longitudinal studies: archive the interview as a wave, then interview the same persona again
+  const handleStartNextWave = async (events: string) => {
+    if (!persona || !config) return;
+    setIsPreparingWave(true);
+    setError(null);
+    try {
+      const memory = await summarizeWaveMemory(persona, config.industry, chatHistory);
+      const wave = createWave({ number: waves.length + 1, events: waveEvents, messages: chatHistory, summary, memory });
+      setWaves(prev => [...prev, wave]);
+      // The next wave takes over the interview's transcript id
+      setQuotes(prev => moveToTranscript(prev, MAIN_INTERVIEW_ID, wave.id));
+      setCodeAssignments(prev => moveToTranscript(prev, MAIN_INTERVIEW_ID, wave.id));
+      setWaveEvents(events.trim());
+      setChatHistory([]);
+      setSummary(null);
+      setIsWavePlannerOpen(false);
+      setStep(AppStep.MODE_SELECTION);
+    } catch (err) {
+      console.error(err);
+      setError("整理本期访谈记忆失败，请重试。");
+    } finally {
+      setIsPreparingWave(false);
+    }
+  };
+
+  const handleAddQuote = (draft: QuoteDraft) => {
+    setQuotes(prev => [...prev, createQuote(draft)]);
   };
 
+  const handleUpdateQuote = (quote: Quote) => {
+    setQuotes(prev => prev.map(q => q.id === quote.id ? quote : q));
+  };
+
+  const handleDeleteQuote = (id: string) => {
+    setQuotes(prev => prev.filter(q => q.id !== id));
+  };
+
+  // Every transcript in the study, for coding
+  const studyTranscripts = useMemo((): TranscriptSource[] => [
+    ...waves.map(wave => ({ interviewId: wave.id, personaName: `${persona?.name || '受访者'} · ${getWaveLabel(wave.number)}`, messages: wave.messages })),
+    ...(chatHistory.length > 0
+      ? [{
+          interviewId: MAIN_INTERVIEW_ID,
+          personaName: waves.length > 0 ? `${persona?.name || '受访者'} · ${getWaveLabel(waves.length + 1)}` : persona?.name || '受访者',
+          messages: chatHistory
+        }]
+      : []),
+    ...(focusGroup && focusGroup.messages.length > 0
+      ? [{ interviewId: FOCUS_GROUP_ID, personaName: '焦点小组', messages: focusGroup.messages }]
+      : []),
+    ...batchInterviews
+      .filter(r => r.messages.length > 0)
+      .map(r => ({ interviewId: r.id, personaName: r.personaName, messages: r.messages })),
+    ...(conceptTest?.runs || [])
+      .filter(r => r.messages.length > 0)
+      .map(r => ({ interviewId: r.id, personaName: `${r.personaName} · 概念测试`, messages: r.messages }))
+  ], [waves, chatHistory, persona?.name, focusGroup, batchInterviews, conceptTest]);
+
   const handleReset = () => {
     setStep(AppStep.SETUP);
+    setProjectId(null);
     setConfig(null);
     setPersona(null);
     setChatSession(null);
     setSources([]);
+    setPanel([]);
     setClarificationQuestions([]);
     setSummary(null);
     setChatHistory([]);
-    setDiscussionGuide([]);
+    setBatchInterviews([]);
+    setSynthesis(null);
+    setFocusGroup(null);
+    setQuotes([]);
+    setCodebook([]);
+    setCodeAssignments([]);
+    setWaves([]);
+    setWaveEvents('');
+    setConceptTest(null);
+    setDiscussionGuide(createEmptyGuide());
     setError(null);
   };
 
@@ -205,7 +758,7 @@ const App: React.FC = () => {
                 </svg>
             </div>
             <p className="text-xl font-bold text-stone-800">
-              {summary ? "整理访谈洞察..." : "AI 正在构建画像..."}
+              {isSummarizing ? "整理访谈洞察..." : panelProgress ? `AI 正在构建样本组 (${panelProgress.done}/${panelProgress.total})...` : "AI 正在构建画像..."}
             </p>
             <p className="text-sm text-stone-500 mt-2">
               深度搜索分析中，可能需要一分钟左右
@@ -213,8 +766,35 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {step === AppStep.PROJECTS && (
+          <ProjectList
+            projects={projects}
+            onOpen={handleOpenProject}
+            onDelete={handleDeleteProject}
+            onNew={handleReset}
+            onExport={exportStudyBundle}
+            onImport={handleImportProject}
+          />
+        )}
+
+        {step === AppStep.LIBRARY && (
+          <PersonaLibrary
+            entries={library}
+            onLoad={handleUseLibraryPersona}
+            onDelete={handleDeleteLibraryPersona}
+            onUpdateTags={handleUpdateLibraryTags}
+            onBack={handleReset}
+          />
+        )}
+
         {step === AppStep.SETUP && (
-          <SetupForm onSubmit={handleInitialSubmit} isLoading={false} />
+          <SetupForm
+            onSubmit={handleInitialSubmit}
+            isLoading={false}
+            initialConfig={config}
+            onOpenProjects={handleShowProjects}
+            onOpenLibrary={handleShowLibrary}
+          />
         )}
 
         {step === AppStep.CLARIFYING && (
@@ -225,11 +805,20 @@ const App: React.FC = () => {
           />
         )}
 
-        {step === AppStep.PREVIEW && persona && (
+        {step === AppStep.PREVIEW && (persona || panel.length > 0) && (
           <PersonaPreview 
-            profile={persona} 
+            profile={persona || undefined} 
             sources={sources}
+            panel={panel.length > 0 ? panel : undefined}
+            busyMemberIds={busyMemberIds}
+            onAcceptMember={handleAcceptMember}
+            onRegenerateMember={handleRegenerateMember}
+            onDiscardMember={handleDiscardMember}
             onConfirmProfile={handleConfirmProfile} 
+            onEditProfile={handleEditProfile}
+            onRewriteSection={handleRewriteSection}
+            isRefreshingAvatar={isRefreshingAvatar}
+            onSaveToLibrary={handleSaveToLibrary}
             onBack={handleReset} 
           />
         )}
@@ -243,13 +832,22 @@ const App: React.FC = () => {
 
         {step === AppStep.GUIDE_REVIEW && (
           <GuideReview 
-            initialQuestions={discussionGuide}
+            initialGuide={discussionGuide}
             onConfirm={handleConfirmGuide}
           />
         )}
 
         {step === AppStep.MODE_SELECTION && persona && (
           <div className="w-full max-w-3xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-6 animate-fade-in-up">
+            {/* Longitudinal studies: the wave about to start */}
+            {waves.length > 0 && (
+              <div className="md:col-span-2 bg-emerald-900/95 backdrop-blur p-6 rounded-2xl shadow-xl text-white">
+                <h3 className="text-lg font-bold">{getWaveLabel(waves.length + 1)}访谈 · {persona.name}</h3>
+                <p className="text-sm text-emerald-100 mt-1">
+                  TA 记得前 {waves.length} 期访谈的内容{waveEvents ? `，期间经历了：${waveEvents}` : '。'}
+                </p>
+              </div>
+            )}
             {/* Manual Card */}
             <div 
               onClick={() => startInterview(InterviewMode.MANUAL)}
@@ -281,29 +879,206 @@ const App: React.FC = () => {
                 由 AI 专家作为主持人，依据提纲进行访谈。您作为观察者旁听，随时可以暂停并介入提问。
               </p>
             </div>
+
+            {/* Batch Card (panel studies only) */}
+            {acceptedMembers.length > 1 && (
+              <div 
+                onClick={openBatch}
+                className="md:col-span-2 bg-stone-900/95 backdrop-blur p-8 rounded-2xl shadow-xl border border-stone-700 hover:border-teal-400 cursor-pointer transition-all hover:-translate-y-1 group"
+              >
+                <h3 className="text-xl font-bold text-white mb-2">批量自动访谈全部 {acceptedMembers.length} 位受访者</h3>
+                <p className="text-stone-400">
+                  AI 主持人按同一份提纲并行访谈样本组中的每一位受访者，自动收集全部逐字稿，无需逐个点击。
+                </p>
+              </div>
+            )}
+
+            {/* Focus Group Card (panel studies only) */}
+            {acceptedMembers.length >= MIN_FOCUS_GROUP_SIZE && (
+              <div 
+                onClick={() => setStep(AppStep.FOCUS_GROUP)}
+                className="md:col-span-2 bg-white/95 backdrop-blur p-8 rounded-2xl shadow-xl border border-white/20 hover:border-emerald-500 cursor-pointer transition-all hover:-translate-y-1 group"
+              >
+                <h3 className="text-xl font-bold text-stone-800 mb-2">虚拟焦点小组{focusGroup ? ' (继续座谈)' : ''}</h3>
+                <p className="text-stone-500">
+                  让 3-6 位受访者同场讨论：他们会回应主持人，也会互相赞同或反驳。可由 AI 主持，也可由您点名提问。
+                </p>
+              </div>
+            )}
+
+            {/* Concept Test Card */}
+            <div 
+              onClick={() => setStep(AppStep.CONCEPT_TEST)}
+              className="md:col-span-2 bg-white/95 backdrop-blur p-8 rounded-2xl shadow-xl border border-white/20 hover:border-amber-500 cursor-pointer transition-all hover:-translate-y-1 group"
+            >
+              <h3 className="text-xl font-bold text-stone-800 mb-2">概念测试{conceptTest && conceptTest.runs.length > 0 ? ' (查看进度)' : ''}</h3>
+              <p className="text-stone-500">
+                上传 2-5 个概念，{conceptRespondents.length > 1 ? `${conceptRespondents.length} 位受访者` : '受访者'}就购买意向、吸引力、独特性和可信度逐一打分并说明理由，支持单一评估和轮换顺序的序列单一评估，结果汇总为对比表和图表。
+              </p>
+            </div>
           </div>
         )}
 
-        {step === AppStep.INTERVIEW && chatSession && persona && (
+        {step === AppStep.BATCH && (
+          <BatchRunView
+            records={batchInterviews}
+            members={panel}
+            guide={discussionGuide}
+            studyId={projectId || ''}
+            isRunning={isBatchRunning}
+            onStart={startBatch}
+            onCancel={() => batchAbortRef.current?.abort()}
+            onSummarize={handleSummarizeBatchInterview}
+            isSynthesizing={isSynthesizing}
+            hasSynthesis={!!synthesis}
+            onSynthesize={handleSynthesize}
+            onViewSynthesis={() => setStep(AppStep.SYNTHESIS)}
+            onOpenCoding={() => setIsCodingOpen(true)}
+            onBack={() => setStep(AppStep.MODE_SELECTION)}
+          />
+        )}
+
+        {step === AppStep.SYNTHESIS && synthesis && config && (
+          <SynthesisView
+            report={synthesis}
+            config={config}
+            interviews={batchInterviews}
+            members={panel}
+            isRegenerating={isSynthesizing}
+            onRegenerate={handleSynthesize}
+            onAddQuote={handleAddQuote}
+            onBack={() => setStep(AppStep.BATCH)}
+          />
+        )}
+
+        {step === AppStep.FOCUS_GROUP && !focusGroup && (
+          <FocusGroupSetup
+            members={acceptedMembers}
+            onStart={handleStartFocusGroup}
+            onBack={() => setStep(AppStep.MODE_SELECTION)}
+          />
+        )}
+
+        {step === AppStep.FOCUS_GROUP && focusGroup && config && (
+          <FocusGroupInterface
+            participants={focusGroupMembers}
+            industry={config.industry}
+            guide={discussionGuide}
+            moderatorMode={focusGroup.moderatorMode}
+            initialMessages={focusGroup.messages}
+            onMessagesChange={handleFocusGroupMessagesChange}
+            onModeratorModeChange={handleFocusGroupModeChange}
+            onEndSession={handleEndFocusGroup}
+          />
+        )}
+
+        {step === AppStep.CONCEPT_TEST && (!conceptTest || conceptTest.runs.length === 0) && (
+          <ConceptTestSetup
+            respondentNames={conceptRespondents.map(r => r.profile.name)}
+            initial={conceptTest}
+            onStart={handlePlanConceptTest}
+            onBack={() => setStep(AppStep.MODE_SELECTION)}
+          />
+        )}
+
+        {step === AppStep.CONCEPT_TEST && conceptTest && conceptTest.runs.length > 0 && (
+          <ConceptTestView
+            test={conceptTest}
+            members={panel}
+            isRunning={isConceptTestRunning}
+            onStart={startConceptTest}
+            onCancel={() => conceptTestAbortRef.current?.abort()}
+            onRedesign={handleRedesignConceptTest}
+            onViewResults={() => setStep(AppStep.CONCEPT_RESULTS)}
+            onBack={() => setStep(AppStep.MODE_SELECTION)}
+          />
+        )}
+
+        {step === AppStep.CONCEPT_RESULTS && conceptTest && (
+          <ConceptTestSummary
+            test={conceptTest}
+            onBack={() => setStep(AppStep.CONCEPT_TEST)}
+          />
+        )}
+
+        {step === AppStep.INTERVIEW && chatSession && persona && config && (
           <ChatInterface 
             chatSession={chatSession} 
             profile={persona} 
+            industry={config.industry}
+            waveContext={waveContext}
             mode={interviewMode}
             guide={discussionGuide}
+            initialMessages={chatHistory}
+            onMessagesChange={setChatHistory}
             onEndSession={handleEndSession} 
             onSwitchToManual={() => setInterviewMode(InterviewMode.MANUAL)}
+            onAddQuote={handleAddQuote}
+            quoteCount={quotes.length}
+            onOpenQuoteBank={() => setIsQuoteBankOpen(true)}
           />
         )}
 
-        {step === AppStep.SUMMARY && summary && persona && config && (
+        {step === AppStep.SUMMARY && summaryReport && config && (
           <SummaryView
-            summary={summary}
-            profile={persona}
+            summary={summaryReport.summary}
+            profile={summaryReport.profile}
             config={config}
-            messages={chatHistory}
+            messages={summaryReport.messages}
+            sources={summaryReport.sources}
+            studyId={projectId || ''}
+            guide={discussionGuide}
+            transcriptId={summaryTranscriptId}
+            quotes={quotes}
+            onAddQuote={handleAddQuote}
+            onOpenQuoteBank={() => setIsQuoteBankOpen(true)}
+            onOpenCoding={() => setIsCodingOpen(true)}
+            waves={summaryTranscriptId === MAIN_INTERVIEW_ID ? waves : []}
+            onOpenWaves={summaryTranscriptId === MAIN_INTERVIEW_ID ? () => setIsWavePlannerOpen(true) : undefined}
+            onBack={
+              summaryTranscriptId === FOCUS_GROUP_ID ? { label: '← 返回焦点小组', onClick: () => setStep(AppStep.FOCUS_GROUP) }
+              : batchInterviews.some(r => r.id === summaryTranscriptId) ? { label: '← 返回批量访谈', onClick: () => setStep(AppStep.BATCH) }
+              : undefined
+            }
             onReset={handleReset}
           />
         )}
+
+        {isQuoteBankOpen && (
+          <QuoteBank
+            quotes={quotes}
+            onUpdate={handleUpdateQuote}
+            onDelete={handleDeleteQuote}
+            onClose={() => setIsQuoteBankOpen(false)}
+          />
+        )}
+
+        {isWavePlannerOpen && persona && (
+          <WavePlanner
+            personaName={persona.name}
+            waves={waves}
+            currentEvents={waveEvents}
+            currentMessages={chatHistory}
+            currentSummary={summary}
+            isPreparing={isPreparingWave}
+            onStartNextWave={handleStartNextWave}
+            onAddQuote={handleAddQuote}
+            onClose={() => setIsWavePlannerOpen(false)}
+          />
+        )}
+
+        {isCodingOpen && config && (
+          <CodingWorkspace
+            transcripts={studyTranscripts}
+            codebook={codebook}
+            assignments={codeAssignments}
+            industry={config.industry}
+            initialInterviewId={step === AppStep.SUMMARY ? summaryTranscriptId : undefined}
+            onCodebookChange={setCodebook}
+            onAssignmentsChange={setCodeAssignments}
+            onClose={() => setIsCodingOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
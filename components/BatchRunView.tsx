@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { DiscussionGuide, InterviewRecord, InterviewRunStatus, PanelMember } from '../types';
+import TranscriptExportButtons from './TranscriptExportButtons';
+import { getGuideQuestions } from '../services/guide';
+
+interface BatchRunViewProps {
+  records: InterviewRecord[];
+  members: PanelMember[];
+  guide: DiscussionGuide;
+  studyId: string;
+  isRunning: boolean;
+  onStart: (concurrency: number) => void;
+  onCancel: () => void;
+  onSummarize: (record: InterviewRecord) => void;
+  isSynthesizing: boolean;
+  hasSynthesis: boolean;
+  onSynthesize: () => void; // Build the cross-interview report from finished transcripts
+  onViewSynthesis: () => void;
+  onOpenCoding: () => void;
+  onBack: () => void;
+}
+
+const STATUS_STYLES: Record<InterviewRunStatus, { label: string; className: string }> = {
+  queued: { label: '排队中', className: 'bg-stone-100 text-stone-500' },
+  running: { label: '访谈中', className: 'bg-teal-100 text-teal-800 animate-pulse' },
+  done: { label: '已完成', className: 'bg-emerald-100 text-emerald-800' },
+  failed: { label: '失败', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: '已停止', className: 'bg-amber-100 text-amber-800' },
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const MIN_SYNTHESIS_INTERVIEWS = 2;
+
+const BatchRunView: React.FC<BatchRunViewProps> = ({
+  records,
+  members,
+  guide,
+  studyId,
+  isRunning,
+  onStart,
+  onCancel,
+  onSummarize,
+  isSynthesizing,
+  hasSynthesis,
+  onSynthesize,
+  onViewSynthesis,
+  onOpenCoding,
+  onBack
+}) => {
+  const [concurrency, setConcurrency] = useState(2);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const guideLength = getGuideQuestions(guide).length;
+  const doneCount = records.filter(r => r.status === 'done').length;
+  const hasUnfinished = records.some(r => r.status !== 'done');
+  const hasStarted = records.some(r => r.status !== 'queued');
+
+  return (
+    <div className="max-w-4xl mx-auto h-[85vh] flex flex-col bg-white rounded-2xl shadow-xl overflow-hidden animate-fade-in-up">
+      {/* Header */}
+      <div className="bg-stone-900 p-6 text-white shrink-0 flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">批量自动访谈</h2>
+          <p className="text-stone-400 text-sm">AI 主持人将按同一份提纲依次访谈 {records.length} 位受访者</p>
+        </div>
+        <div className="text-right">
+          <div className="text-3xl font-bold text-teal-300">{doneCount}/{records.length}</div>
+          <div className="text-[10px] text-stone-400">已完成</div>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="px-6 py-3 border-b border-stone-200 bg-stone-50 flex items-center gap-4 shrink-0">
+        <label className="text-xs text-stone-600 flex items-center gap-2">
+          并发数
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className="px-2 py-1 rounded border border-stone-300 text-stone-900 text-xs"
+          >
+            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <span className="text-[10px] text-stone-400 flex-1">遇到接口限流时会自动暂停全部访谈并稍后继续</span>
+        {isRunning ? (
+          <button onClick={onCancel} className="bg-red-50 text-red-700 hover:bg-red-100 px-4 py-2 rounded-lg text-sm font-medium">
+            停止
+          </button>
+        ) : (
+          hasUnfinished && (
+            <button onClick={() => onStart(concurrency)} className="bg-emerald-800 hover:bg-emerald-900 text-white px-4 py-2 rounded-lg text-sm font-bold shadow">
+              {hasStarted ? '继续未完成的访谈' : '开始批量访谈'}
+            </button>
+          )
+        )}
+      </div>
+
+      {/* Interview list */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-3">
+        {records.map(record => {
+          const member = members.find(m => m.id === record.memberId);
+          const asked = record.messages.filter(m => m.role === 'user').length;
+          const progress = guideLength > 0 ? Math.min(asked / guideLength, 1) : 0;
+          const lastMessage = record.messages[record.messages.length - 1];
+          const isExpanded = expandedId === record.id;
+          const style = STATUS_STYLES[record.status];
+
+          return (
+            <div key={record.id} className="border border-stone-200 rounded-xl overflow-hidden">
+              <div
+                className="flex items-center gap-3 p-4 cursor-pointer hover:bg-stone-50"
+                onClick={() => setExpandedId(isExpanded ? null : record.id)}
+              >
+                <div className="w-10 h-10 rounded-full bg-stone-100 overflow-hidden shrink-0 flex items-center justify-center text-sm font-bold text-emerald-800">
+                  {member?.profile.imageUrl ? (
+                    <img src={`data:image/png;base64,${member.profile.imageUrl}`} alt={record.personaName} className="w-full h-full object-cover rendering-pixelated" />
+                  ) : record.personaName.charAt(0)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-stone-800 text-sm">{record.personaName}</span>
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-semibold ${style.className}`}>{style.label}</span>
+                    <span className="text-[10px] text-stone-400">{asked} 个问题</span>
+                  </div>
+                  <div className="w-full bg-stone-100 rounded-full h-1.5 mt-2">
+                    <div className="bg-teal-600 h-1.5 rounded-full transition-all duration-500" style={{ width: `${progress * 100}%` }}></div>
+                  </div>
+                  <div className="text-[11px] text-stone-400 truncate mt-1">
+                    {record.error ? `错误：${record.error}` : lastMessage ? lastMessage.text : '等待开始...'}
+                  </div>
+                </div>
+                {record.status === 'done' && (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onSummarize(record); }}
+                    className="text-xs font-bold text-emerald-700 hover:underline shrink-0"
+                  >
+                    {record.summary ? '查看报告' : '生成报告'}
+                  </button>
+                )}
+              </div>
+
+              {isExpanded && record.messages.length > 0 && (
+                <div className="bg-stone-50 border-t border-stone-200 p-4 space-y-2 max-h-72 overflow-y-auto text-xs">
+                  {record.messages.map((msg, idx) => (
+                    <div key={idx} className="flex gap-2">
+                      <span className={`w-16 shrink-0 font-bold text-right ${msg.role === 'user' ? 'text-stone-500' : 'text-emerald-700'}`}>
+                        {msg.role === 'user' ? 'AI 主持人' : record.personaName}
+                      </span>
+                      <span className="flex-1 text-stone-700 whitespace-pre-wrap">{msg.text}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-4 border-t border-stone-200 shrink-0 flex justify-between items-center">
+        <button
+          onClick={onBack}
+          disabled={isRunning}
+          className="text-sm text-stone-500 hover:text-stone-800 font-medium disabled:opacity-40"
+        >
+          ← 返回选择访谈方式
+        </button>
+        <div className="flex gap-2">
+          <TranscriptExportButtons
+            studyId={studyId}
+            guide={guide}
+            sources={records
+              .filter(r => r.messages.length > 0)
+              .map(r => ({ interviewId: r.id, personaName: r.personaName, messages: r.messages }))}
+            fileStem="批量访谈_逐字稿"
+            className="text-sm text-stone-600 px-3 py-2 rounded-lg hover:bg-stone-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          />
+          <button
+            onClick={onOpenCoding}
+            disabled={doneCount === 0}
+            className="text-sm font-bold text-sky-800 px-4 py-2 rounded-lg hover:bg-sky-50 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            编码分析
+          </button>
+          {hasSynthesis && (
+            <button
+              onClick={onViewSynthesis}
+              className="text-sm font-bold text-emerald-700 px-4 py-2 rounded-lg hover:bg-emerald-50"
+            >
+              查看综合报告
+            </button>
+          )}
+          <button
+            onClick={onSynthesize}
+            disabled={isRunning || isSynthesizing || doneCount < MIN_SYNTHESIS_INTERVIEWS}
+            title={doneCount < MIN_SYNTHESIS_INTERVIEWS ? `至少需要 ${MIN_SYNTHESIS_INTERVIEWS} 份已完成的访谈` : undefined}
+            className="bg-stone-900 hover:bg-stone-800 text-white text-sm font-bold px-4 py-2 rounded-lg shadow disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {isSynthesizing ? '综合分析中...' : hasSynthesis ? '重新生成综合报告' : `生成综合报告 (${doneCount} 份)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchRunView;
@@ -1,49 +1,106 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Chat } from '@google/genai';
-import { ChatMessage, PersonaProfile, InterviewMode } from '../types';
-import { getAIInterviewerNextQuestion } from '../services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ChatMessage, PersonaProfile, InterviewMode, DiscussionGuide, GuideCoverage, ConsistencyIssue, Stimulus } from '../types';
+import { ChatSession } from '../services/llmProvider';
+import { assessGuideCoverage, buildQuestionParts, checkPersonaConsistency, getAIInterviewerNextQuestion, getUnansweredQuestions, regeneratePersonaReply, INTRO_PROMPT } from '../services/geminiService';
+import { getOpenMustAsk, matchGuideCoverage, mergeCoverage, pickForcedMustAsk } from '../services/guideCoverage';
+import GuideCoveragePanel from './GuideCoveragePanel';
+import QuoteSelection from './QuoteSelection';
+import StimulusCard from './StimulusCard';
+import StimulusPicker from './StimulusPicker';
+import { MAIN_INTERVIEW_ID, QuoteDraft, quoteDraftFor } from '../services/quotes';
+import { attachConsistency, collectConsistency, formatConsistencyIssue, summarizeConsistency } from '../services/consistency';
+import { describeBehaviorShort, getPersonaBehavior } from '../services/personaBehavior';
+import { WaveContext, getWaveLabel } from '../services/waves';
+import { DEFAULT_STIMULUS_QUESTION } from '../services/stimulus';
 
 interface ChatInterfaceProps {
-  chatSession: Chat;
+  chatSession: ChatSession;
   profile: PersonaProfile;
+  industry: string;
+  waveContext?: WaveContext; // Longitudinal studies: regenerated and checked replies keep the memory of earlier waves
   mode: InterviewMode;
-  guide: string[]; // Discussion guide
+  guide: DiscussionGuide; // Discussion guide
+  initialMessages?: ChatMessage[]; // Transcript restored from a saved project; the session must already hold it as history
+  onMessagesChange?: (messages: ChatMessage[]) => void;
   onEndSession: (messages: ChatMessage[]) => void;
   onSwitchToManual: () => void;
+  onAddQuote: (draft: QuoteDraft) => void; // Text selected in a message
+  quoteCount: number;
+  onOpenQuoteBank: () => void;
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
   chatSession, 
   profile, 
+  industry,
+  waveContext,
   mode, 
   guide, 
+  initialMessages = [],
+  onMessagesChange,
   onEndSession, 
-  onSwitchToManual 
+  onSwitchToManual,
+  onAddQuote,
+  quoteCount,
+  onOpenQuoteBank
 }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+  // Regenerating a reply replaces the session with one that never saw the flagged answer
+  const [session, setSession] = useState<ChatSession>(chatSession);
+  // Consistency check results by turn index; kept apart from messages so a result arriving
+  // does not look like a new message to the moderator loop
+  const [consistency, setConsistency] = useState<Record<number, ConsistencyIssue[]>>(() => collectConsistency(initialMessages));
+  const [regeneratingTurn, setRegeneratingTurn] = useState<number | null>(null);
   const [input, setInput] = useState('');
+  const [stimulus, setStimulus] = useState<Stimulus | null>(null); // Shown with the next question
+  const [isStimulusPickerOpen, setIsStimulusPickerOpen] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
-  const [aiModeratorStatus, setAiModeratorStatus] = useState<'idle' | 'thinking' | 'done'>('idle');
+  const [aiModeratorStatus, setAiModeratorStatus] = useState<'idle' | 'thinking' | 'done' | 'error'>('idle');
   const [retryTrigger, setRetryTrigger] = useState(0); // Trigger to retry logic if failed
+  const [modelCoverage, setModelCoverage] = useState<GuideCoverage>({});
+  const [isAssessingCoverage, setIsAssessingCoverage] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const hasStartedRef = useRef(false);
+  const forcedMustAskRef = useRef<Set<string>>(new Set());
+  const checkingRef = useRef<Set<number>>(new Set());
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+
+  // Transcript matching updates instantly; the model's judgement is merged in when it arrives
+  const coverage = useMemo(
+    () => mergeCoverage(matchGuideCoverage(guide, messages), modelCoverage),
+    [guide, messages, modelCoverage]
+  );
+  // Read by the moderator loop without re-triggering it
+  const coverageRef = useRef(coverage);
+  coverageRef.current = coverage;
 
   // Auto-scroll
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isTyping, aiModeratorStatus]);
 
-  // Initial Greeting
+  // Report transcript changes so the project can be autosaved mid-interview
+  useEffect(() => {
+    onMessagesChange?.(attachConsistency(messages, consistency));
+  }, [messages, consistency, onMessagesChange]);
+
+  // Initial Greeting (skipped when resuming, the persona has already introduced themselves)
   useEffect(() => {
     if (hasStartedRef.current) return;
     hasStartedRef.current = true;
+    if (initialMessages.length > 0) {
+      // The session was rebuilt without questions left unanswered when the interview was closed; ask them again
+      const unanswered = getUnansweredQuestions(initialMessages);
+      if (unanswered.length > 0) answerPending(unanswered);
+      return;
+    }
 
     const startConversation = async () => {
         setIsTyping(true);
         try {
-            const response = await chatSession.sendMessage({ message: "请做一个简短的自我介绍，像我们刚见面一样。" });
-            const text = response.text || "你好。";
+            const text = await session.sendMessage(INTRO_PROMPT) || "你好。";
             setMessages([{ role: 'model', text, timestamp: new Date() }]);
         } catch (err) {
             console.error(err);
@@ -52,7 +109,53 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         }
     };
     startConversation();
-  }, [chatSession]);
+  }, [session, initialMessages]);
+
+  const answerPending = async (questions: ChatMessage[]) => {
+    setIsTyping(true);
+    try {
+      const text = await session.sendMessage(questions.flatMap(q => buildQuestionParts(q.text, q.stimulus))) || "...";
+      setMessages(prev => [...prev, { role: 'model', text, timestamp: new Date() }]);
+    } catch (error) {
+      console.error("Chat error", error);
+      setMessages(prev => [...prev, { role: 'model', text: "(网络波动，请重试)", timestamp: new Date() }]);
+    } finally {
+      setIsTyping(false);
+    }
+  };
+
+  // Re-assess coverage after every persona answer
+  useEffect(() => {
+    const lastMsg = messages[messages.length - 1];
+    if (isTyping || messages.length < 2 || lastMsg?.role !== 'model') return;
+
+    let cancelled = false;
+    setIsAssessingCoverage(true);
+    assessGuideCoverage(guide, messages, profile)
+      .then(result => { if (!cancelled) setModelCoverage(prev => mergeCoverage(prev, result)); })
+      .catch(err => console.error("Coverage assessment failed", err)) // Matching still works
+      .finally(() => { if (!cancelled) setIsAssessingCoverage(false); });
+
+    return () => { cancelled = true; };
+  }, [messages, isTyping, guide, profile]);
+
+  // Check each persona reply against the profile and earlier answers once it arrives
+  useEffect(() => {
+    const turnIndex = messages.length - 1;
+    const reply = messages[turnIndex];
+    if (isTyping || reply?.role !== 'model' || consistency[turnIndex] || checkingRef.current.has(turnIndex)) return;
+
+    checkingRef.current.add(turnIndex);
+    checkPersonaConsistency(profile, messages, turnIndex, waveContext)
+      .then(issues => {
+        // Drop the result if the reply was regenerated in the meantime
+        if (messagesRef.current[turnIndex]?.text === reply.text) {
+          setConsistency(prev => ({ ...prev, [turnIndex]: issues }));
+        }
+      })
+      .catch(err => console.error("Consistency check failed", err))
+      .finally(() => checkingRef.current.delete(turnIndex));
+  }, [messages, isTyping, profile, consistency, waveContext]);
 
   // AI Moderator Logic Loop
   useEffect(() => {
@@ -71,7 +174,17 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         await new Promise(r => setTimeout(r, 3000));
 
         try {
-          const nextQuestion = await getAIInterviewerNextQuestion(messages, guide, profile);
+          const openMustAsk = getOpenMustAsk(guide, coverageRef.current);
+          let nextQuestion = await getAIInterviewerNextQuestion(messages, guide, profile, openMustAsk);
+
+          // Not allowed to finish while must-ask questions are open: put the next one directly
+          if (!nextQuestion) {
+            const forced = pickForcedMustAsk(guide, coverageRef.current, forcedMustAskRef.current);
+            if (forced) {
+              forcedMustAskRef.current.add(forced.id);
+              nextQuestion = forced.text;
+            }
+          }
           
           if (nextQuestion) {
             // AI Moderator asks a question
@@ -80,10 +193,18 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             
             // Trigger Persona response immediately
             setIsTyping(true);
-            const response = await chatSession.sendMessage({ message: nextQuestion });
-            const answer = response.text || "...";
-            setMessages(prev => [...prev, { role: 'model', text: answer, timestamp: new Date() }]);
-            setIsTyping(false);
+            try {
+              const answer = await session.sendMessage(nextQuestion) || "...";
+              setMessages(prev => [...prev, { role: 'model', text: answer, timestamp: new Date() }]);
+            } catch (err) {
+              // Hand the unanswered question back to the researcher rather than moderating on
+              console.error("Chat error", err);
+              setMessages(prev => [...prev, { role: 'model', text: "(网络波动，请重试)", timestamp: new Date() }]);
+              setAiModeratorStatus('error');
+              onSwitchToManual();
+            } finally {
+              setIsTyping(false);
+            }
           } else {
             // Null means AI thinks interview is done
             setAiModeratorStatus('done');
@@ -98,31 +219,33 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
              await new Promise(r => setTimeout(r, 5000));
              setRetryTrigger(prev => prev + 1); // Try loop again
           } else {
-             setAiModeratorStatus('idle');
+             setAiModeratorStatus('error');
+             onSwitchToManual();
           }
         }
       }
     };
 
     runAiModeratorLoop();
-  }, [messages, mode, guide, profile, chatSession, onSwitchToManual, isTyping, retryTrigger]);
+  }, [messages, mode, guide, profile, session, onSwitchToManual, isTyping, retryTrigger]);
 
 
   const handleManualSend = async (e?: React.FormEvent) => {
     e?.preventDefault();
-    if (!input.trim() || isTyping) return;
+    if ((!input.trim() && !stimulus) || isTyping) return;
 
     // If we were in auto mode (rare race condition), ensure we are manual
     if (mode === InterviewMode.AUTO) onSwitchToManual();
 
-    const userMsg = input.trim();
+    const userMsg = input.trim() || DEFAULT_STIMULUS_QUESTION;
+    const shown = stimulus || undefined;
     setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userMsg, timestamp: new Date(), isAiInterviewer: false }]);
+    setStimulus(null);
+    setMessages(prev => [...prev, { role: 'user', text: userMsg, timestamp: new Date(), isAiInterviewer: false, ...(shown ? { stimulus: shown } : {}) }]);
     setIsTyping(true);
 
     try {
-      const result = await chatSession.sendMessage({ message: userMsg });
-      const text = result.text || "...";
+      const text = await session.sendMessage(buildQuestionParts(userMsg, shown)) || "...";
       setMessages(prev => [...prev, { role: 'model', text, timestamp: new Date() }]);
     } catch (error) {
       console.error("Chat error", error);
@@ -132,6 +255,31 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  const handleRegenerate = async (turnIndex: number) => {
+    const issues = consistency[turnIndex];
+    if (!issues || isTyping) return;
+    setRegeneratingTurn(turnIndex);
+    setIsTyping(true);
+    try {
+      const { session: fresh, text } = await regeneratePersonaReply(profile, industry, messages, turnIndex, issues, waveContext);
+      setSession(fresh);
+      setConsistency(prev => {
+        const next = { ...prev };
+        delete next[turnIndex];
+        return next;
+      });
+      setMessages(prev => prev.map((m, i) => i === turnIndex ? { ...m, text, timestamp: new Date() } : m));
+    } catch (error) {
+      console.error("Regenerating reply failed", error);
+    } finally {
+      setRegeneratingTurn(null);
+      setIsTyping(false);
+    }
+  };
+
+  const consistencySummary = summarizeConsistency(attachConsistency(messages, consistency));
+  const behaviorLabel = describeBehaviorShort(getPersonaBehavior(profile));
+
   const Avatar = ({ name, imageUrl, isAi }: { name?: string, imageUrl?: string, isAi?: boolean }) => {
     if (isAi) {
       return (
@@ -157,152 +305,226 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   };
 
   return (
-    <div className="flex flex-col h-[85vh] max-w-4xl mx-auto bg-white rounded-2xl shadow-xl overflow-hidden relative">
+    <div className="flex h-[85vh] max-w-6xl mx-auto bg-white rounded-2xl shadow-xl overflow-hidden relative">
+      <div className="flex flex-col flex-1 min-w-0 relative">
       
-      {/* Header */}
-      <div className={`border-b p-4 flex items-center justify-between shrink-0 z-10 transition-colors duration-500
-        ${mode === InterviewMode.AUTO ? 'bg-stone-900 border-stone-800' : 'bg-white border-stone-200'}`}>
+        {/* Header */}
+        <div className={`border-b p-4 flex items-center justify-between shrink-0 z-10 transition-colors duration-500
+          ${mode === InterviewMode.AUTO ? 'bg-stone-900 border-stone-800' : 'bg-white border-stone-200'}`}>
         
-        <div className="flex items-center gap-3">
-          <Avatar name={profile.name} imageUrl={profile.imageUrl} />
-          <div>
-            <h3 className={`font-bold ${mode === InterviewMode.AUTO ? 'text-white' : 'text-stone-800'}`}>
-              {profile.name}
-            </h3>
-            <div className="flex items-center gap-1.5">
-              {mode === InterviewMode.AUTO ? (
-                <>
-                  <span className="w-2 h-2 rounded-full bg-teal-400 animate-pulse"></span>
-                  <span className="text-xs text-teal-200 font-medium">AI 自动访谈进行中... (观察模式)</span>
-                </>
-              ) : (
-                <>
-                  <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
-                  <span className="text-xs text-stone-500 font-medium">在线 • 您的提问回合</span>
-                </>
-              )}
+          <div className="flex items-center gap-3">
+            <Avatar name={profile.name} imageUrl={profile.imageUrl} />
+            <div>
+              <h3 className={`font-bold ${mode === InterviewMode.AUTO ? 'text-white' : 'text-stone-800'}`}>
+                {profile.name}
+                {waveContext && waveContext.waves.length > 0 && (
+                  <span className="ml-2 align-middle text-[10px] font-medium px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-800">
+                    {getWaveLabel(waveContext.waves.length + 1)}
+                  </span>
+                )}
+                {behaviorLabel && (
+                  <span title="受访表现设定" className="ml-2 align-middle text-[10px] font-medium px-1.5 py-0.5 rounded bg-amber-100 text-amber-800">
+                    {behaviorLabel}
+                  </span>
+                )}
+              </h3>
+              <div className="flex items-center gap-1.5">
+                {mode === InterviewMode.AUTO ? (
+                  <>
+                    <span className="w-2 h-2 rounded-full bg-teal-400 animate-pulse"></span>
+                    <span className="text-xs text-teal-200 font-medium">AI 自动访谈进行中... (观察模式)</span>
+                  </>
+                ) : (
+                  <>
+                    <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
+                    <span className="text-xs text-stone-500 font-medium">在线 • 您的提问回合</span>
+                  </>
+                )}
+              </div>
             </div>
           </div>
-        </div>
         
-        <div className="flex gap-2">
-           {mode === InterviewMode.AUTO && (
-             <button 
-               onClick={onSwitchToManual}
-               className="bg-stone-700 hover:bg-stone-600 text-white px-3 py-1.5 rounded text-xs font-bold border border-stone-600"
+          <div className="flex gap-2 items-center">
+             {consistencySummary.score !== null && (
+               <span
+                 title={`已核查 ${consistencySummary.checked} 条回答，${consistencySummary.flagged} 条可能出戏`}
+                 className={`px-2 py-1 rounded text-[11px] font-bold ${consistencySummary.flagged > 0 ? 'bg-amber-100 text-amber-800' : mode === InterviewMode.AUTO ? 'bg-stone-800 text-teal-200' : 'bg-emerald-50 text-emerald-700'}`}
+               >
+                 人设一致性 {consistencySummary.score}
+               </span>
+             )}
+             <button
+               onClick={onOpenQuoteBank}
+               title="在消息中选中文字即可保存引用"
+               className={`px-3 py-1.5 rounded text-xs font-bold border ${mode === InterviewMode.AUTO ? 'bg-stone-800 hover:bg-stone-700 text-amber-200 border-stone-600' : 'bg-amber-50 hover:bg-amber-100 text-amber-800 border-amber-200'}`}
              >
-               暂停 / 接管
+               ❝ 引用库 {quoteCount > 0 && `(${quoteCount})`}
              </button>
-           )}
-           <button 
-            onClick={() => onEndSession(messages)}
-            className="bg-red-50 text-red-700 hover:bg-red-100 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
-          >
-            结束
-          </button>
+             {mode === InterviewMode.AUTO && (
+               <button 
+                 onClick={onSwitchToManual}
+                 className="bg-stone-700 hover:bg-stone-600 text-white px-3 py-1.5 rounded text-xs font-bold border border-stone-600"
+               >
+                 暂停 / 接管
+               </button>
+             )}
+             <button 
+              onClick={() => onEndSession(attachConsistency(messages, consistency))}
+              className="bg-red-50 text-red-700 hover:bg-red-100 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              结束
+            </button>
+          </div>
         </div>
-      </div>
 
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 bg-stone-50 space-y-6">
-        {messages.map((msg, idx) => {
-          const isUser = msg.role === 'user';
-          const isAiMod = msg.isAiInterviewer;
+        {/* Messages Area */}
+        <QuoteSelection onSave={(selection) => onAddQuote(quoteDraftFor(MAIN_INTERVIEW_ID, messages, profile.name, selection))} className="flex-1 overflow-y-auto p-4 bg-stone-50 space-y-6">
+          {messages.map((msg, idx) => {
+            const isUser = msg.role === 'user';
+            const isAiMod = msg.isAiInterviewer;
+            const issues = isUser ? undefined : consistency[idx];
+            // Only the latest reply can be redone; later turns were built on the earlier ones
+            const canRegenerate = idx === messages.length - 1 && mode === InterviewMode.MANUAL && !isTyping;
           
-          return (
-            <div 
-              key={idx} 
-              className={`flex w-full ${isUser ? 'justify-end' : 'justify-start'}`}
-            >
-              <div className={`flex max-w-[85%] ${isUser ? 'flex-row-reverse' : 'flex-row'} items-end gap-2`}>
-                 {/* Avatar */}
-                 {!isUser && <Avatar name={profile.name} imageUrl={profile.imageUrl} />}
-                 {isUser && isAiMod && <Avatar isAi={true} />}
+            return (
+              <div 
+                key={idx} 
+                className={`flex flex-col w-full ${isUser ? 'items-end' : 'items-start'}`}
+              >
+                {msg.stimulus && <StimulusCard stimulus={msg.stimulus} className="mb-1.5" />}
+                <div className={`flex max-w-[85%] ${isUser ? 'flex-row-reverse' : 'flex-row'} items-end gap-2`}>
+                   {/* Avatar */}
+                   {!isUser && <Avatar name={profile.name} imageUrl={profile.imageUrl} />}
+                   {isUser && isAiMod && <Avatar isAi={true} />}
                  
-                 {/* Bubble */}
-                 <div 
-                   className={`p-4 rounded-2xl shadow-sm text-sm leading-relaxed whitespace-pre-wrap relative
-                      ${isUser 
-                        ? (isAiMod ? 'bg-stone-800 text-stone-100 rounded-br-none' : 'bg-emerald-800 text-white rounded-br-none')
-                        : 'bg-white text-stone-800 border border-stone-200 rounded-bl-none'
-                      }`}
-                 >
-                   {/* Label for AI Moderator messages */}
-                   {isUser && isAiMod && (
-                     <div className="absolute -top-5 right-0 text-[10px] text-stone-400 font-bold tracking-wider uppercase">AI 主持人</div>
-                   )}
-                   {msg.text}
-                 </div>
+                   {/* Bubble */}
+                   <div 
+                     data-turn-index={idx}
+                     className={`p-4 rounded-2xl shadow-sm text-sm leading-relaxed whitespace-pre-wrap relative
+                        ${isUser 
+                          ? (isAiMod ? 'bg-stone-800 text-stone-100 rounded-br-none' : 'bg-emerald-800 text-white rounded-br-none')
+                          : 'bg-white text-stone-800 border border-stone-200 rounded-bl-none'
+                        }`}
+                   >
+                     {/* Label for AI Moderator messages */}
+                     {isUser && isAiMod && (
+                       <div className="absolute -top-5 right-0 text-[10px] text-stone-400 font-bold tracking-wider uppercase">AI 主持人</div>
+                     )}
+                     {msg.text}
+                   </div>
+                </div>
+                {issues && issues.length > 0 && (
+                  <div className="ml-11 mt-1.5 max-w-[75%] text-[11px] text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                    {issues.map((issue, i) => <div key={i}>⚠ {formatConsistencyIssue(issue)}</div>)}
+                    {canRegenerate && (
+                      <button onClick={() => handleRegenerate(idx)} className="mt-1 font-bold text-amber-900 hover:underline">
+                        ↻ 重新生成这条回答
+                      </button>
+                    )}
+                  </div>
+                )}
+                {regeneratingTurn === idx && <div className="ml-11 mt-1 text-[11px] text-stone-400">正在重新生成...</div>}
               </div>
-            </div>
-          );
-        })}
+            );
+          })}
 
-        {/* Typing Indicators */}
-        {(isTyping || aiModeratorStatus === 'thinking') && (
-          <div className={`flex w-full ${aiModeratorStatus === 'thinking' ? 'justify-end' : 'justify-start'}`}>
-             <div className={`flex max-w-[80%] ${aiModeratorStatus === 'thinking' ? 'flex-row-reverse' : 'flex-row'} items-end gap-2`}>
+          {/* Typing Indicators */}
+          {(isTyping || aiModeratorStatus === 'thinking') && (
+            <div className={`flex w-full ${aiModeratorStatus === 'thinking' ? 'justify-end' : 'justify-start'}`}>
+               <div className={`flex max-w-[80%] ${aiModeratorStatus === 'thinking' ? 'flex-row-reverse' : 'flex-row'} items-end gap-2`}>
                 
-                {/* Persona Avatar if they are typing */}
-                {isTyping && <Avatar name={profile.name} imageUrl={profile.imageUrl} />}
-                 {/* AI Mod Avatar if thinking */}
-                {aiModeratorStatus === 'thinking' && <Avatar isAi={true} />}
-
-                 <div className={`${aiModeratorStatus === 'thinking' ? 'bg-stone-800 border-stone-700' : 'bg-white border-stone-200'} px-4 py-3 rounded-2xl shadow-sm flex items-center gap-1`}>
-                    <span className={`w-1.5 h-1.5 rounded-full animate-bounce ${aiModeratorStatus === 'thinking' ? 'bg-stone-400' : 'bg-stone-400'}`} style={{ animationDelay: '0ms' }}></span>
-                    <span className={`w-1.5 h-1.5 rounded-full animate-bounce ${aiModeratorStatus === 'thinking' ? 'bg-stone-400' : 'bg-stone-400'}`} style={{ animationDelay: '150ms' }}></span>
-                    <span className={`w-1.5 h-1.5 rounded-full animate-bounce ${aiModeratorStatus === 'thinking' ? 'bg-stone-400' : 'bg-stone-400'}`} style={{ animationDelay: '300ms' }}></span>
-                 </div>
+                  {/* Persona Avatar if they are typing */}
+                  {isTyping && <Avatar name={profile.name} imageUrl={profile.imageUrl} />}
+                   {/* AI Mod Avatar if thinking */}
+                  {aiModeratorStatus === 'thinking' && <Avatar isAi={true} />}
+
+                   <div className={`${aiModeratorStatus === 'thinking' ? 'bg-stone-800 border-stone-700' : 'bg-white border-stone-200'} px-4 py-3 rounded-2xl shadow-sm flex items-center gap-1`}>
+                      <span className={`w-1.5 h-1.5 rounded-full animate-bounce ${aiModeratorStatus === 'thinking' ? 'bg-stone-400' : 'bg-stone-400'}`} style={{ animationDelay: '0ms' }}></span>
+                      <span className={`w-1.5 h-1.5 rounded-full animate-bounce ${aiModeratorStatus === 'thinking' ? 'bg-stone-400' : 'bg-stone-400'}`} style={{ animationDelay: '150ms' }}></span>
+                      <span className={`w-1.5 h-1.5 rounded-full animate-bounce ${aiModeratorStatus === 'thinking' ? 'bg-stone-400' : 'bg-stone-400'}`} style={{ animationDelay: '300ms' }}></span>
+                   </div>
+               </div>
+            </div>
+          )}
+          <div ref={messagesEndRef} />
+        </QuoteSelection>
+
+        {/* Input Area (Only active in Manual Mode) */}
+        <div className={`p-4 border-t transition-all duration-300 ${mode === InterviewMode.AUTO ? 'bg-stone-100' : 'bg-white'}`}>
+          {mode === InterviewMode.AUTO ? (
+             <div className="flex items-center justify-between text-stone-500 text-sm px-2">
+               <span className="flex items-center gap-2">
+                 <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                 </svg>
+                 AI 正在进行访谈...
+               </span>
+               <button onClick={onSwitchToManual} className="text-emerald-700 font-bold hover:underline">
+                 切换为手动提问
+               </button>
              </div>
-          </div>
-        )}
-        <div ref={messagesEndRef} />
-      </div>
+          ) : (
+            <>
+            {isStimulusPickerOpen && !stimulus && (
+              <StimulusPicker
+                onAttach={(attached) => { setStimulus(attached); setIsStimulusPickerOpen(false); }}
+                onClose={() => setIsStimulusPickerOpen(false)}
+              />
+            )}
+            {stimulus && (
+              <div className="max-w-4xl mx-auto mb-3">
+                <StimulusCard stimulus={stimulus} onRemove={() => setStimulus(null)} />
+              </div>
+            )}
+            <form onSubmit={handleManualSend} className="flex items-end gap-2 max-w-4xl mx-auto relative">
+              <button
+                type="button"
+                onClick={() => setIsStimulusPickerOpen(!isStimulusPickerOpen)}
+                disabled={isTyping || !!stimulus}
+                title="展示测试材料（概念板、包装、广告、价格）"
+                className={`p-3 rounded-xl transition-colors disabled:opacity-50 ${isStimulusPickerOpen ? 'bg-emerald-100 text-emerald-800' : 'bg-stone-100 text-stone-500 hover:text-emerald-700'}`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.8} stroke="currentColor" className="w-5 h-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 15.75l5.159-5.159a2.25 2.25 0 013.182 0l5.159 5.159m-1.5-1.5l1.409-1.409a2.25 2.25 0 013.182 0l2.909 2.909M3.75 21h16.5A2.25 2.25 0 0022.5 18.75V5.25A2.25 2.25 0 0020.25 3H3.75A2.25 2.25 0 001.5 5.25v13.5A2.25 2.25 0 003.75 21z" />
+                </svg>
+              </button>
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder={stimulus ? `针对这份材料提问，留空则问“${DEFAULT_STIMULUS_QUESTION}”` : `轮到您了，向 ${profile.name.split(' ')[0]} 提问...`}
+                className="flex-1 bg-stone-100 text-stone-900 border-0 rounded-xl px-4 py-3 focus:ring-2 focus:ring-emerald-600 focus:bg-white transition-all outline-none"
+                disabled={isTyping}
+              />
+              <button
+                type="submit"
+                disabled={(!input.trim() && !stimulus) || isTyping}
+                className="bg-emerald-800 hover:bg-emerald-900 text-white p-3 rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                  <path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" />
+                </svg>
+              </button>
+            </form>
+            </>
+          )}
+        </div>
 
-      {/* Input Area (Only active in Manual Mode) */}
-      <div className={`p-4 border-t transition-all duration-300 ${mode === InterviewMode.AUTO ? 'bg-stone-100' : 'bg-white'}`}>
-        {mode === InterviewMode.AUTO ? (
-           <div className="flex items-center justify-between text-stone-500 text-sm px-2">
-             <span className="flex items-center gap-2">
-               <svg className="animate-spin h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-               </svg>
-               AI 正在进行访谈...
-             </span>
-             <button onClick={onSwitchToManual} className="text-emerald-700 font-bold hover:underline">
-               切换为手动提问
-             </button>
+        {/* Mode Switch Notification */}
+        {aiModeratorStatus === 'done' && mode === InterviewMode.MANUAL && (
+           <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 bg-stone-800 text-white text-sm py-2 px-4 rounded-full shadow-lg animate-bounce">
+              AI 访谈已结束，现在由您接手提问！
+           </div>
+        )}
+        {aiModeratorStatus === 'error' && mode === InterviewMode.MANUAL && (
+           <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 bg-red-700 text-white text-sm py-2 px-4 rounded-full shadow-lg">
+              AI 主持出错，已切换为手动提问，可稍后重新开启 AI 主持
            </div>
-        ) : (
-          <form onSubmit={handleManualSend} className="flex items-end gap-2 max-w-4xl mx-auto relative">
-            <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder={`轮到您了，向 ${profile.name.split(' ')[0]} 提问...`}
-              className="flex-1 bg-stone-100 text-stone-900 border-0 rounded-xl px-4 py-3 focus:ring-2 focus:ring-emerald-600 focus:bg-white transition-all outline-none"
-              disabled={isTyping}
-            />
-            <button
-              type="submit"
-              disabled={!input.trim() || isTyping}
-              className="bg-emerald-800 hover:bg-emerald-900 text-white p-3 rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
-                <path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" />
-              </svg>
-            </button>
-          </form>
         )}
       </div>
 
-      {/* Mode Switch Notification */}
-      {aiModeratorStatus === 'done' && mode === InterviewMode.MANUAL && (
-         <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 bg-stone-800 text-white text-sm py-2 px-4 rounded-full shadow-lg animate-bounce">
-            AI 访谈已结束，现在由您接手提问！
-         </div>
-      )}
+      <GuideCoveragePanel guide={guide} coverage={coverage} isAssessing={isAssessingCoverage} />
     </div>
   );
 };
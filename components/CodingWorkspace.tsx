@@ -0,0 +1,315 @@
+import React, { useState } from 'react';
+import { ChatMessage, CodeAssignment, CodebookCode } from '../types';
+import { TranscriptSource } from '../services/transcriptExport';
+import { assignCode, buildCodeFrequencyMatrix, createCode, mergeProposals, missingDimensionCodes, setAssignmentStatus } from '../services/coding';
+import { autoCodeTranscript } from '../services/geminiService';
+
+interface CodingWorkspaceProps {
+  transcripts: TranscriptSource[];
+  codebook: CodebookCode[];
+  assignments: CodeAssignment[];
+  industry: string;
+  initialInterviewId?: string;
+  onCodebookChange: (codebook: CodebookCode[]) => void;
+  onAssignmentsChange: (update: (prev: CodeAssignment[]) => CodeAssignment[]) => void;
+  onClose: () => void;
+}
+
+// Chip colours, by position in the codebook
+const CODE_COLORS = [
+  'bg-emerald-100 text-emerald-800 border-emerald-200',
+  'bg-sky-100 text-sky-800 border-sky-200',
+  'bg-amber-100 text-amber-800 border-amber-200',
+  'bg-rose-100 text-rose-800 border-rose-200',
+  'bg-violet-100 text-violet-800 border-violet-200',
+  'bg-teal-100 text-teal-800 border-teal-200',
+  'bg-orange-100 text-orange-800 border-orange-200',
+  'bg-lime-100 text-lime-800 border-lime-200',
+];
+
+const colorFor = (codebook: CodebookCode[], codeId: string) =>
+  CODE_COLORS[Math.max(0, codebook.findIndex(c => c.id === codeId)) % CODE_COLORS.length];
+
+// Edits a code's name and definition in place; changes are saved on blur
+const CodeRow: React.FC<{ code: CodebookCode; color: string; usage: number; onUpdate: (code: CodebookCode) => void; onDelete: (code: CodebookCode) => void }> = ({ code, color, usage, onUpdate, onDelete }) => {
+  const [name, setName] = useState(code.name);
+  const [description, setDescription] = useState(code.description);
+
+  const save = () => {
+    if (name.trim() !== code.name || description.trim() !== code.description) {
+      onUpdate({ ...code, name: name.trim() || code.name, description: description.trim() });
+    }
+    if (!name.trim()) setName(code.name);
+  };
+
+  return (
+    <div className="p-2 rounded-lg border border-stone-200 bg-white space-y-1">
+      <div className="flex items-center gap-2">
+        <span className={`w-2.5 h-2.5 rounded-full border shrink-0 ${color}`} />
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={save}
+          placeholder="代码名称"
+          className="flex-1 min-w-0 text-sm font-bold text-stone-800 outline-none border-b border-transparent focus:border-emerald-500"
+        />
+        <span className="text-[10px] text-stone-400 shrink-0">{usage}</span>
+        <button onClick={() => onDelete(code)} className="text-xs text-stone-300 hover:text-red-600 shrink-0">✕</button>
+      </div>
+      <input
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        onBlur={save}
+        placeholder="定义 (自动编码时依据)"
+        className="w-full text-[11px] text-stone-500 outline-none border-b border-transparent focus:border-emerald-500"
+      />
+    </div>
+  );
+};
+
+const TurnRow: React.FC<{
+  message: ChatMessage;
+  turnIndex: number;
+  speaker: string;
+  assignments: CodeAssignment[];
+  codebook: CodebookCode[];
+  onAssign: (codeId: string) => void;
+  onSetStatus: (ids: string[], status: CodeAssignment['status']) => void;
+}> = ({ message, turnIndex, speaker, assignments, codebook, onAssign, onSetStatus }) => {
+  const isRespondent = message.role === 'model';
+  const accepted = assignments.filter(a => a.status === 'accepted');
+  const proposed = assignments.filter(a => a.status === 'proposed');
+  const available = codebook.filter(code => !accepted.some(a => a.codeId === code.id));
+  const codeName = (codeId: string) => codebook.find(c => c.id === codeId)?.name || '已删除的代码';
+
+  return (
+    <div className={`flex gap-3 p-2 rounded-lg ${proposed.length > 0 ? 'bg-sky-50/60' : ''}`}>
+      <span className="w-6 shrink-0 text-[10px] text-stone-300 font-mono pt-0.5">#{turnIndex}</span>
+      <span className={`w-20 shrink-0 text-xs font-bold pt-0.5 ${isRespondent ? 'text-emerald-700' : 'text-stone-400'}`}>{speaker}</span>
+      <div className="flex-1 min-w-0">
+        <p className={`text-sm whitespace-pre-wrap leading-relaxed ${isRespondent ? 'text-stone-700' : 'text-stone-400'}`}>{message.text}</p>
+        {isRespondent && (
+          <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+            {accepted.map(a => (
+              <span key={a.id} className={`inline-flex items-center gap-1 text-[11px] font-medium px-2 py-0.5 rounded-full border ${colorFor(codebook, a.codeId)}`}>
+                {codeName(a.codeId)}
+                <button onClick={() => onSetStatus([a.id], 'rejected')} title="移除" className="opacity-50 hover:opacity-100">✕</button>
+              </span>
+            ))}
+            {proposed.map(a => (
+              <span key={a.id} title={a.rationale} className="inline-flex items-center gap-1 text-[11px] px-2 py-0.5 rounded-full border border-dashed border-sky-400 text-sky-800 bg-white">
+                AI: {codeName(a.codeId)}
+                <button onClick={() => onSetStatus([a.id], 'accepted')} title="接受" className="text-emerald-600 hover:text-emerald-800 font-bold">✓</button>
+                <button onClick={() => onSetStatus([a.id], 'rejected')} title="拒绝" className="text-stone-400 hover:text-red-600">✕</button>
+              </span>
+            ))}
+            {available.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && onAssign(e.target.value)}
+                className="text-[11px] text-stone-500 bg-transparent border border-stone-200 rounded-full px-1.5 py-0.5 hover:border-emerald-400 cursor-pointer"
+              >
+                <option value="">+ 编码</option>
+                {available.map(code => <option key={code.id} value={code.id}>{code.name}</option>)}
+              </select>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const CodingWorkspace: React.FC<CodingWorkspaceProps> = ({
+  transcripts, codebook, assignments, industry, initialInterviewId, onCodebookChange, onAssignmentsChange, onClose
+}) => {
+  const [tab, setTab] = useState<'code' | 'matrix'>('code');
+  const [interviewId, setInterviewId] = useState<string>(
+    transcripts.some(t => t.interviewId === initialInterviewId) ? initialInterviewId! : transcripts[0]?.interviewId ?? ''
+  );
+  const [codingIds, setCodingIds] = useState<string[]>([]); // Transcripts with an auto-coding pass running
+  const [error, setError] = useState<string | null>(null);
+
+  const transcript = transcripts.find(t => t.interviewId === interviewId);
+  const transcriptAssignments = assignments.filter(a => a.interviewId === interviewId);
+  const pendingIds = transcriptAssignments.filter(a => a.status === 'proposed').map(a => a.id);
+  const matrix = buildCodeFrequencyMatrix(codebook, assignments, transcripts);
+  const maxCount = Math.max(1, ...matrix.rows.flatMap(row => row.counts));
+
+  const handleDeleteCode = (code: CodebookCode) => {
+    const usage = assignments.filter(a => a.codeId === code.id && a.status === 'accepted').length;
+    if (usage > 0 && !confirm(`“${code.name}”已用于 ${usage} 条发言，删除代码会一并移除这些编码。继续吗？`)) return;
+    onCodebookChange(codebook.filter(c => c.id !== code.id));
+    onAssignmentsChange(prev => prev.filter(a => a.codeId !== code.id));
+  };
+
+  const handleAutoCode = async () => {
+    if (!transcript) return;
+    const target = transcript.interviewId;
+    setCodingIds(prev => [...prev, target]);
+    setError(null);
+    try {
+      const proposals = await autoCodeTranscript(codebook, transcript, industry);
+      onAssignmentsChange(prev => mergeProposals(prev, target, proposals));
+    } catch (err) {
+      console.error(err);
+      setError("自动编码失败，请重试。");
+    } finally {
+      setCodingIds(prev => prev.filter(id => id !== target));
+    }
+  };
+
+  const speakerFor = (msg: ChatMessage) =>
+    msg.role === 'model' ? (msg.speakerName || transcript?.personaName || '') : msg.isAiInterviewer ? 'AI 主持人' : '采访者';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-stone-200 flex justify-between items-center shrink-0">
+          <div className="flex items-center gap-4">
+            <div>
+              <h3 className="font-bold text-stone-800">编码分析</h3>
+              <p className="text-[11px] text-stone-400">按编码手册为受访者发言编码 · {transcripts.length} 份逐字稿</p>
+            </div>
+            <div className="flex bg-stone-100 rounded-lg p-0.5">
+              {([['code', '编码'], ['matrix', '频次矩阵']] as const).map(([key, label]) => (
+                <button
+                  key={key}
+                  onClick={() => setTab(key)}
+                  className={`text-xs font-bold px-3 py-1.5 rounded-md transition-colors ${tab === key ? 'bg-white text-emerald-800 shadow-sm' : 'text-stone-500 hover:text-stone-800'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-stone-400 hover:text-stone-700 text-sm font-medium">关闭</button>
+        </div>
+
+        {tab === 'code' ? (
+          <div className="flex-1 flex min-h-0">
+            {/* Codebook */}
+            <div className="w-72 shrink-0 border-r border-stone-200 bg-stone-50 flex flex-col min-h-0">
+              <div className="p-3 flex justify-between items-center shrink-0">
+                <span className="text-xs font-bold text-stone-500">编码手册 ({codebook.length})</span>
+                <button onClick={() => onCodebookChange([...codebook, createCode("新代码")])} className="text-xs font-bold text-emerald-700 hover:text-emerald-900">
+                  + 添加代码
+                </button>
+              </div>
+              <div className="flex-1 overflow-y-auto px-3 pb-3 space-y-2">
+                {codebook.map(code => (
+                  <CodeRow
+                    key={code.id}
+                    code={code}
+                    color={colorFor(codebook, code.id)}
+                    usage={assignments.filter(a => a.codeId === code.id && a.status === 'accepted').length}
+                    onUpdate={(updated) => onCodebookChange(codebook.map(c => c.id === updated.id ? updated : c))}
+                    onDelete={handleDeleteCode}
+                  />
+                ))}
+                {missingDimensionCodes(codebook).length > 0 && (
+                  <button
+                    onClick={() => onCodebookChange([...codebook, ...missingDimensionCodes(codebook)])}
+                    className="w-full text-xs text-stone-500 border border-dashed border-stone-300 rounded-lg py-2 hover:border-emerald-500 hover:text-emerald-700"
+                  >
+                    {codebook.length === 0 ? '使用默认的六个研究维度' : '补充默认研究维度'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Transcript */}
+            <div className="flex-1 flex flex-col min-w-0">
+              <div className="p-3 border-b border-stone-100 flex flex-wrap items-center gap-2 shrink-0">
+                <select
+                  value={interviewId}
+                  onChange={(e) => setInterviewId(e.target.value)}
+                  className="text-sm px-2 py-1.5 rounded-lg border border-stone-300 text-stone-800"
+                >
+                  {transcripts.map(t => <option key={t.interviewId} value={t.interviewId}>{t.personaName}</option>)}
+                </select>
+                <button
+                  onClick={handleAutoCode}
+                  disabled={!transcript || codebook.length === 0 || codingIds.includes(interviewId)}
+                  title={codebook.length === 0 ? '请先建立编码手册' : undefined}
+                  className="text-xs font-bold text-white bg-sky-700 hover:bg-sky-800 px-3 py-1.5 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {codingIds.includes(interviewId) ? 'AI 编码中...' : '✨ AI 自动编码'}
+                </button>
+                {pendingIds.length > 0 && (
+                  <>
+                    <span className="text-xs text-sky-800 ml-2">{pendingIds.length} 条待确认</span>
+                    <button onClick={() => onAssignmentsChange(prev => setAssignmentStatus(prev, pendingIds, 'accepted'))} className="text-xs font-bold text-emerald-700 hover:underline">全部接受</button>
+                    <button onClick={() => onAssignmentsChange(prev => setAssignmentStatus(prev, pendingIds, 'rejected'))} className="text-xs font-bold text-stone-500 hover:underline">全部拒绝</button>
+                  </>
+                )}
+                {error && <span className="text-xs text-red-600 ml-2">{error}</span>}
+              </div>
+              <div className="flex-1 overflow-y-auto p-3 space-y-1">
+                {!transcript ? (
+                  <div className="py-12 text-center text-stone-400 text-sm">还没有可编码的逐字稿</div>
+                ) : transcript.messages.map((msg, idx) => (
+                  <TurnRow
+                    key={idx}
+                    message={msg}
+                    turnIndex={idx}
+                    speaker={speakerFor(msg)}
+                    assignments={transcriptAssignments.filter(a => a.turnIndex === idx)}
+                    codebook={codebook}
+                    onAssign={(codeId) => onAssignmentsChange(prev => assignCode(prev, { codeId, interviewId: transcript.interviewId, turnIndex: idx }))}
+                    onSetStatus={(ids, status) => onAssignmentsChange(prev => setAssignmentStatus(prev, ids, status))}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-auto p-4">
+            {codebook.length === 0 || transcripts.length === 0 ? (
+              <div className="py-12 text-center text-stone-400 text-sm">建立编码手册并完成编码后，这里会显示各代码在每份访谈中出现的次数。</div>
+            ) : (
+              <>
+                <table className="text-sm border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="sticky left-0 bg-white text-left text-xs text-stone-500 font-bold p-2 border-b border-stone-200">代码</th>
+                      {matrix.columns.map(t => (
+                        <th key={t.interviewId} className="text-xs text-stone-500 font-bold p-2 border-b border-stone-200 whitespace-nowrap">{t.personaName}</th>
+                      ))}
+                      <th className="text-xs text-stone-800 font-bold p-2 border-b border-stone-200">合计</th>
+                      <th className="text-xs text-stone-800 font-bold p-2 border-b border-stone-200 whitespace-nowrap">覆盖访谈</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matrix.rows.map(row => (
+                      <tr key={row.code.id}>
+                        <td className="sticky left-0 bg-white p-2 border-b border-stone-100 font-medium text-stone-800 whitespace-nowrap">{row.code.name}</td>
+                        {row.counts.map((count, idx) => (
+                          <td
+                            key={idx}
+                            className="p-2 border-b border-stone-100 text-center font-mono"
+                            style={count > 0 ? { backgroundColor: `rgba(5, 150, 105, ${0.1 + 0.5 * count / maxCount})` } : undefined}
+                          >
+                            {count || <span className="text-stone-300">·</span>}
+                          </td>
+                        ))}
+                        <td className="p-2 border-b border-stone-100 text-center font-mono font-bold">{row.total}</td>
+                        <td className="p-2 border-b border-stone-100 text-center text-xs text-stone-500">{row.transcriptCount} / {matrix.columns.length}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-[11px] text-stone-400 mt-3">按发言计数，只统计已接受的编码；待确认的 AI 建议不计入。</p>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CodingWorkspace;
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { ConceptRotation, ConceptTest, ConceptTestDesign, Stimulus } from '../types';
+import StimulusCard from './StimulusCard';
+import StimulusPicker from './StimulusPicker';
+import { CONCEPT_DESIGNS, CONCEPT_METRICS, CONCEPT_ROTATIONS, MAX_CONCEPTS, MIN_CONCEPTS, buildConceptOrders } from '../services/conceptTest';
+
+interface ConceptTestSetupProps {
+  respondentNames: string[];
+  initial: ConceptTest | null; // Earlier design, when the researcher redesigns the test
+  onStart: (concepts: Stimulus[], design: ConceptTestDesign, rotation: ConceptRotation) => void;
+  onBack: () => void;
+}
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const ConceptTestSetup: React.FC<ConceptTestSetupProps> = ({ respondentNames, initial, onStart, onBack }) => {
+  const [concepts, setConcepts] = useState<Stimulus[]>(initial?.concepts || []);
+  const [design, setDesign] = useState<ConceptTestDesign>(initial?.design || 'sequential');
+  const [rotation, setRotation] = useState<ConceptRotation>(initial?.rotation || 'balanced');
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const conceptIds = concepts.map(c => c.id);
+  // Random orders are drawn when the test is created, so only the deterministic schemes are previewed
+  const previewOrders = useMemo(
+    () => design === 'sequential' && rotation !== 'random' ? buildConceptOrders(conceptIds, respondentNames.length, rotation) : [],
+    [conceptIds.join(), respondentNames.length, design, rotation]
+  );
+
+  const sessionCount = design === 'sequential' ? respondentNames.length : respondentNames.length * concepts.length;
+  const isValid = concepts.length >= MIN_CONCEPTS && concepts.length <= MAX_CONCEPTS && concepts.every(c => c.name.trim()) && respondentNames.length > 0;
+
+  const rename = (id: string, name: string) =>
+    setConcepts(prev => prev.map(c => c.id === id ? { ...c, name } : c));
+
+  return (
+    <div className="w-full max-w-3xl mx-auto bg-white p-8 rounded-2xl shadow-xl border border-stone-100 animate-fade-in-up max-h-[88vh] overflow-y-auto">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-stone-800">概念测试</h2>
+        <p className="text-stone-500 mt-2 text-sm">
+          上传 {MIN_CONCEPTS}-{MAX_CONCEPTS} 个概念，{respondentNames.length} 位受访者会看完每个概念后，就{CONCEPT_METRICS.map(m => m.label).join('、')}分别打 1-5 分并说明理由。
+        </p>
+      </div>
+
+      {/* Concepts */}
+      <div className="mb-6">
+        <label className="block text-sm font-semibold text-stone-700 mb-2">测试概念</label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {concepts.map((concept, idx) => (
+            <div key={concept.id} className="flex gap-2 items-start">
+              <span className="w-7 h-7 shrink-0 rounded-full bg-emerald-800 text-white text-sm font-bold flex items-center justify-center">{letter(idx)}</span>
+              <div className="flex-1 min-w-0 space-y-1.5">
+                <input
+                  value={concept.name}
+                  onChange={(e) => rename(concept.id, e.target.value)}
+                  placeholder="概念名称"
+                  className="w-full px-2 py-1 rounded border border-stone-300 text-sm text-stone-900 focus:ring-1 focus:ring-emerald-600 outline-none"
+                />
+                <StimulusCard stimulus={concept} onRemove={() => setConcepts(prev => prev.filter(c => c.id !== concept.id))} />
+              </div>
+            </div>
+          ))}
+        </div>
+        {concepts.length < MAX_CONCEPTS && (
+          isPickerOpen ? (
+            <div className="mt-3">
+              <StimulusPicker
+                onAttach={(stimulus) => { setConcepts(prev => [...prev, stimulus]); setIsPickerOpen(false); }}
+                onClose={() => setIsPickerOpen(false)}
+              />
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => setIsPickerOpen(true)}
+              className="mt-3 w-full py-3 rounded-xl border border-dashed border-stone-300 text-sm text-stone-500 hover:border-emerald-500 hover:text-emerald-700"
+            >
+              + 添加概念 {letter(concepts.length)}
+            </button>
+          )
+        )}
+      </div>
+
+      {/* Design */}
+      <div className="mb-6">
+        <label className="block text-sm font-semibold text-stone-700 mb-2">测试设计</label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {CONCEPT_DESIGNS.map(option => (
+            <button
+              key={option.key}
+              type="button"
+              onClick={() => setDesign(option.key)}
+              className={`text-left p-3 rounded-xl border transition-colors
+                ${design === option.key ? 'border-emerald-600 bg-emerald-50 ring-1 ring-emerald-600' : 'border-stone-200 hover:border-emerald-300'}`}
+            >
+              <span className="block text-sm font-bold text-stone-800">{option.label}</span>
+              <span className="block text-xs text-stone-500 mt-1">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {design === 'sequential' && (
+        <div className="mb-6">
+          <label className="block text-sm font-semibold text-stone-700 mb-2">展示顺序</label>
+          <div className="flex bg-stone-100 rounded-lg p-0.5 text-sm font-medium w-fit">
+            {CONCEPT_ROTATIONS.map(option => (
+              <button
+                key={option.key}
+                type="button"
+                onClick={() => setRotation(option.key)}
+                className={`px-4 py-1.5 rounded-md ${rotation === option.key ? 'bg-white shadow text-emerald-800' : 'text-stone-500'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-stone-500 mt-2">{CONCEPT_ROTATIONS.find(o => o.key === rotation)?.description}</p>
+
+          {previewOrders.length > 0 && concepts.length >= MIN_CONCEPTS && (
+            <div className="mt-3 border border-stone-200 rounded-lg divide-y divide-stone-100 text-xs">
+              {previewOrders.map((order, i) => (
+                <div key={i} className="flex items-center gap-3 px-3 py-1.5">
+                  <span className="w-28 truncate text-stone-600">{respondentNames[i]}</span>
+                  <span className="font-mono font-bold text-emerald-800 tracking-widest">
+                    {order.map(id => letter(conceptIds.indexOf(id))).join(' → ')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-4 pt-4 border-t border-stone-100">
+        <button onClick={onBack} className="px-6 py-3 rounded-lg border border-stone-300 text-stone-600 font-medium hover:bg-stone-50">
+          返回
+        </button>
+        <button
+          onClick={() => onStart(concepts.map(c => ({ ...c, name: c.name.trim() })), design, rotation)}
+          disabled={!isValid}
+          className="flex-1 py-3 rounded-lg bg-emerald-800 text-white font-bold hover:bg-emerald-900 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isValid ? `生成测试方案（${sessionCount} 场访谈）` : `请添加 ${MIN_CONCEPTS}-${MAX_CONCEPTS} 个概念`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConceptTestSetup;
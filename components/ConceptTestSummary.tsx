@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { ConceptMetric, ConceptTest } from '../types';
+import StimulusCard from './StimulusCard';
+import { CONCEPT_DESIGNS, CONCEPT_METRICS, CONCEPT_ROTATIONS, CONCEPT_SCORE_MAX, ConceptResult, summarizeConceptTest } from '../services/conceptTest';
+
+interface ConceptTestSummaryProps {
+  test: ConceptTest;
+  onBack: () => void;
+}
+
+// One colour per concept, in the order A-E
+const CONCEPT_COLORS = ['bg-emerald-700', 'bg-amber-500', 'bg-sky-600', 'bg-rose-500', 'bg-violet-500'];
+
+// Below this many ratings per concept, differences are shown with a caution
+const MIN_RELIABLE_RATINGS = 5;
+
+const formatMean = (value: number | null) => value === null ? '—' : value.toFixed(1);
+const formatShare = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+// Highest mean on a metric; ties all count as best
+const bestMean = (results: ConceptResult[], metric: ConceptMetric) =>
+  Math.max(...results.map(r => r.metrics[metric].mean ?? -Infinity));
+
+const ConceptTestSummary: React.FC<ConceptTestSummaryProps> = ({ test, onBack }) => {
+  const results = useMemo(() => summarizeConceptTest(test), [test]);
+  const [openConceptId, setOpenConceptId] = useState<string | null>(null);
+
+  const isSequential = test.design === 'sequential';
+  const fewestRatings = Math.min(...results.map(r => r.ratings.length));
+  const openResult = results.find(r => r.concept.id === openConceptId);
+
+  return (
+    <div className="max-w-5xl mx-auto h-[85vh] flex flex-col bg-white rounded-2xl shadow-xl overflow-hidden animate-fade-in-up">
+      {/* Header */}
+      <div className="bg-stone-900 p-6 text-white shrink-0">
+        <h2 className="text-2xl font-bold">概念测试结果</h2>
+        <p className="text-stone-400 text-sm">
+          {CONCEPT_DESIGNS.find(d => d.key === test.design)?.label}
+          {isSequential ? ` · ${CONCEPT_ROTATIONS.find(r => r.key === test.rotation)?.label}` : ''}
+          {` · 共 ${results.reduce((sum, r) => sum + r.ratings.length, 0)} 份评分`}
+        </p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-8">
+        {fewestRatings < MIN_RELIABLE_RATINGS && (
+          <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+            每个概念的评分少于 {MIN_RELIABLE_RATINGS} 份，概念之间的差异仅供方向参考。
+          </p>
+        )}
+
+        {/* Comparison table */}
+        <section>
+          <h3 className="text-sm font-bold text-stone-700 mb-2">对比表（平均分 / 前两档占比）</h3>
+          <div className="overflow-x-auto border border-stone-200 rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-stone-50 text-xs text-stone-500">
+                <tr>
+                  <th className="text-left font-semibold px-3 py-2">概念</th>
+                  <th className="font-semibold px-3 py-2">评分数</th>
+                  {CONCEPT_METRICS.map(m => <th key={m.key} className="font-semibold px-3 py-2">{m.label}</th>)}
+                  {isSequential && <th className="font-semibold px-3 py-2" title="首位展示时的平均购买意向 / 在其他概念之后展示时的平均购买意向">购买意向 首位 / 后位</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-stone-100">
+                {results.map((result, idx) => (
+                  <tr
+                    key={result.concept.id}
+                    onClick={() => setOpenConceptId(openConceptId === result.concept.id ? null : result.concept.id)}
+                    className={`cursor-pointer hover:bg-stone-50 ${openConceptId === result.concept.id ? 'bg-emerald-50/60' : ''}`}
+                  >
+                    <td className="px-3 py-2">
+                      <div className="flex items-center gap-2">
+                        <span className={`w-6 h-6 shrink-0 rounded-full text-white text-xs font-bold flex items-center justify-center ${CONCEPT_COLORS[idx % CONCEPT_COLORS.length]}`}>{result.letter}</span>
+                        <span className="text-stone-800 font-medium truncate max-w-[12rem]">{result.concept.name}</span>
+                      </div>
+                    </td>
+                    <td className="px-3 py-2 text-center text-stone-500">{result.ratings.length}</td>
+                    {CONCEPT_METRICS.map(m => {
+                      const stats = result.metrics[m.key];
+                      const isBest = stats.mean !== null && results.length > 1 && stats.mean === bestMean(results, m.key);
+                      return (
+                        <td key={m.key} className="px-3 py-2 text-center">
+                          <span className={`font-mono ${isBest ? 'font-bold text-emerald-700' : 'text-stone-800'}`}>{formatMean(stats.mean)}</span>
+                          <span className="text-[11px] text-stone-400"> / {formatShare(stats.topTwoBox)}</span>
+                        </td>
+                      );
+                    })}
+                    {isSequential && (
+                      <td className="px-3 py-2 text-center font-mono text-stone-600">
+                        {formatMean(result.metrics.purchaseIntent.firstMean)} / {formatMean(result.metrics.purchaseIntent.laterMean)}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[11px] text-stone-400 mt-2">
+            1-{CONCEPT_SCORE_MAX} 分；前两档占比为打 4 分或 5 分的比例。
+            {isSequential && ' 首位评分不受其他概念影响，首位与后位差距大时说明存在顺序效应。'}
+            点击一行查看受访者的打分理由。
+          </p>
+        </section>
+
+        {/* Chart */}
+        <section>
+          <h3 className="text-sm font-bold text-stone-700 mb-3">各项平均分</h3>
+          <div className="space-y-4">
+            {CONCEPT_METRICS.map(m => (
+              <div key={m.key} className="grid grid-cols-[5rem_1fr] gap-3 items-start">
+                <span className="text-xs font-semibold text-stone-600 pt-0.5">{m.label}</span>
+                <div className="space-y-1">
+                  {results.map((result, idx) => {
+                    const value = result.metrics[m.key].mean;
+                    return (
+                      <div key={result.concept.id} className="flex items-center gap-2">
+                        <span className="w-4 text-[10px] font-bold text-stone-500">{result.letter}</span>
+                        <div className="flex-1 bg-stone-100 rounded-full h-3">
+                          <div
+                            className={`h-3 rounded-full transition-all duration-500 ${CONCEPT_COLORS[idx % CONCEPT_COLORS.length]}`}
+                            style={{ width: `${((value ?? 0) / CONCEPT_SCORE_MAX) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-8 text-right text-[11px] font-mono text-stone-600">{formatMean(value)}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Reasons for the selected concept */}
+        {openResult && (
+          <section className="border border-stone-200 rounded-xl p-4">
+            <div className="flex gap-4 items-start mb-4">
+              <StimulusCard stimulus={openResult.concept} />
+              <div>
+                <h3 className="font-bold text-stone-800">概念 {openResult.letter} · {openResult.concept.name}</h3>
+                <p className="text-xs text-stone-500 mt-1">{openResult.ratings.length} 位受访者的打分与理由</p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              {openResult.ratings.map(entry => (
+                <div key={entry.runId} className="text-xs">
+                  <p className="font-bold text-stone-700">
+                    {entry.personaName}
+                    {isSequential && <span className="ml-2 font-normal text-stone-400">第 {entry.rating.position} 个看到</span>}
+                  </p>
+                  <ul className="mt-1 space-y-0.5">
+                    {CONCEPT_METRICS.map(m => (
+                      <li key={m.key} className="flex gap-2">
+                        <span className="w-14 shrink-0 text-stone-500">{m.label}</span>
+                        <span className="w-4 shrink-0 font-mono font-bold text-emerald-800">{entry.rating.scores[m.key].score}</span>
+                        <span className="text-stone-700">{entry.rating.scores[m.key].reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-stone-200 shrink-0">
+        <button onClick={onBack} className="text-sm text-stone-500 hover:text-stone-800 font-medium">
+          ← 返回测试进度
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ConceptTestSummary;
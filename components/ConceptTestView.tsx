@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { ConceptTest, InterviewRunStatus, PanelMember } from '../types';
+import StimulusCard from './StimulusCard';
+import { CONCEPT_DESIGNS, CONCEPT_ROTATIONS, getConceptLetter } from '../services/conceptTest';
+
+interface ConceptTestViewProps {
+  test: ConceptTest;
+  members: PanelMember[]; // For avatars; the study's single persona has none here
+  isRunning: boolean;
+  onStart: (concurrency: number) => void;
+  onCancel: () => void;
+  onRedesign: () => void; // Back to setup; collected ratings are discarded
+  onViewResults: () => void;
+  onBack: () => void;
+}
+
+const STATUS_STYLES: Record<InterviewRunStatus, { label: string; className: string }> = {
+  queued: { label: '排队中', className: 'bg-stone-100 text-stone-500' },
+  running: { label: '测试中', className: 'bg-teal-100 text-teal-800 animate-pulse' },
+  done: { label: '已完成', className: 'bg-emerald-100 text-emerald-800' },
+  failed: { label: '失败', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: '已停止', className: 'bg-amber-100 text-amber-800' },
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const ConceptTestView: React.FC<ConceptTestViewProps> = ({
+  test,
+  members,
+  isRunning,
+  onStart,
+  onCancel,
+  onRedesign,
+  onViewResults,
+  onBack
+}) => {
+  const [concurrency, setConcurrency] = useState(2);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const doneCount = test.runs.filter(r => r.status === 'done').length;
+  const ratingCount = test.runs.reduce((sum, r) => sum + r.ratings.length, 0);
+  const hasUnfinished = test.runs.some(r => r.status !== 'done');
+  const hasStarted = test.runs.some(r => r.status !== 'queued');
+  const designLabel = CONCEPT_DESIGNS.find(d => d.key === test.design)?.label;
+  const rotationLabel = CONCEPT_ROTATIONS.find(r => r.key === test.rotation)?.label;
+
+  const handleRedesign = () => {
+    if (!hasStarted || confirm('重新设计会清空已收集的评分和测试逐字稿。继续吗？')) onRedesign();
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto h-[85vh] flex flex-col bg-white rounded-2xl shadow-xl overflow-hidden animate-fade-in-up">
+      {/* Header */}
+      <div className="bg-stone-900 p-6 text-white shrink-0 flex justify-between items-center">
+        <div>
+          <h2 className="text-2xl font-bold">概念测试</h2>
+          <p className="text-stone-400 text-sm">
+            {test.concepts.length} 个概念 · {designLabel}{test.design === 'sequential' ? ` · ${rotationLabel}` : ''}
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-3xl font-bold text-teal-300">{doneCount}/{test.runs.length}</div>
+          <div className="text-[10px] text-stone-400">场已完成</div>
+        </div>
+      </div>
+
+      {/* Concepts */}
+      <div className="px-6 py-3 border-b border-stone-200 flex gap-3 overflow-x-auto shrink-0">
+        {test.concepts.map(concept => (
+          <div key={concept.id} className="flex items-center gap-2 shrink-0 text-xs">
+            <span className="w-6 h-6 rounded-full bg-emerald-800 text-white font-bold flex items-center justify-center">{getConceptLetter(test, concept.id)}</span>
+            <span className="text-stone-700 max-w-[10rem] truncate">{concept.name}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Controls */}
+      <div className="px-6 py-3 border-b border-stone-200 bg-stone-50 flex items-center gap-4 shrink-0">
+        <label className="text-xs text-stone-600 flex items-center gap-2">
+          并发数
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className="px-2 py-1 rounded border border-stone-300 text-stone-900 text-xs"
+          >
+            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <span className="text-[10px] text-stone-400 flex-1">每场测试都是一次全新的访谈；中断的场次会从头重新测试</span>
+        {isRunning ? (
+          <button onClick={onCancel} className="bg-red-50 text-red-700 hover:bg-red-100 px-4 py-2 rounded-lg text-sm font-medium">
+            停止
+          </button>
+        ) : (
+          hasUnfinished && (
+            <button onClick={() => onStart(concurrency)} className="bg-emerald-800 hover:bg-emerald-900 text-white px-4 py-2 rounded-lg text-sm font-bold shadow">
+              {hasStarted ? '继续未完成的测试' : '开始测试'}
+            </button>
+          )
+        )}
+      </div>
+
+      {/* Runs */}
+      <div className="flex-1 overflow-y-auto p-6 space-y-3">
+        {test.runs.map(run => {
+          const member = members.find(m => m.id === run.memberId);
+          const progress = run.conceptIds.length > 0 ? run.ratings.length / run.conceptIds.length : 0;
+          const lastMessage = run.messages[run.messages.length - 1];
+          const isExpanded = expandedId === run.id;
+          const style = STATUS_STYLES[run.status];
+
+          return (
+            <div key={run.id} className="border border-stone-200 rounded-xl overflow-hidden">
+              <div
+                className="flex items-center gap-3 p-4 cursor-pointer hover:bg-stone-50"
+                onClick={() => setExpandedId(isExpanded ? null : run.id)}
+              >
+                <div className="w-10 h-10 rounded-full bg-stone-100 overflow-hidden shrink-0 flex items-center justify-center text-sm font-bold text-emerald-800">
+                  {member?.profile.imageUrl ? (
+                    <img src={`data:image/png;base64,${member.profile.imageUrl}`} alt={run.personaName} className="w-full h-full object-cover rendering-pixelated" />
+                  ) : run.personaName.charAt(0)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-stone-800 text-sm">{run.personaName}</span>
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded font-semibold ${style.className}`}>{style.label}</span>
+                    <span className="text-[10px] font-mono font-bold text-emerald-800 tracking-wider">
+                      {run.conceptIds.map(id => getConceptLetter(test, id)).join(' → ')}
+                    </span>
+                  </div>
+                  <div className="w-full bg-stone-100 rounded-full h-1.5 mt-2">
+                    <div className="bg-teal-600 h-1.5 rounded-full transition-all duration-500" style={{ width: `${progress * 100}%` }}></div>
+                  </div>
+                  <div className="text-[11px] text-stone-400 truncate mt-1">
+                    {run.error ? `错误：${run.error}` : lastMessage ? lastMessage.text : '等待开始...'}
+                  </div>
+                </div>
+              </div>
+
+              {isExpanded && run.messages.length > 0 && (
+                <div className="bg-stone-50 border-t border-stone-200 p-4 space-y-2 max-h-80 overflow-y-auto text-xs">
+                  {run.messages.map((msg, idx) => (
+                    <div key={idx} className="flex gap-2">
+                      <span className={`w-16 shrink-0 font-bold text-right ${msg.role === 'user' ? 'text-stone-500' : 'text-emerald-700'}`}>
+                        {msg.role === 'user' ? 'AI 主持人' : run.personaName}
+                      </span>
+                      <div className="flex-1 space-y-1.5">
+                        {msg.stimulus && <StimulusCard stimulus={msg.stimulus} />}
+                        <p className="text-stone-700 whitespace-pre-wrap">{msg.text}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-4 border-t border-stone-200 shrink-0 flex justify-between items-center">
+        <button
+          onClick={onBack}
+          disabled={isRunning}
+          className="text-sm text-stone-500 hover:text-stone-800 font-medium disabled:opacity-40"
+        >
+          ← 返回选择访谈方式
+        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={handleRedesign}
+            disabled={isRunning}
+            className="text-sm text-stone-600 px-3 py-2 rounded-lg hover:bg-stone-100 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            重新设计
+          </button>
+          <button
+            onClick={onViewResults}
+            disabled={ratingCount === 0}
+            className="bg-stone-900 hover:bg-stone-800 text-white text-sm font-bold px-4 py-2 rounded-lg shadow disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            查看对比结果 ({ratingCount} 份评分)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConceptTestView;
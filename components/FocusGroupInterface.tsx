@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage, DiscussionGuide, InterviewMode, PanelMember } from '../types';
+import { FocusGroupModeratorTurn, getFocusGroupModeratorMessage, getFocusGroupReply } from '../services/geminiService';
+import { countTurns, findAddressee, planResponders } from '../services/focusGroup';
+import { matchGuideCoverage, pickForcedMustAsk } from '../services/guideCoverage';
+
+interface FocusGroupInterfaceProps {
+  participants: PanelMember[];
+  industry: string;
+  guide: DiscussionGuide;
+  moderatorMode: InterviewMode;
+  initialMessages?: ChatMessage[];
+  onMessagesChange?: (messages: ChatMessage[]) => void;
+  onModeratorModeChange: (mode: InterviewMode) => void;
+  onEndSession: (messages: ChatMessage[]) => void;
+}
+
+const ALL_PARTICIPANTS = 'ALL';
+
+const FocusGroupInterface: React.FC<FocusGroupInterfaceProps> = ({
+  participants,
+  industry,
+  guide,
+  moderatorMode,
+  initialMessages = [],
+  onMessagesChange,
+  onModeratorModeChange,
+  onEndSession
+}) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
+  const [input, setInput] = useState('');
+  const [addresseeId, setAddresseeId] = useState<string>(ALL_PARTICIPANTS);
+  const [speakingId, setSpeakingId] = useState<string | null>(null); // Participant currently "typing"
+  const [isModeratorThinking, setIsModeratorThinking] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [hasModeratorError, setHasModeratorError] = useState(false);
+
+  // The round runs across several awaits, so it works from a ref rather than stale state
+  const messagesRef = useRef<ChatMessage[]>(initialMessages);
+  const busyRef = useRef(false);
+  const modeRef = useRef(moderatorMode);
+  const forcedMustAskRef = useRef<Set<string>>(new Set());
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  modeRef.current = moderatorMode;
+  const isBusy = speakingId !== null || isModeratorThinking;
+  const turnCounts = countTurns(messages, participants);
+  const totalTurns = Object.values(turnCounts).reduce((sum, n) => sum + n, 0);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, speakingId, isModeratorThinking]);
+
+  useEffect(() => {
+    onMessagesChange?.(messages);
+  }, [messages, onMessagesChange]);
+
+  const append = (message: ChatMessage) => {
+    messagesRef.current = [...messagesRef.current, message];
+    setMessages(messagesRef.current);
+  };
+
+  // Moderator speaks, then the planned participants answer one after another
+  const runRound = async (text: string, targetId: string | undefined, isAi: boolean) => {
+    busyRef.current = true;
+    append({ role: 'user', text, timestamp: new Date(), isAiInterviewer: isAi, addresseeId: targetId });
+
+    try {
+      for (const speaker of planResponders(messagesRef.current, participants, targetId)) {
+        setSpeakingId(speaker.id);
+        const reply = await getFocusGroupReply(speaker, participants, messagesRef.current, industry);
+        append({
+          role: 'model',
+          text: reply || '...',
+          timestamp: new Date(),
+          speakerId: speaker.id,
+          speakerName: speaker.profile.name
+        });
+      }
+    } catch (err) {
+      console.error("Focus group reply failed", err);
+      append({ role: 'model', text: "(网络波动，请重试)", timestamp: new Date() });
+      if (isAi) {
+        // Don't let the AI moderator carry on past a failed round
+        setHasModeratorError(true);
+        onModeratorModeChange(InterviewMode.MANUAL);
+      }
+    } finally {
+      setSpeakingId(null);
+      busyRef.current = false;
+    }
+  };
+
+  // AI moderator loop: after every completed round, ask the next question
+  useEffect(() => {
+    if (moderatorMode !== InterviewMode.AUTO || isBusy || isDone || busyRef.current) return;
+
+    const runModerator = async () => {
+      busyRef.current = true;
+      setIsModeratorThinking(true);
+      setHasModeratorError(false);
+      // Pacing to stay clear of rate limits
+      await new Promise(r => setTimeout(r, 2000));
+      let next: FocusGroupModeratorTurn | null;
+      try {
+        next = await getFocusGroupModeratorMessage(messagesRef.current, guide, participants, countTurns(messagesRef.current, participants));
+        // Not allowed to finish while must-ask questions are open: put the next one to the whole group
+        if (!next) {
+          const forced = pickForcedMustAsk(guide, matchGuideCoverage(guide, messagesRef.current), forcedMustAskRef.current);
+          if (forced) {
+            forcedMustAskRef.current.add(forced.id);
+            next = { text: forced.text };
+          }
+        }
+      } catch (err) {
+        console.error("Focus group moderator failed", err);
+        setHasModeratorError(true);
+        onModeratorModeChange(InterviewMode.MANUAL);
+        return;
+      } finally {
+        setIsModeratorThinking(false);
+        busyRef.current = false;
+      }
+
+      if (!next) {
+        setIsDone(true);
+        onModeratorModeChange(InterviewMode.MANUAL);
+        return;
+      }
+      if (modeRef.current !== InterviewMode.AUTO) return; // Researcher took over while we were thinking
+      await runRound(next.text, next.addresseeId, true);
+    };
+
+    runModerator();
+  }, [moderatorMode, isBusy, isDone, messages, guide, participants, onModeratorModeChange]);
+
+  const handleManualSend = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!input.trim() || isBusy) return;
+    if (moderatorMode === InterviewMode.AUTO) onModeratorModeChange(InterviewMode.MANUAL);
+
+    const text = input.trim();
+    const mentioned = findAddressee(text, participants);
+    const targetId = mentioned?.id || (addresseeId === ALL_PARTICIPANTS ? undefined : addresseeId);
+    setInput('');
+    runRound(text, targetId, false);
+  };
+
+  const participantById = (id?: string) => participants.find(p => p.id === id);
+
+  const Avatar = ({ member, size = 'w-9 h-9' }: { member?: PanelMember; size?: string }) => (
+    <div className={`${size} rounded-full bg-emerald-100 flex-shrink-0 border-2 border-emerald-200 overflow-hidden flex items-center justify-center text-emerald-800 text-xs font-bold shadow-sm`}>
+      {member?.profile.imageUrl ? (
+        <img src={`data:image/png;base64,${member.profile.imageUrl}`} alt={member.profile.name} className="w-full h-full object-cover rendering-pixelated" />
+      ) : (member?.profile.name.charAt(0) || '?')}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-[85vh] max-w-5xl mx-auto bg-white rounded-2xl shadow-xl overflow-hidden relative">
+      {/* Header: participants with their share of the discussion */}
+      <div className={`border-b p-4 shrink-0 transition-colors duration-500 ${moderatorMode === InterviewMode.AUTO ? 'bg-stone-900 border-stone-800' : 'bg-white border-stone-200'}`}>
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h3 className={`font-bold ${moderatorMode === InterviewMode.AUTO ? 'text-white' : 'text-stone-800'}`}>虚拟焦点小组</h3>
+            <span className={`text-xs ${moderatorMode === InterviewMode.AUTO ? 'text-teal-200' : 'text-stone-500'}`}>
+              {moderatorMode === InterviewMode.AUTO ? 'AI 主持中... (观察模式)' : '由您主持 • 可向全体或某一位提问'}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            {moderatorMode === InterviewMode.AUTO ? (
+              <button
+                onClick={() => onModeratorModeChange(InterviewMode.MANUAL)}
+                className="bg-stone-700 hover:bg-stone-600 text-white px-3 py-1.5 rounded text-xs font-bold border border-stone-600"
+              >
+                暂停 / 接管
+              </button>
+            ) : (
+              !isDone && (
+                <button
+                  onClick={() => onModeratorModeChange(InterviewMode.AUTO)}
+                  className="bg-stone-100 hover:bg-stone-200 text-stone-700 px-3 py-1.5 rounded text-xs font-bold"
+                >
+                  交给 AI 主持
+                </button>
+              )
+            )}
+            <button
+              onClick={() => onEndSession(messages)}
+              disabled={isBusy}
+              className="bg-red-50 text-red-700 hover:bg-red-100 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              结束
+            </button>
+          </div>
+        </div>
+        <div className="flex gap-4 overflow-x-auto">
+          {participants.map(member => {
+            const share = totalTurns > 0 ? turnCounts[member.id] / totalTurns : 0;
+            return (
+              <div key={member.id} className="flex items-center gap-2 shrink-0">
+                <div className={speakingId === member.id ? 'ring-2 ring-teal-400 rounded-full animate-pulse' : ''}>
+                  <Avatar member={member} size="w-8 h-8" />
+                </div>
+                <div>
+                  <div className={`text-[11px] font-bold ${moderatorMode === InterviewMode.AUTO ? 'text-stone-200' : 'text-stone-700'}`}>{member.profile.name}</div>
+                  <div className="w-16 bg-stone-200/40 rounded-full h-1">
+                    <div className="bg-teal-500 h-1 rounded-full" style={{ width: `${share * 100}%` }}></div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto p-4 bg-stone-50 space-y-6">
+        {messages.map((msg, idx) => {
+          const isModerator = msg.role === 'user';
+          const speaker = participantById(msg.speakerId);
+          const addressee = participantById(msg.addresseeId);
+          return (
+            <div key={idx} className={`flex w-full ${isModerator ? 'justify-end' : 'justify-start'}`}>
+              <div className={`flex max-w-[80%] ${isModerator ? 'flex-row-reverse' : 'flex-row'} items-end gap-2`}>
+                {isModerator ? (
+                  msg.isAiInterviewer && (
+                    <div className="w-8 h-8 rounded-full bg-stone-800 flex-shrink-0 flex items-center justify-center text-white text-[10px] font-bold border border-stone-600 shadow-sm">AI</div>
+                  )
+                ) : (
+                  <Avatar member={speaker} />
+                )}
+                <div className={`p-4 rounded-2xl shadow-sm text-sm leading-relaxed whitespace-pre-wrap relative
+                  ${isModerator
+                    ? (msg.isAiInterviewer ? 'bg-stone-800 text-stone-100 rounded-br-none' : 'bg-emerald-800 text-white rounded-br-none')
+                    : 'bg-white text-stone-800 border border-stone-200 rounded-bl-none'}`}
+                >
+                  <div className={`absolute -top-5 ${isModerator ? 'right-0' : 'left-0'} text-[10px] text-stone-400 font-bold whitespace-nowrap`}>
+                    {isModerator
+                      ? `${msg.isAiInterviewer ? 'AI 主持人' : '主持人'}${addressee ? ` → ${addressee.profile.name}` : ' → 全体'}`
+                      : msg.speakerName}
+                  </div>
+                  {msg.text}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        {(speakingId || isModeratorThinking) && (
+          <div className={`flex w-full ${isModeratorThinking ? 'justify-end' : 'justify-start'}`}>
+            <div className={`flex ${isModeratorThinking ? 'flex-row-reverse' : 'flex-row'} items-end gap-2`}>
+              {speakingId && <Avatar member={participantById(speakingId)} />}
+              <div className={`${isModeratorThinking ? 'bg-stone-800' : 'bg-white border border-stone-200'} px-4 py-3 rounded-2xl shadow-sm flex items-center gap-1`}>
+                <span className="w-1.5 h-1.5 rounded-full animate-bounce bg-stone-400" style={{ animationDelay: '0ms' }}></span>
+                <span className="w-1.5 h-1.5 rounded-full animate-bounce bg-stone-400" style={{ animationDelay: '150ms' }}></span>
+                <span className="w-1.5 h-1.5 rounded-full animate-bounce bg-stone-400" style={{ animationDelay: '300ms' }}></span>
+              </div>
+            </div>
+          </div>
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      {/* Input */}
+      <div className={`p-4 border-t transition-all duration-300 ${moderatorMode === InterviewMode.AUTO ? 'bg-stone-100' : 'bg-white'}`}>
+        {moderatorMode === InterviewMode.AUTO ? (
+          <div className="flex items-center justify-between text-stone-500 text-sm px-2">
+            <span>AI 正在主持座谈...</span>
+            <button onClick={() => onModeratorModeChange(InterviewMode.MANUAL)} className="text-emerald-700 font-bold hover:underline">
+              切换为手动主持
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleManualSend} className="flex items-end gap-2">
+            <select
+              value={addresseeId}
+              onChange={(e) => setAddresseeId(e.target.value)}
+              className="bg-stone-100 text-stone-700 border-0 rounded-xl px-3 py-3 text-sm outline-none focus:ring-2 focus:ring-emerald-600"
+            >
+              <option value={ALL_PARTICIPANTS}>问全体</option>
+              {participants.map(p => <option key={p.id} value={p.id}>问 {p.profile.name}</option>)}
+            </select>
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="向小组提问，也可以用 @名字 点名..."
+              className="flex-1 bg-stone-100 text-stone-900 border-0 rounded-xl px-4 py-3 focus:ring-2 focus:ring-emerald-600 focus:bg-white transition-all outline-none"
+              disabled={isBusy}
+            />
+            <button
+              type="submit"
+              disabled={!input.trim() || isBusy}
+              className="bg-emerald-800 hover:bg-emerald-900 text-white p-3 rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                <path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" />
+              </svg>
+            </button>
+          </form>
+        )}
+      </div>
+
+      {isDone && moderatorMode === InterviewMode.MANUAL && (
+        <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 bg-stone-800 text-white text-sm py-2 px-4 rounded-full shadow-lg">
+          AI 主持已完成提纲，现在由您接手！
+        </div>
+      )}
+      {hasModeratorError && moderatorMode === InterviewMode.MANUAL && (
+        <div className="absolute bottom-20 left-1/2 transform -translate-x-1/2 bg-red-700 text-white text-sm py-2 px-4 rounded-full shadow-lg">
+          AI 主持出错，已切换为手动主持，可稍后重新开启 AI 主持
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FocusGroupInterface;
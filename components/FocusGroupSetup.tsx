@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { InterviewMode, PanelMember } from '../types';
+import { MAX_FOCUS_GROUP_SIZE, MIN_FOCUS_GROUP_SIZE } from '../services/focusGroup';
+
+interface FocusGroupSetupProps {
+  members: PanelMember[]; // Accepted panel members to choose from
+  onStart: (memberIds: string[], moderatorMode: InterviewMode) => void;
+  onBack: () => void;
+}
+
+const FocusGroupSetup: React.FC<FocusGroupSetupProps> = ({ members, onStart, onBack }) => {
+  const [selected, setSelected] = useState<string[]>(members.slice(0, MAX_FOCUS_GROUP_SIZE).map(m => m.id));
+  const [moderatorMode, setModeratorMode] = useState<InterviewMode>(InterviewMode.AUTO);
+
+  const toggle = (id: string) => {
+    if (selected.includes(id)) {
+      setSelected(selected.filter(s => s !== id));
+    } else if (selected.length < MAX_FOCUS_GROUP_SIZE) {
+      setSelected([...selected, id]);
+    }
+  };
+
+  const isValid = selected.length >= MIN_FOCUS_GROUP_SIZE && selected.length <= MAX_FOCUS_GROUP_SIZE;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-white p-8 rounded-2xl shadow-xl border border-stone-100 animate-fade-in-up">
+      <div className="mb-6">
+        <h2 className="text-2xl font-bold text-stone-800">组建虚拟焦点小组</h2>
+        <p className="text-stone-500 mt-2 text-sm">
+          选择 {MIN_FOCUS_GROUP_SIZE}-{MAX_FOCUS_GROUP_SIZE} 位受访者参加同一场讨论，他们会回应主持人，也会互相回应。
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-6">
+        {members.map(member => {
+          const isSelected = selected.includes(member.id);
+          return (
+            <button
+              key={member.id}
+              type="button"
+              onClick={() => toggle(member.id)}
+              className={`flex flex-col items-center gap-2 p-3 rounded-xl border transition-colors
+                ${isSelected ? 'border-emerald-600 bg-emerald-50 ring-1 ring-emerald-600' : 'border-stone-200 hover:border-emerald-300'}`}
+            >
+              <div className="w-12 h-12 rounded-full bg-stone-100 overflow-hidden flex items-center justify-center text-emerald-800 font-bold">
+                {member.profile.imageUrl ? (
+                  <img src={`data:image/png;base64,${member.profile.imageUrl}`} alt={member.profile.name} className="w-full h-full object-cover rendering-pixelated" />
+                ) : member.profile.name.charAt(0)}
+              </div>
+              <span className="text-xs font-bold text-stone-700 text-center">{member.profile.name}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mb-6">
+        <label className="block text-sm font-semibold text-stone-700 mb-2">主持人</label>
+        <div className="flex bg-stone-100 rounded-lg p-0.5 text-sm font-medium w-fit">
+          <button
+            type="button"
+            onClick={() => setModeratorMode(InterviewMode.AUTO)}
+            className={`px-4 py-1.5 rounded-md ${moderatorMode === InterviewMode.AUTO ? 'bg-white shadow text-emerald-800' : 'text-stone-500'}`}
+          >
+            AI 主持
+          </button>
+          <button
+            type="button"
+            onClick={() => setModeratorMode(InterviewMode.MANUAL)}
+            className={`px-4 py-1.5 rounded-md ${moderatorMode === InterviewMode.MANUAL ? 'bg-white shadow text-emerald-800' : 'text-stone-500'}`}
+          >
+            我来主持
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-4 pt-4 border-t border-stone-100">
+        <button onClick={onBack} className="px-6 py-3 rounded-lg border border-stone-300 text-stone-600 font-medium hover:bg-stone-50">
+          返回
+        </button>
+        <button
+          onClick={() => onStart(selected, moderatorMode)}
+          disabled={!isValid}
+          className="flex-1 bg-emerald-800 hover:bg-emerald-900 text-white font-bold py-3 rounded-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          开始座谈 ({selected.length} 人)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FocusGroupSetup;
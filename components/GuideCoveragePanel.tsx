@@ -0,0 +1,69 @@
+import React from 'react';
+import { DiscussionGuide, GuideCoverage, GuideCoverageStatus } from '../types';
+import { getGuideQuestions } from '../services/guide';
+import { getOpenMustAsk } from '../services/guideCoverage';
+
+interface GuideCoveragePanelProps {
+  guide: DiscussionGuide;
+  coverage: GuideCoverage;
+  isAssessing: boolean; // Model judgement in flight
+}
+
+const STATUS_STYLES: Record<GuideCoverageStatus, { label: string; dot: string; text: string }> = {
+  none: { label: '未覆盖', dot: 'border-2 border-stone-300 bg-white', text: 'text-stone-500' },
+  partial: { label: '部分覆盖', dot: 'bg-amber-400', text: 'text-stone-700' },
+  covered: { label: '已覆盖', dot: 'bg-emerald-600', text: 'text-stone-400' },
+};
+
+const GuideCoveragePanel: React.FC<GuideCoveragePanelProps> = ({ guide, coverage, isAssessing }) => {
+  const questions = getGuideQuestions(guide);
+  const coveredCount = questions.filter(q => coverage[q.id] === 'covered').length;
+  const openMustAsk = getOpenMustAsk(guide, coverage).length;
+
+  return (
+    <aside className="hidden lg:flex w-72 shrink-0 flex-col border-l border-stone-200 bg-white">
+      <div className="p-4 border-b border-stone-200 shrink-0">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-bold text-stone-800">提纲覆盖</h4>
+          <span className="text-xs font-bold text-emerald-700">{coveredCount}/{questions.length}</span>
+        </div>
+        <div className="w-full bg-stone-100 rounded-full h-1.5 mt-2">
+          <div className="bg-emerald-600 h-1.5 rounded-full transition-all duration-500" style={{ width: `${questions.length > 0 ? (coveredCount / questions.length) * 100 : 0}%` }}></div>
+        </div>
+        <div className="flex justify-between mt-2 text-[10px]">
+          <span className={openMustAsk > 0 ? 'text-amber-700 font-semibold' : 'text-stone-400'}>
+            {openMustAsk > 0 ? `${openMustAsk} 个必问问题未完成` : '必问问题已全部覆盖'}
+          </span>
+          {isAssessing && <span className="text-stone-400 animate-pulse">AI 评估中...</span>}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {guide.sections.map(section => (
+          <div key={section.id}>
+            <div className="text-[11px] font-bold text-stone-500 uppercase tracking-wider mb-2">
+              {section.title || '未命名环节'}
+              {section.targetMinutes > 0 && <span className="font-normal normal-case ml-1">· {section.targetMinutes} 分钟</span>}
+            </div>
+            <ul className="space-y-2">
+              {section.questions.map(q => {
+                const style = STATUS_STYLES[coverage[q.id] || 'none'];
+                return (
+                  <li key={q.id} className="flex gap-2 items-start" title={style.label}>
+                    <span className={`w-2.5 h-2.5 rounded-full shrink-0 mt-1 ${style.dot}`}></span>
+                    <span className={`text-xs leading-snug ${style.text}`}>
+                      {q.mustAsk && <span className="text-[9px] font-bold text-amber-700 bg-amber-50 px-1 rounded mr-1">必问</span>}
+                      {q.text}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default GuideCoveragePanel;
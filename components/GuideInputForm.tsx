@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { GUIDE_DIMENSIONS } from '../services/guide';
 
 interface GuideInputFormProps {
   onGenerate: (objectives: string, questions: string) => void;
@@ -9,15 +10,6 @@ const GuideInputForm: React.FC<GuideInputFormProps> = ({ onGenerate, isLoading }
   const [objectives, setObjectives] = useState('');
   const [questions, setQuestions] = useState('');
 
-  const defaultDimensions = [
-    { icon: "🏷️", title: "品牌/产品现状", desc: "使用时长、频率、环境" },
-    { icon: "🔄", title: "情境与习惯", desc: "日常路径、干扰与障碍" },
-    { icon: "⭐", title: "功能评价", desc: "评分、技术问题、性能瓶颈" },
-    { icon: "⚠️", title: "痛点挑战", desc: "常见问题、具体困难" },
-    { icon: "💡", title: "改进期望", desc: "新增功能需求、未来建议" },
-    { icon: "❤️", title: "情感满意度", desc: "总体体验、NPS推荐意愿" },
-  ];
-
   return (
     <div className="w-full max-w-4xl mx-auto bg-white p-8 rounded-2xl shadow-xl border border-stone-100 animate-fade-in-up">
       <div className="mb-6">
@@ -35,7 +27,7 @@ const GuideInputForm: React.FC<GuideInputFormProps> = ({ onGenerate, isLoading }
              默认研究框架
            </h3>
            <div className="space-y-4">
-             {defaultDimensions.map((dim, idx) => (
+             {GUIDE_DIMENSIONS.map((dim, idx) => (
                <div key={idx} className="flex gap-3">
                  <div className="shrink-0 text-xl">{dim.icon}</div>
                  <div>
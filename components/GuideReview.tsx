@@ -1,68 +1,261 @@
 import React, { useState } from 'react';
+import { DiscussionGuide, GuideQuestion, GuideSection } from '../types';
+import { cleanGuide, createGuideQuestion, createGuideSection, getGuideMinutes, getGuideQuestions } from '../services/guide';
 
 interface GuideReviewProps {
-  initialQuestions: string[];
-  onConfirm: (finalQuestions: string[]) => void;
+  initialGuide: DiscussionGuide;
+  onConfirm: (finalGuide: DiscussionGuide) => void;
 }
 
-const GuideReview: React.FC<GuideReviewProps> = ({ initialQuestions, onConfirm }) => {
-  const [questions, setQuestions] = useState<string[]>(initialQuestions);
+// What is being dragged: a whole section, or one question out of a section
+type DragItem =
+  | { kind: 'section'; sectionId: string }
+  | { kind: 'question'; sectionId: string; questionId: string };
 
-  const handleEdit = (idx: number, newVal: string) => {
-    const next = [...questions];
-    next[idx] = newVal;
-    setQuestions(next);
+const TrashIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+    <path fillRule="evenodd" d="M8.75 1A2.75 2.75 0 006 3.75v.443c-.795.077-1.584.176-2.365.298a.75.75 0 10.23 1.482l.149-.022.841 10.518A2.75 2.75 0 007.596 19h4.807a2.75 2.75 0 002.742-2.53l.841-10.52.149.023a.75.75 0 00.23-1.482A41.03 41.03 0 0014 4.193V3.75A2.75 2.75 0 0011.25 1h-2.5zM10 4c.84 0 1.673.025 2.5.075V3.75c0-.69-.56-1.25-1.25-1.25h-2.5c-.69 0-1.25.56-1.25 1.25v.325C8.327 4.025 9.16 4 10 4zM8.58 7.72a.75.75 0 00-1.5.06l.3 7.5a.75.75 0 101.5-.06l-.3-7.5zm4.34.06a.75.75 0 10-1.5-.06l-.3 7.5a.75.75 0 101.5.06l.3-7.5z" clipRule="evenodd" />
+  </svg>
+);
+
+const DragHandle = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+    <path d="M7 4a1 1 0 11-2 0 1 1 0 012 0zm0 6a1 1 0 11-2 0 1 1 0 012 0zm0 6a1 1 0 11-2 0 1 1 0 012 0zm8-12a1 1 0 11-2 0 1 1 0 012 0zm0 6a1 1 0 11-2 0 1 1 0 012 0zm0 6a1 1 0 11-2 0 1 1 0 012 0z" />
+  </svg>
+);
+
+const GuideReview: React.FC<GuideReviewProps> = ({ initialGuide, onConfirm }) => {
+  const [sections, setSections] = useState<GuideSection[]>(initialGuide.sections);
+  const [dragging, setDragging] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // Id of the section/question hovered while dragging
+
+  const updateSection = (sectionId: string, patch: Partial<GuideSection>) => {
+    setSections(prev => prev.map(s => s.id === sectionId ? { ...s, ...patch } : s));
+  };
+
+  const updateQuestion = (sectionId: string, questionId: string, patch: Partial<GuideQuestion>) => {
+    setSections(prev => prev.map(s => s.id !== sectionId ? s : {
+      ...s,
+      questions: s.questions.map(q => q.id === questionId ? { ...q, ...patch } : q)
+    }));
+  };
+
+  const deleteQuestion = (sectionId: string, questionId: string) => {
+    setSections(prev => prev.map(s => s.id !== sectionId ? s : { ...s, questions: s.questions.filter(q => q.id !== questionId) }));
   };
 
-  const handleDelete = (idx: number) => {
-    setQuestions(questions.filter((_, i) => i !== idx));
+  const addQuestion = (sectionId: string) => {
+    setSections(prev => prev.map(s => s.id !== sectionId ? s : { ...s, questions: [...s.questions, createGuideQuestion()] }));
   };
 
-  const handleAdd = () => {
-    setQuestions([...questions, ""]);
+  const addSection = () => {
+    setSections(prev => [...prev, createGuideSection("", [createGuideQuestion()])]);
   };
 
+  /**
+   * Move the dragged item to the drop target's place: in front of it when moving up,
+   * after it when moving down, so any position can be reached. Dropping a question on a
+   * section header appends it to that section, so questions can change section.
+   */
+  const handleDrop = (targetSectionId: string, targetQuestionId?: string) => {
+    if (!dragging) return;
+
+    if (dragging.kind === 'section') {
+      if (dragging.sectionId !== targetSectionId) {
+        setSections(prev => {
+          const from = prev.findIndex(s => s.id === dragging.sectionId);
+          const isDown = from < prev.findIndex(s => s.id === targetSectionId);
+          const rest = prev.filter(s => s.id !== dragging.sectionId);
+          const at = rest.findIndex(s => s.id === targetSectionId) + (isDown ? 1 : 0);
+          return [...rest.slice(0, at), prev[from], ...rest.slice(at)];
+        });
+      }
+    } else if (dragging.questionId !== targetQuestionId) {
+      setSections(prev => {
+        const moved = prev.find(s => s.id === dragging.sectionId)?.questions.find(q => q.id === dragging.questionId);
+        if (!moved) return prev;
+        return prev.map(s => {
+          const questions = s.questions.filter(q => q.id !== moved.id);
+          if (s.id !== targetSectionId) return { ...s, questions };
+          const isDown = s.id === dragging.sectionId
+            && s.questions.findIndex(q => q.id === moved.id) < s.questions.findIndex(q => q.id === targetQuestionId);
+          const at = targetQuestionId ? questions.findIndex(q => q.id === targetQuestionId) + (isDown ? 1 : 0) : -1;
+          return { ...s, questions: at < 0 ? [...questions, moved] : [...questions.slice(0, at), moved, ...questions.slice(at)] };
+        });
+      });
+    }
+
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const dropProps = (targetId: string, onDrop: () => void) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(targetId);
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      onDrop();
+    }
+  });
+
+  const draft: DiscussionGuide = { sections };
+  const questionCount = getGuideQuestions(draft).filter(q => q.text.trim()).length;
+  const mustAskCount = getGuideQuestions(draft).filter(q => q.text.trim() && q.mustAsk).length;
+  const finalGuide = cleanGuide(draft);
+
   return (
-    <div className="w-full max-w-2xl mx-auto bg-white p-8 rounded-2xl shadow-xl border border-stone-100 animate-fade-in-up flex flex-col h-[80vh]">
+    <div className="w-full max-w-3xl mx-auto bg-white p-8 rounded-2xl shadow-xl border border-stone-100 animate-fade-in-up flex flex-col h-[80vh]">
       <div className="shrink-0 mb-4">
         <h2 className="text-2xl font-bold text-stone-800">确认访谈提纲</h2>
         <p className="text-stone-500">
-          您可以修改、添加或删除问题。如果是 AI 自动访谈，将参考此列表进行提问。
+          您可以修改、添加、删除或拖动排序环节与问题。如果是 AI 自动访谈，将按此提纲推进，并确保问到所有必问问题。
         </p>
+        <div className="flex gap-4 mt-3 text-xs text-stone-500">
+          <span>{sections.length} 个环节</span>
+          <span>{questionCount} 个主问题</span>
+          <span className="text-amber-700">{mustAskCount} 个必问</span>
+          <span>预计 {getGuideMinutes(draft)} 分钟</span>
+        </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto pr-2 space-y-3">
-        {questions.map((q, idx) => (
-          <div key={idx} className="flex gap-2 items-start group">
-            <span className="text-stone-400 font-mono mt-3 text-sm">{idx + 1}.</span>
-            <textarea
-              value={q}
-              onChange={(e) => handleEdit(idx, e.target.value)}
-              className="flex-1 px-3 py-2 rounded border border-stone-200 focus:border-emerald-600 focus:ring-1 focus:ring-emerald-600 text-stone-900 text-sm resize-none"
-              rows={2}
-            />
-            <button 
-              onClick={() => handleDelete(idx)}
-              className="mt-2 text-stone-300 hover:text-red-500 p-1"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
-                <path fillRule="evenodd" d="M8.75 1A2.75 2.75 0 006 3.75v.443c-.795.077-1.584.176-2.365.298a.75.75 0 10.23 1.482l.149-.022.841 10.518A2.75 2.75 0 007.596 19h4.807a2.75 2.75 0 002.742-2.53l.841-10.52.149.023a.75.75 0 00.23-1.482A41.03 41.03 0 0014 4.193V3.75A2.75 2.75 0 0011.25 1h-2.5zM10 4c.84 0 1.673.025 2.5.075V3.75c0-.69-.56-1.25-1.25-1.25h-2.5c-.69 0-1.25.56-1.25 1.25v.325C8.327 4.025 9.16 4 10 4zM8.58 7.72a.75.75 0 00-1.5.06l.3 7.5a.75.75 0 101.5-.06l-.3-7.5zm4.34.06a.75.75 0 10-1.5-.06l-.3 7.5a.75.75 0 101.5.06l.3-7.5z" clipRule="evenodd" />
-              </svg>
-            </button>
+      <div className="flex-1 overflow-y-auto pr-2 space-y-4">
+        {sections.map((section, sIdx) => (
+          <div
+            key={section.id}
+            {...dropProps(section.id, () => handleDrop(section.id))}
+            className={`rounded-xl border transition-colors ${dropTarget === section.id ? 'border-emerald-500 bg-emerald-50/40' : 'border-stone-200'} ${dragging?.kind === 'section' && dragging.sectionId === section.id ? 'opacity-40' : ''}`}
+          >
+            {/* Section header */}
+            <div className="flex items-center gap-2 p-3 bg-stone-50 rounded-t-xl border-b border-stone-200">
+              <span
+                draggable
+                onDragStart={(e) => { e.dataTransfer.setData('text/plain', section.id); setDragging({ kind: 'section', sectionId: section.id }); }}
+                onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+                className="text-stone-300 hover:text-stone-500 cursor-grab"
+                title="拖动排序环节"
+              >
+                <DragHandle />
+              </span>
+              <span className="text-stone-400 font-mono text-sm">{sIdx + 1}.</span>
+              <input
+                value={section.title}
+                onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                placeholder="环节名称"
+                className="flex-1 bg-transparent font-bold text-stone-800 text-sm px-2 py-1 rounded border border-transparent focus:border-emerald-600 focus:bg-white outline-none"
+              />
+              <label className="flex items-center gap-1 text-xs text-stone-500">
+                <input
+                  type="number"
+                  min={0}
+                  value={section.targetMinutes}
+                  onChange={(e) => updateSection(section.id, { targetMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                  className="w-14 px-2 py-1 rounded border border-stone-300 text-stone-900 text-xs"
+                />
+                分钟
+              </label>
+              <button
+                onClick={() => setSections(prev => prev.filter(s => s.id !== section.id))}
+                className="text-stone-300 hover:text-red-500 p-1"
+                title="删除环节"
+              >
+                <TrashIcon />
+              </button>
+            </div>
+
+            {/* Questions */}
+            <div className="p-3 space-y-3">
+              {section.questions.map((q, qIdx) => (
+                <div
+                  key={q.id}
+                  {...dropProps(q.id, () => handleDrop(section.id, q.id))}
+                  className={`flex gap-2 items-start group rounded-lg ${dropTarget !== q.id ? '' : dragging?.kind === 'question' && dragging.sectionId === section.id && section.questions.findIndex(d => d.id === dragging.questionId) < qIdx ? 'border-b-2 border-emerald-500 pb-1' : 'border-t-2 border-emerald-500 pt-1'} ${dragging?.kind === 'question' && dragging.questionId === q.id ? 'opacity-40' : ''}`}
+                >
+                  <span
+                    draggable
+                    onDragStart={(e) => { e.stopPropagation(); e.dataTransfer.setData('text/plain', q.id); setDragging({ kind: 'question', sectionId: section.id, questionId: q.id }); }}
+                    onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+                    className="mt-3 text-stone-300 hover:text-stone-500 cursor-grab"
+                    title="拖动排序，可拖到其他环节"
+                  >
+                    <DragHandle />
+                  </span>
+                  <span className="text-stone-400 font-mono mt-3 text-xs">{sIdx + 1}.{qIdx + 1}</span>
+                  <div className="flex-1 space-y-1">
+                    <textarea
+                      value={q.text}
+                      onChange={(e) => updateQuestion(section.id, q.id, { text: e.target.value })}
+                      className="w-full px-3 py-2 rounded border border-stone-200 focus:border-emerald-600 focus:ring-1 focus:ring-emerald-600 text-stone-900 text-sm resize-none"
+                      rows={2}
+                    />
+                    {q.probes.map((probe, pIdx) => (
+                      <div key={pIdx} className="flex items-center gap-2 pl-4">
+                        <span className="text-[10px] text-stone-400 shrink-0">追问</span>
+                        <input
+                          value={probe}
+                          onChange={(e) => updateQuestion(section.id, q.id, { probes: q.probes.map((p, i) => i === pIdx ? e.target.value : p) })}
+                          className="flex-1 px-2 py-1 rounded border border-stone-200 focus:border-emerald-600 text-stone-700 text-xs outline-none"
+                        />
+                        <button
+                          onClick={() => updateQuestion(section.id, q.id, { probes: q.probes.filter((_, i) => i !== pIdx) })}
+                          className="text-stone-300 hover:text-red-500 text-xs"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex items-center gap-4 pl-4">
+                      <button
+                        onClick={() => updateQuestion(section.id, q.id, { probes: [...q.probes, ""] })}
+                        className="text-[11px] text-stone-400 hover:text-emerald-700 font-semibold"
+                      >
+                        + 追问
+                      </button>
+                      <label className="flex items-center gap-1 text-[11px] text-stone-500 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={q.mustAsk}
+                          onChange={(e) => updateQuestion(section.id, q.id, { mustAsk: e.target.checked })}
+                          className="accent-amber-600"
+                        />
+                        必问
+                      </label>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => deleteQuestion(section.id, q.id)}
+                    className="mt-2 text-stone-300 hover:text-red-500 p-1"
+                  >
+                    <TrashIcon />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => addQuestion(section.id)}
+                className="w-full py-1.5 border border-dashed border-stone-200 rounded-lg text-stone-400 hover:border-emerald-300 hover:text-emerald-700 text-xs font-semibold transition-colors"
+              >
+                + 添加问题
+              </button>
+            </div>
           </div>
         ))}
-        <button 
-          onClick={handleAdd}
+        <button
+          onClick={addSection}
           className="w-full py-2 border-2 border-dashed border-stone-200 rounded-lg text-stone-400 hover:border-emerald-300 hover:text-emerald-700 text-sm font-semibold transition-colors"
         >
-          + 添加问题
+          + 添加环节
         </button>
       </div>
 
       <div className="shrink-0 pt-6 mt-4 border-t border-stone-100 flex gap-4">
          <button
-          onClick={() => onConfirm(questions.filter(q => q.trim().length > 0))}
-          className="flex-1 bg-emerald-800 hover:bg-emerald-900 text-white font-bold py-3 rounded-lg shadow-lg"
+          onClick={() => onConfirm(finalGuide)}
+          disabled={finalGuide.sections.length === 0}
+          className="flex-1 bg-emerald-800 hover:bg-emerald-900 text-white font-bold py-3 rounded-lg shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
         >
           确认提纲
         </button>
@@ -71,4 +264,4 @@ const GuideReview: React.FC<GuideReviewProps> = ({ initialQuestions, onConfirm }
   );
 };
 
-export default GuideReview;
\ No newline at end of file
+export default GuideReview;
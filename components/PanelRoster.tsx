@@ -0,0 +1,87 @@
+import React from 'react';
+import { PanelMember } from '../types';
+import { describeSlot } from '../services/panel';
+import { describeDemographics } from '../services/persona';
+
+interface PanelRosterProps {
+  members: PanelMember[];
+  selectedId: string | null;
+  busyIds: string[]; // Members currently being regenerated
+  onSelect: (id: string) => void;
+  onAccept: (id: string) => void;
+  onRegenerate: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const PanelRoster: React.FC<PanelRosterProps> = ({ members, selectedId, busyIds, onSelect, onAccept, onRegenerate, onDiscard }) => {
+  const acceptedCount = members.filter(m => m.status === 'accepted').length;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-stone-200 p-4 mb-6">
+      <div className="flex justify-between items-center mb-3 border-b border-stone-100 pb-2">
+        <h3 className="text-sm font-bold text-stone-700">样本组名单</h3>
+        <span className="text-[10px] text-stone-400">已确认 {acceptedCount}/{members.length}</span>
+      </div>
+
+      <div className="space-y-2">
+        {members.map(member => {
+          const isBusy = busyIds.includes(member.id);
+          const isSelected = member.id === selectedId;
+          return (
+            <div
+              key={member.id}
+              onClick={() => onSelect(member.id)}
+              className={`p-2 rounded-lg border cursor-pointer transition-colors
+                ${isSelected ? 'border-emerald-500 bg-emerald-50' : 'border-stone-200 hover:border-emerald-300'}`}
+            >
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-8 rounded-full bg-stone-100 overflow-hidden shrink-0 flex items-center justify-center text-xs font-bold text-emerald-800">
+                  {member.profile.imageUrl ? (
+                    <img src={`data:image/png;base64,${member.profile.imageUrl}`} alt={member.profile.name} className="w-full h-full object-cover rendering-pixelated" />
+                  ) : member.profile.name.charAt(0)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-xs font-bold text-stone-800 truncate">
+                    {isBusy ? '重新生成中...' : member.profile.name}
+                  </div>
+                  <div className="text-[10px] text-stone-500 truncate">{describeDemographics(member.profile.details)}</div>
+                  <div className="text-[10px] text-stone-400 truncate">{describeSlot(member.slot)}</div>
+                </div>
+                {member.status === 'accepted' && (
+                  <span className="text-[10px] bg-emerald-100 text-emerald-800 px-1.5 py-0.5 rounded font-semibold shrink-0">已确认</span>
+                )}
+              </div>
+
+              {isSelected && !isBusy && (
+                <div className="flex gap-1 mt-2">
+                  {member.status !== 'accepted' && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onAccept(member.id); }}
+                      className="flex-1 text-[10px] font-bold bg-emerald-800 text-white rounded py-1 hover:bg-emerald-900"
+                    >
+                      确认
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onRegenerate(member.id); }}
+                    className="flex-1 text-[10px] font-bold bg-stone-100 text-stone-600 rounded py-1 hover:bg-stone-200"
+                  >
+                    重新生成
+                  </button>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onDiscard(member.id); }}
+                    className="flex-1 text-[10px] font-bold bg-red-50 text-red-600 rounded py-1 hover:bg-red-100"
+                  >
+                    移除
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PanelRoster;
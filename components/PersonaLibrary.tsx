@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { LibraryPersona } from '../types';
+import { collectTags, searchLibrary } from '../services/personaLibrary';
+import { describeDemographics } from '../services/persona';
+
+interface PersonaLibraryProps {
+  entries: LibraryPersona[];
+  onLoad: (entry: LibraryPersona) => void; // Start a new study with this persona
+  onDelete: (id: string) => void;
+  onUpdateTags: (entry: LibraryPersona, tags: string[]) => void;
+  onBack: () => void;
+}
+
+const PersonaLibrary: React.FC<PersonaLibraryProps> = ({ entries, onLoad, onDelete, onUpdateTags, onBack }) => {
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [tagDrafts, setTagDrafts] = useState<Record<string, string>>({});
+
+  const allTags = collectTags(entries);
+  const results = searchLibrary(entries, query, activeTag);
+
+  const handleDelete = (entry: LibraryPersona) => {
+    if (confirm(`确定从画像库中删除「${entry.profile.name}」吗？`)) {
+      onDelete(entry.id);
+    }
+  };
+
+  const addTag = (entry: LibraryPersona) => {
+    const tag = (tagDrafts[entry.id] || '').trim();
+    if (!tag) return;
+    onUpdateTags(entry, [...entry.tags, tag]);
+    setTagDrafts(prev => ({ ...prev, [entry.id]: '' }));
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-white p-8 rounded-2xl shadow-xl border border-stone-100 animate-fade-in-up">
+      <div className="mb-6 flex justify-between items-end">
+        <div>
+          <h2 className="text-2xl font-bold text-stone-800">画像库</h2>
+          <p className="text-stone-500 mt-1 text-sm">保存过的画像可以直接用于新的研究，跳过画像生成步骤。</p>
+        </div>
+        <button onClick={onBack} className="text-sm text-stone-500 hover:text-stone-800 font-medium shrink-0">
+          ← 返回
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="搜索名字、职业、城市、痛点、行业..."
+        className="w-full px-4 py-3 rounded-lg border border-stone-300 text-stone-900 placeholder-stone-400 focus:ring-2 focus:ring-emerald-600 transition-colors mb-3"
+      />
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {allTags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors
+                ${activeTag === tag ? 'bg-emerald-800 text-white border-emerald-800' : 'bg-white text-stone-600 border-stone-200 hover:border-emerald-400'}`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {results.length === 0 ? (
+        <div className="py-12 text-center text-stone-400 text-sm border-2 border-dashed border-stone-200 rounded-xl">
+          {entries.length === 0 ? '画像库还是空的。在画像预览页点击「保存到画像库」即可收藏。' : '没有符合条件的画像'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-[60vh] overflow-y-auto pr-1">
+          {results.map(entry => (
+            <div key={entry.id} className="p-4 rounded-xl border border-stone-200 hover:border-emerald-400 transition-colors flex flex-col">
+              <div className="flex items-start gap-3">
+                <div className="w-12 h-12 shrink-0 rounded-lg bg-stone-100 border border-stone-200 overflow-hidden flex items-center justify-center text-emerald-800 font-bold">
+                  {entry.profile.imageUrl ? (
+                    <img src={`data:image/png;base64,${entry.profile.imageUrl}`} alt={entry.profile.name} className="w-full h-full object-cover rendering-pixelated" />
+                  ) : entry.profile.name.charAt(0)}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold text-stone-800 truncate">{entry.profile.name}</div>
+                  <div className="text-xs text-stone-500 truncate">{describeDemographics(entry.profile.details)}</div>
+                  <div className="text-[10px] text-stone-400 truncate">{entry.config.industry} · 保存于 {new Date(entry.savedAt).toLocaleDateString()}</div>
+                </div>
+              </div>
+
+              <p className="text-xs text-stone-600 mt-3 line-clamp-2">{entry.profile.summary}</p>
+
+              <div className="flex flex-wrap items-center gap-1 mt-3">
+                {entry.tags.map(tag => (
+                  <span key={tag} className="flex items-center gap-1 bg-stone-100 text-stone-600 text-[10px] px-2 py-0.5 rounded-full">
+                    #{tag}
+                    <button onClick={() => onUpdateTags(entry, entry.tags.filter(t => t !== tag))} className="text-stone-400 hover:text-red-500">✕</button>
+                  </span>
+                ))}
+                <input
+                  value={tagDrafts[entry.id] || ''}
+                  onChange={(e) => setTagDrafts(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                  onKeyDown={(e) => { if (e.key === 'Enter') addTag(entry); }}
+                  placeholder="+ 标签"
+                  className="w-16 text-[10px] px-2 py-0.5 rounded-full border border-dashed border-stone-300 focus:border-emerald-500 outline-none"
+                />
+              </div>
+
+              <div className="flex gap-2 mt-4 pt-3 border-t border-stone-100">
+                <button
+                  onClick={() => onLoad(entry)}
+                  className="flex-1 bg-emerald-800 hover:bg-emerald-900 text-white text-xs font-bold py-2 rounded-lg"
+                >
+                  用于新研究
+                </button>
+                <button
+                  onClick={() => handleDelete(entry)}
+                  className="px-3 text-xs text-stone-400 hover:text-red-600 font-medium"
+                >
+                  删除
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonaLibrary;
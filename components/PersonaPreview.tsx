@@ -1,10 +1,22 @@
-import React from 'react';
-import { PersonaProfile, GroundingSource } from '../types';
+import React, { useState } from 'react';
+import { PersonaProfile, GroundingSource, PanelMember, PersonaBehavior } from '../types';
+import { PERSONA_SECTIONS, PersonaEdit, PersonaSectionDef, PersonaSectionKey, getSectionText } from '../services/persona';
+import { BEHAVIOR_MAX, BEHAVIOR_MIN, BEHAVIOR_TRAITS, DEFAULT_PERSONA_BEHAVIOR, MOODS, MOOD_ARCS, getPersonaBehavior } from '../services/personaBehavior';
+import PanelRoster from './PanelRoster';
 
 interface PersonaPreviewProps {
-  profile: PersonaProfile;
+  profile?: PersonaProfile; // Single-persona studies
   sources: GroundingSource[];
-  onConfirmProfile: () => void;
+  panel?: PanelMember[]; // Panel studies: the roster replaces the single profile
+  busyMemberIds?: string[];
+  onAcceptMember?: (id: string) => void;
+  onRegenerateMember?: (id: string) => void;
+  onDiscardMember?: (id: string) => void;
+  onConfirmProfile: (memberId?: string) => void; // Panel studies pass the member to interview first
+  onEditProfile?: (edit: PersonaEdit, memberId?: string) => void;
+  onRewriteSection?: (key: PersonaSectionKey, instruction: string, memberId?: string) => Promise<void>;
+  isRefreshingAvatar?: boolean;
+  onSaveToLibrary?: (memberId?: string) => Promise<boolean>; // Resolves to whether the save succeeded
   onBack: () => void;
 }
 
@@ -23,28 +35,280 @@ const ScoreBar: React.FC<{ label: string; score: number }> = ({ label, score })
   </div>
 );
 
-const PersonaPreview: React.FC<PersonaPreviewProps> = ({ profile, sources, onConfirmProfile, onBack }) => {
+const SectionCard: React.FC<{
+  section: PersonaSectionDef;
+  index: number;
+  content: string;
+  onSave?: (content: string) => void;
+  onRewrite?: (instruction: string) => Promise<void>;
+}> = ({ section, index, content, onSave, onRewrite }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+  const [isRewriteOpen, setIsRewriteOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [isRewriting, setIsRewriting] = useState(false);
+
+  const handleRewrite = async () => {
+    if (!onRewrite || !instruction.trim()) return;
+    setIsRewriting(true);
+    try {
+      await onRewrite(instruction.trim());
+      setInstruction('');
+      setIsRewriteOpen(false);
+    } finally {
+      setIsRewriting(false);
+    }
+  };
+
+  return (
+    <div className={`group border rounded-xl p-4 transition-colors ${isRewriting ? 'border-teal-300 bg-teal-50/40 animate-pulse' : 'border-stone-200 hover:border-emerald-200'}`}>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-emerald-800 font-bold">{index + 1}. {section.title}</h3>
+        {!isEditing && !isRewriting && (
+          <div className="flex gap-3 text-xs font-semibold opacity-0 group-hover:opacity-100 transition-opacity">
+            {onSave && (
+              <button onClick={() => { setDraft(content); setIsEditing(true); }} className="text-stone-500 hover:text-emerald-700">
+                编辑
+              </button>
+            )}
+            {onRewrite && (
+              <button onClick={() => setIsRewriteOpen(!isRewriteOpen)} className="text-stone-500 hover:text-teal-700">
+                AI 改写
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={Math.max(4, draft.split('\n').length + 1)}
+            className="w-full px-3 py-2 rounded border border-stone-300 focus:border-emerald-600 focus:ring-1 focus:ring-emerald-600 text-stone-900 text-sm font-mono"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded text-xs text-stone-500 hover:bg-stone-100">取消</button>
+            <button
+              onClick={() => { onSave?.(draft); setIsEditing(false); }}
+              className="px-3 py-1 rounded text-xs font-bold bg-emerald-800 text-white hover:bg-emerald-900"
+            >
+              保存
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm text-stone-800 whitespace-pre-wrap leading-relaxed">{content || <span className="text-stone-400">（暂无内容）</span>}</div>
+      )}
+
+      {isRewriteOpen && !isEditing && (
+        <div className="flex gap-2 mt-3">
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleRewrite(); }}
+            placeholder="例如：让 TA 更在意价格"
+            disabled={isRewriting}
+            className="flex-1 px-3 py-1.5 rounded border border-stone-300 text-stone-900 text-xs focus:ring-1 focus:ring-teal-600 outline-none"
+          />
+          <button
+            onClick={handleRewrite}
+            disabled={isRewriting || !instruction.trim()}
+            className="px-3 py-1.5 rounded text-xs font-bold bg-teal-700 text-white hover:bg-teal-800 disabled:opacity-50"
+          >
+            {isRewriting ? '改写中...' : '改写'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const BehaviorCard: React.FC<{
+  behavior: PersonaBehavior;
+  onChange?: (behavior: PersonaBehavior) => void;
+}> = ({ behavior, onChange }) => {
+  const isDefault = JSON.stringify(behavior) === JSON.stringify(DEFAULT_PERSONA_BEHAVIOR);
+
+  return (
+    <div className="border border-stone-200 rounded-xl p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-emerald-800 font-bold">受访表现设定</h3>
+          <p className="text-xs text-stone-400">调整 TA 在访谈中的表现，用来测试提纲能否应对寡言、回避或迎合型受访者</p>
+        </div>
+        {onChange && !isDefault && (
+          <button onClick={() => onChange(DEFAULT_PERSONA_BEHAVIOR)} className="text-xs font-semibold text-stone-400 hover:text-emerald-700 shrink-0">
+            恢复默认
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+        {BEHAVIOR_TRAITS.map(trait => (
+          <label key={trait.key} className="block">
+            <div className="flex justify-between text-xs font-semibold text-stone-600 mb-1">
+              <span>{trait.title}</span>
+              <span className="text-stone-400">{behavior[trait.key]}/{BEHAVIOR_MAX}</span>
+            </div>
+            <input
+              type="range"
+              min={BEHAVIOR_MIN}
+              max={BEHAVIOR_MAX}
+              step={1}
+              value={behavior[trait.key]}
+              disabled={!onChange}
+              onChange={(e) => onChange?.({ ...behavior, [trait.key]: Number(e.target.value) })}
+              className="w-full accent-emerald-700"
+            />
+            <div className="flex justify-between text-[10px] text-stone-400">
+              <span>{trait.low}</span>
+              <span>{trait.high}</span>
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-xs">
+        <label className="block">
+          <span className="font-semibold text-stone-600">开场情绪</span>
+          <select
+            value={behavior.mood}
+            disabled={!onChange}
+            onChange={(e) => onChange?.({ ...behavior, mood: e.target.value as PersonaBehavior['mood'] })}
+            className="mt-1 w-full px-2 py-1.5 rounded border border-stone-300 bg-white text-stone-800"
+          >
+            {MOODS.map(mood => <option key={mood.key} value={mood.key}>{mood.label}</option>)}
+          </select>
+        </label>
+        <label className="block">
+          <span className="font-semibold text-stone-600">情绪变化</span>
+          <select
+            value={behavior.moodArc}
+            disabled={!onChange}
+            onChange={(e) => onChange?.({ ...behavior, moodArc: e.target.value as PersonaBehavior['moodArc'] })}
+            className="mt-1 w-full px-2 py-1.5 rounded border border-stone-300 bg-white text-stone-800"
+          >
+            {MOOD_ARCS.map(arc => <option key={arc.key} value={arc.key}>{arc.label}</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+const PersonaPreview: React.FC<PersonaPreviewProps> = ({
+  profile: singleProfile,
+  sources: singleSources,
+  panel,
+  busyMemberIds = [],
+  onAcceptMember,
+  onRegenerateMember,
+  onDiscardMember,
+  onConfirmProfile,
+  onEditProfile,
+  onRewriteSection,
+  isRefreshingAvatar = false,
+  onSaveToLibrary,
+  onBack
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(panel?.[0]?.id ?? null);
+  const [isEditingName, setIsEditingName] = useState(false);
+  const [nameDraft, setNameDraft] = useState('');
+  // Profiles saved in this session; an edit creates a new object, so it can be saved again
+  const [savedProfiles, setSavedProfiles] = useState<PersonaProfile[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isPanel = !!panel && panel.length > 0;
+  const selectedMember = panel?.find(m => m.id === selectedId) || panel?.[0];
+  const profile = selectedMember ? selectedMember.profile : singleProfile;
+  const sources = selectedMember ? selectedMember.sources : singleSources;
+  const acceptedMembers = panel?.filter(m => m.status === 'accepted') || [];
+  const canConfirm = !isPanel || acceptedMembers.length > 0;
+
+  const handleConfirm = () => {
+    if (!isPanel) {
+      onConfirmProfile();
+      return;
+    }
+    const target = selectedMember?.status === 'accepted' ? selectedMember : acceptedMembers[0];
+    onConfirmProfile(target?.id);
+  };
+
+  if (!profile) return null;
+
+  const memberId = selectedMember?.id;
+
+  const saveName = () => {
+    if (nameDraft.trim() && nameDraft.trim() !== profile.name) onEditProfile?.({ name: nameDraft.trim() }, memberId);
+    setIsEditingName(false);
+  };
+
+  const isSaved = savedProfiles.includes(profile);
+
+  const handleSave = async () => {
+    if (!onSaveToLibrary || isSaved) return;
+    setIsSaving(true);
+    try {
+      if (await onSaveToLibrary(memberId)) setSavedProfiles(prev => [...prev, profile]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <div className="max-w-5xl mx-auto h-[85vh] flex flex-col bg-white rounded-2xl shadow-xl overflow-hidden animate-fade-in-up">
       {/* Header */}
       <div className="bg-emerald-800 p-6 text-white shrink-0 flex justify-between items-center">
         <div>
-           <h2 className="text-2xl font-bold">目标画像已生成</h2>
-           <p className="text-emerald-100 text-sm">基于全网实时搜索数据构建</p>
+           <h2 className="text-2xl font-bold">{isPanel ? `样本组已生成 (${panel!.length} 位)` : '目标画像已生成'}</h2>
+           <p className="text-emerald-100 text-sm">
+             {isPanel ? '逐一查看每位受访者，确认、重新生成或移除' : '基于全网实时搜索数据构建'}
+           </p>
+        </div>
+        <div className="flex gap-2">
+          {onSaveToLibrary && (
+            <button
+              onClick={handleSave}
+              disabled={isSaving || isSaved}
+              className="text-sm bg-white/10 hover:bg-white/20 disabled:opacity-60 px-3 py-1 rounded transition-colors"
+            >
+              {isSaved ? '✓ 已保存到画像库' : isSaving ? '保存中...' : '保存到画像库'}
+            </button>
+          )}
+          <button 
+            onClick={onBack}
+            className="text-sm bg-emerald-900 hover:bg-emerald-950 px-3 py-1 rounded transition-colors"
+          >
+            重置
+          </button>
         </div>
-        <button 
-          onClick={onBack}
-          className="text-sm bg-emerald-900 hover:bg-emerald-950 px-3 py-1 rounded transition-colors"
-        >
-          重置
-        </button>
       </div>
 
       <div className="flex-1 overflow-hidden flex flex-col md:flex-row">
         {/* Left: Visuals & Scores */}
         <div className="w-full md:w-1/3 bg-stone-50 p-6 border-r border-stone-100 overflow-y-auto">
+          {isPanel && (
+            <PanelRoster
+              members={panel!}
+              selectedId={selectedMember?.id ?? null}
+              busyIds={busyMemberIds}
+              onSelect={setSelectedId}
+              onAccept={(id) => onAcceptMember?.(id)}
+              onRegenerate={(id) => onRegenerateMember?.(id)}
+              onDiscard={(id) => {
+                if (id === selectedMember?.id) setSelectedId(null);
+                onDiscardMember?.(id);
+              }}
+            />
+          )}
+
           {/* Pixel Art Image */}
-          <div className="bg-white rounded-xl shadow-sm border border-stone-200 p-2 mb-6 flex justify-center items-center aspect-square overflow-hidden">
+          <div className={`bg-white rounded-xl shadow-sm border border-stone-200 p-2 mb-6 flex justify-center items-center aspect-square overflow-hidden relative ${isRefreshingAvatar ? 'animate-pulse' : ''}`}>
+             {isRefreshingAvatar && (
+               <span className="absolute top-2 right-2 bg-stone-800/80 text-white text-[10px] px-2 py-0.5 rounded-full">头像更新中...</span>
+             )}
              {profile.imageUrl ? (
                <img 
                  src={`data:image/png;base64,${profile.imageUrl}`} 
@@ -89,19 +353,64 @@ const PersonaPreview: React.FC<PersonaPreviewProps> = ({ profile, sources, onCon
           )}
         </div>
 
-        {/* Right: Markdown Content */}
-        <div className="w-full md:w-2/3 p-8 overflow-y-auto bg-white">
-           <div className="prose prose-stone max-w-none text-stone-800 whitespace-pre-wrap font-medium leading-relaxed prose-headings:text-emerald-800 prose-headings:font-bold prose-h1:text-3xl prose-h2:text-xl prose-h2:border-b prose-h2:pb-2 prose-h2:mt-6">
-            {profile.rawMarkdown}
+        {/* Right: Profile sections, each editable on its own */}
+        <div className="w-full md:w-2/3 p-8 overflow-y-auto bg-white space-y-4">
+          <div className="group flex items-center gap-3">
+            {isEditingName ? (
+              <>
+                <input
+                  value={nameDraft}
+                  onChange={(e) => setNameDraft(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') saveName(); }}
+                  autoFocus
+                  className="text-2xl font-bold text-emerald-800 px-2 py-1 rounded border border-stone-300 focus:ring-2 focus:ring-emerald-600 outline-none"
+                />
+                <button onClick={saveName} className="text-xs font-bold text-emerald-700 hover:underline">保存</button>
+                <button onClick={() => setIsEditingName(false)} className="text-xs text-stone-400 hover:underline">取消</button>
+              </>
+            ) : (
+              <>
+                <h2 className="text-3xl font-bold text-emerald-800">{profile.name}</h2>
+                {onEditProfile && (
+                  <button
+                    onClick={() => { setNameDraft(profile.name); setIsEditingName(true); }}
+                    className="text-xs font-semibold text-stone-400 hover:text-emerald-700 opacity-0 group-hover:opacity-100 transition-opacity"
+                  >
+                    改名
+                  </button>
+                )}
+              </>
+            )}
           </div>
+          {profile.summary && <p className="text-sm text-stone-600 whitespace-pre-wrap">{profile.summary}</p>}
+
+          {PERSONA_SECTIONS.map((section, idx) => (
+            <SectionCard
+              key={`${memberId ?? 'single'}-${section.key}`}
+              section={section}
+              index={idx}
+              content={getSectionText(profile.details, section.key)}
+              onSave={onEditProfile ? (content) => onEditProfile({ section: { key: section.key, content } }, memberId) : undefined}
+              onRewrite={onRewriteSection ? (instruction) => onRewriteSection(section.key, instruction, memberId) : undefined}
+            />
+          ))}
+
+          <BehaviorCard
+            behavior={getPersonaBehavior(profile)}
+            onChange={onEditProfile ? (behavior) => onEditProfile({ behavior }, memberId) : undefined}
+          />
         </div>
       </div>
 
       {/* Footer / Action */}
-      <div className="p-6 bg-white border-t border-stone-200 shrink-0 flex justify-end">
+      <div className="p-6 bg-white border-t border-stone-200 shrink-0 flex justify-end items-center gap-4">
+        {isPanel && !canConfirm && (
+          <span className="text-xs text-stone-400">请至少确认一位受访者</span>
+        )}
         <button
-          onClick={onConfirmProfile}
-          className="bg-emerald-800 hover:bg-emerald-900 text-white font-bold py-3 px-8 rounded-lg shadow-lg transform hover:-translate-y-0.5 transition-all flex items-center gap-2"
+          onClick={handleConfirm}
+          disabled={!canConfirm}
+          className="bg-emerald-800 hover:bg-emerald-900 text-white font-bold py-3 px-8 rounded-lg shadow-lg transform hover:-translate-y-0.5 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
         >
           <span>下一步：设计访谈提纲</span>
           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
@@ -0,0 +1,140 @@
+import React, { useRef } from 'react';
+import { AppStep, ResearchProject } from '../types';
+import { BUNDLE_FILE_SUFFIX } from '../services/studyBundle';
+
+interface ProjectListProps {
+  projects: ResearchProject[];
+  onOpen: (project: ResearchProject) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onExport: (project: ResearchProject) => void;
+  onImport: (file: File) => void;
+}
+
+const STEP_LABELS: Record<AppStep, string> = {
+  [AppStep.PROJECTS]: '项目列表',
+  [AppStep.LIBRARY]: '画像库',
+  [AppStep.SETUP]: '填写需求',
+  [AppStep.CLARIFYING]: '完善画像细节',
+  [AppStep.RESEARCHING]: '生成中',
+  [AppStep.PREVIEW]: '画像预览',
+  [AppStep.GUIDE_INPUT]: '设计提纲',
+  [AppStep.GUIDE_REVIEW]: '确认提纲',
+  [AppStep.MODE_SELECTION]: '选择访谈方式',
+  [AppStep.INTERVIEW]: '访谈进行中',
+  [AppStep.BATCH]: '批量访谈',
+  [AppStep.SYNTHESIS]: '综合报告',
+  [AppStep.FOCUS_GROUP]: '焦点小组',
+  [AppStep.CONCEPT_TEST]: '概念测试',
+  [AppStep.CONCEPT_RESULTS]: '概念测试结果',
+  [AppStep.SUMMARY]: '已完成报告',
+};
+
+const ProjectList: React.FC<ProjectListProps> = ({ projects, onOpen, onDelete, onNew, onExport, onImport }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (e: React.MouseEvent, project: ResearchProject) => {
+    e.stopPropagation();
+    onExport(project);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  const handleDelete = (e: React.MouseEvent, project: ResearchProject) => {
+    e.stopPropagation();
+    if (confirm(`确定删除「${project.title}」吗？此操作无法撤销。`)) {
+      onDelete(project.id);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto bg-white p-8 rounded-2xl shadow-xl border border-stone-100 animate-fade-in-up">
+      <div className="mb-6 flex justify-between items-end">
+        <div>
+          <h2 className="text-2xl font-bold text-stone-800">最近的研究项目</h2>
+          <p className="text-stone-500 mt-1 text-sm">项目会自动保存在本地浏览器中，可随时从中断的步骤继续。</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="border border-stone-300 hover:border-emerald-500 text-stone-600 hover:text-emerald-800 font-bold py-2 px-4 rounded-lg text-sm"
+            title="导入他人导出的研究包 (.json)"
+          >
+            导入
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={`${BUNDLE_FILE_SUFFIX},.json,application/json`}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+          <button
+            onClick={onNew}
+            className="bg-emerald-800 hover:bg-emerald-900 text-white font-bold py-2 px-4 rounded-lg shadow text-sm"
+          >
+            + 新建研究
+          </button>
+        </div>
+      </div>
+
+      {projects.length === 0 ? (
+        <div className="py-12 text-center text-stone-400 text-sm border-2 border-dashed border-stone-200 rounded-xl">
+          暂无保存的项目
+        </div>
+      ) : (
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              onClick={() => onOpen(project)}
+              className="flex items-center gap-4 p-4 rounded-xl border border-stone-200 hover:border-emerald-400 hover:bg-stone-50 cursor-pointer transition-colors group"
+            >
+              <div className="w-12 h-12 shrink-0 rounded-lg bg-stone-100 border border-stone-200 overflow-hidden flex items-center justify-center text-emerald-800 font-bold">
+                {project.persona?.imageUrl ? (
+                  <img src={`data:image/png;base64,${project.persona.imageUrl}`} alt={project.persona.name} className="w-full h-full object-cover rendering-pixelated" />
+                ) : (
+                  <span>{project.config.industry.charAt(0) || '?'}</span>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-bold text-stone-800 truncate">{project.title}</div>
+                <div className="text-xs text-stone-500 truncate">{project.config.targetAudience}</div>
+                <div className="flex items-center gap-2 mt-1 text-[10px] text-stone-400">
+                  <span className="bg-emerald-50 text-emerald-800 px-1.5 py-0.5 rounded font-semibold">{STEP_LABELS[project.step]}</span>
+                  {project.chatHistory.length > 0 && <span>{project.chatHistory.length} 条对话</span>}
+                  <span>更新于 {new Date(project.updatedAt).toLocaleString()}</span>
+                </div>
+              </div>
+              <button
+                onClick={(e) => handleExport(e, project)}
+                className="text-stone-300 hover:text-emerald-700 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="导出研究包"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M10.75 2.75a.75.75 0 00-1.5 0v8.614L6.295 8.235a.75.75 0 10-1.09 1.03l4.25 4.5a.75.75 0 001.09 0l4.25-4.5a.75.75 0 00-1.09-1.03l-2.955 3.129V2.75z" />
+                  <path d="M3.5 12.75a.75.75 0 00-1.5 0v2.5A2.75 2.75 0 004.75 18h10.5A2.75 2.75 0 0018 15.25v-2.5a.75.75 0 00-1.5 0v2.5c0 .69-.56 1.25-1.25 1.25H4.75c-.69 0-1.25-.56-1.25-1.25v-2.5z" />
+                </svg>
+              </button>
+              <button
+                onClick={(e) => handleDelete(e, project)}
+                className="text-stone-300 hover:text-red-500 p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="删除项目"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectList;
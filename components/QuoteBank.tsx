@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Quote } from '../types';
+import { collectQuoteTags, formatQuoteAttribution, parseTagInput, searchQuotes } from '../services/quotes';
+
+interface QuoteBankProps {
+  quotes: Quote[];
+  onUpdate: (quote: Quote) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Edits a quote's tags and note in place; changes are saved on blur
+const QuoteCard: React.FC<{ quote: Quote; onUpdate: (quote: Quote) => void; onDelete: (id: string) => void }> = ({ quote, onUpdate, onDelete }) => {
+  const [tagInput, setTagInput] = useState(quote.tags.join('，'));
+  const [note, setNote] = useState(quote.note);
+
+  const saveTags = () => {
+    const tags = parseTagInput(tagInput);
+    if (tags.join() !== quote.tags.join()) onUpdate({ ...quote, tags });
+    setTagInput(tags.join('，'));
+  };
+
+  const saveNote = () => {
+    if (note.trim() !== quote.note) onUpdate({ ...quote, note: note.trim() });
+  };
+
+  return (
+    <div className={`p-4 rounded-xl border transition-colors ${quote.inReport ? 'border-amber-300 bg-amber-50/40' : 'border-stone-200'}`}>
+      <blockquote className="text-sm text-stone-800 border-l-2 border-amber-400 pl-3 leading-relaxed whitespace-pre-wrap">
+        {quote.text}
+      </blockquote>
+      <div className="text-[11px] text-stone-400 mt-2 pl-3">—— {formatQuoteAttribution(quote)}</div>
+
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <input
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onBlur={saveTags}
+          placeholder="标签，用逗号分隔"
+          className="text-xs px-2 py-1.5 rounded border border-stone-200 focus:border-emerald-500 outline-none"
+        />
+        <input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={saveNote}
+          placeholder="备注"
+          className="text-xs px-2 py-1.5 rounded border border-stone-200 focus:border-emerald-500 outline-none"
+        />
+      </div>
+
+      <div className="flex justify-between items-center mt-3">
+        <label className="flex items-center gap-2 text-xs text-stone-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={quote.inReport}
+            onChange={(e) => onUpdate({ ...quote, inReport: e.target.checked })}
+            className="accent-amber-600"
+          />
+          收录到报告
+        </label>
+        <button
+          onClick={() => { if (confirm('删除这条引用吗？')) onDelete(quote.id); }}
+          className="text-xs text-stone-400 hover:text-red-600"
+        >
+          删除
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const QuoteBank: React.FC<QuoteBankProps> = ({ quotes, onUpdate, onDelete, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+
+  const tags = collectQuoteTags(quotes);
+  const results = searchQuotes(quotes, query, activeTag);
+  const inReportCount = quotes.filter(q => q.inReport).length;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-stone-200 shrink-0">
+          <div className="flex justify-between items-center">
+            <div>
+              <h3 className="font-bold text-stone-800">引用库</h3>
+              <p className="text-[11px] text-stone-400">在逐字稿中选中文字即可保存引用 · 共 {quotes.length} 条，{inReportCount} 条收录到报告</p>
+            </div>
+            <button onClick={onClose} className="text-stone-400 hover:text-stone-700 text-sm font-medium">关闭</button>
+          </div>
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索引用、备注、标签..."
+            className="w-full mt-3 px-3 py-2 rounded-lg border border-stone-300 text-sm text-stone-900 focus:ring-2 focus:ring-emerald-600"
+          />
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {tags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+                  className={`px-2 py-0.5 rounded-full text-[11px] font-medium border transition-colors
+                    ${activeTag === tag ? 'bg-amber-600 text-white border-amber-600' : 'bg-white text-stone-600 border-stone-200 hover:border-amber-400'}`}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {results.length === 0 ? (
+            <div className="py-12 text-center text-stone-400 text-sm">
+              {quotes.length === 0 ? '还没有引用。在访谈或逐字稿中选中一段文字即可保存。' : '没有符合条件的引用'}
+            </div>
+          ) : (
+            results.map(quote => <QuoteCard key={quote.id} quote={quote} onUpdate={onUpdate} onDelete={onDelete} />)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteBank;
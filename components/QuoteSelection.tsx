@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { parseTagInput } from '../services/quotes';
+
+export interface QuoteSelectionDraft {
+  turnIndex: number;
+  text: string;
+  tags: string[];
+  note: string;
+}
+
+interface QuoteSelectionProps {
+  children: React.ReactNode; // Messages must carry data-turn-index
+  onSave: (draft: QuoteSelectionDraft) => void;
+  className?: string;
+}
+
+interface PendingSelection {
+  turnIndex: number;
+  text: string;
+  top: number;
+  left: number;
+}
+
+const POPOVER_WIDTH = 288;
+
+const turnIndexOf = (node: Node | null): number | null => {
+  const element = node instanceof Element ? node : node?.parentElement;
+  const turn = element?.closest<HTMLElement>('[data-turn-index]');
+  return turn ? Number(turn.dataset.turnIndex) : null;
+};
+
+/**
+ * Wraps a transcript so text selected inside one message can be saved as a quote.
+ * Selections spanning several messages are ignored.
+ */
+const QuoteSelection: React.FC<QuoteSelectionProps> = ({ children, onSave, className }) => {
+  const [pending, setPending] = useState<PendingSelection | null>(null);
+  const [isComposing, setIsComposing] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [note, setNote] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  const reset = () => {
+    setPending(null);
+    setIsComposing(false);
+    setTagInput('');
+    setNote('');
+  };
+
+  // Dismiss when clicking anywhere else
+  useEffect(() => {
+    if (!pending) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!popoverRef.current?.contains(e.target as Node)) reset();
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [pending]);
+
+  const handleMouseUp = () => {
+    if (isComposing) return;
+    const selection = window.getSelection();
+    const text = selection?.toString().trim();
+    if (!selection || !text || selection.rangeCount === 0) return;
+
+    const turnIndex = turnIndexOf(selection.anchorNode);
+    if (turnIndex === null || turnIndex !== turnIndexOf(selection.focusNode)) return;
+    if (!containerRef.current?.contains(selection.anchorNode)) return;
+
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    setPending({
+      turnIndex,
+      text,
+      top: rect.bottom + 6,
+      left: Math.max(8, Math.min(rect.left, window.innerWidth - POPOVER_WIDTH - 8))
+    });
+  };
+
+  const handleSave = () => {
+    if (!pending) return;
+    onSave({ turnIndex: pending.turnIndex, text: pending.text, tags: parseTagInput(tagInput), note });
+    window.getSelection()?.removeAllRanges();
+    reset();
+  };
+
+  return (
+    <div ref={containerRef} onMouseUp={handleMouseUp} className={className}>
+      {children}
+
+      {pending && (
+        <div
+          ref={popoverRef}
+          className="fixed z-50 bg-white rounded-xl shadow-2xl border border-stone-200 text-stone-800"
+          style={{ top: pending.top, left: pending.left, width: isComposing ? POPOVER_WIDTH : undefined }}
+        >
+          {!isComposing ? (
+            <button
+              onClick={() => setIsComposing(true)}
+              className="px-3 py-1.5 text-xs font-bold text-amber-800 hover:bg-amber-50 rounded-xl whitespace-nowrap"
+            >
+              ❝ 保存为引用
+            </button>
+          ) : (
+            <div className="p-3 space-y-2">
+              <p className="text-xs text-stone-600 border-l-2 border-amber-400 pl-2 line-clamp-3">{pending.text}</p>
+              <input
+                autoFocus
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="标签，用逗号分隔"
+                className="w-full text-xs px-2 py-1.5 rounded border border-stone-300 focus:border-emerald-500 outline-none"
+              />
+              <textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="备注（可选）"
+                rows={2}
+                className="w-full text-xs px-2 py-1.5 rounded border border-stone-300 focus:border-emerald-500 outline-none resize-none"
+              />
+              <div className="flex justify-end gap-2">
+                <button onClick={reset} className="text-xs text-stone-500 hover:text-stone-800 px-2 py-1">取消</button>
+                <button onClick={handleSave} className="text-xs font-bold bg-emerald-800 hover:bg-emerald-900 text-white px-3 py-1 rounded">保存</button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuoteSelection;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Emotion } from '../types';
+import { EMOTIONS, SENTIMENT_MAX, SENTIMENT_MIN, SentimentPoint, averageSentiment, getEmotionLabel, sentimentByTopic } from '../services/sentiment';
+
+interface SentimentTimelineProps {
+  points: SentimentPoint[];
+  onOpenTurn: (turnIndex: number) => void;
+}
+
+const EMOTION_COLORS: Record<Emotion, string> = {
+  delight: '#059669',
+  satisfaction: '#34d399',
+  neutral: '#a8a29e',
+  indifference: '#d6d3d1',
+  confusion: '#f59e0b',
+  worry: '#f97316',
+  frustration: '#dc2626',
+};
+
+// Chart geometry, in viewBox units
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD_X = 28;
+const PAD_TOP = 24;
+const PAD_BOTTOM = 24;
+
+const yFor = (score: number) =>
+  PAD_TOP + (SENTIMENT_MAX - score) / (SENTIMENT_MAX - SENTIMENT_MIN) * (HEIGHT - PAD_TOP - PAD_BOTTOM);
+
+const formatScore = (score: number) => `${score > 0 ? '+' : ''}${score.toFixed(1)}`;
+
+const SentimentTimeline: React.FC<SentimentTimelineProps> = ({ points, onOpenTurn }) => {
+  if (points.length === 0) {
+    return <p className="text-stone-400 text-sm">暂无情绪数据</p>;
+  }
+
+  const xFor = (idx: number) =>
+    points.length === 1 ? WIDTH / 2 : PAD_X + idx * (WIDTH - 2 * PAD_X) / (points.length - 1);
+  const average = averageSentiment(points)!;
+  const worstTopics = sentimentByTopic(points).filter(t => t.average < 0).slice(0, 3);
+  const emotionsUsed = EMOTIONS.filter(e => points.some(p => p.emotion === e.key));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-baseline text-xs text-stone-500">
+        <span>共 {points.length} 条受访者发言 · 点击圆点查看原文</span>
+        <span>平均情绪 <span className={`font-bold font-mono ${average < 0 ? 'text-red-600' : 'text-emerald-700'}`}>{formatScore(average)}</span></span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        {[SENTIMENT_MAX, 0, SENTIMENT_MIN].map(score => (
+          <g key={score}>
+            <line
+              x1={PAD_X} x2={WIDTH - PAD_X} y1={yFor(score)} y2={yFor(score)}
+              stroke="#e7e5e4" strokeDasharray={score === 0 ? undefined : '4 4'}
+            />
+            <text x={4} y={yFor(score) + 3} fontSize="9" fill="#a8a29e">{score > 0 ? `+${score}` : score}</text>
+          </g>
+        ))}
+        <polyline
+          points={points.map((p, idx) => `${xFor(idx)},${yFor(p.score)}`).join(' ')}
+          fill="none" stroke="#78716c" strokeWidth={1.5} strokeLinejoin="round"
+        />
+        {points.map((p, idx) => (
+          <g key={p.turnIndex} onClick={() => onOpenTurn(p.turnIndex)} className="cursor-pointer">
+            <title>{`#${p.turnIndex} ${getEmotionLabel(p.emotion)} (${formatScore(p.score)})${p.question ? `\n${p.question}` : ''}`}</title>
+            <circle cx={xFor(idx)} cy={yFor(p.score)} r={p.isDip ? 6 : 4.5} fill={EMOTION_COLORS[p.emotion]} stroke="white" strokeWidth={1.5} />
+            {p.isDip && p.topic && (
+              <text x={xFor(idx)} y={yFor(p.score) + 16} fontSize="9" fill="#b91c1c" textAnchor="middle">
+                ▲ {p.topic}
+              </text>
+            )}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-3 text-[11px] text-stone-500">
+        {emotionsUsed.map(emotion => (
+          <span key={emotion.key} className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: EMOTION_COLORS[emotion.key] }} />
+            {emotion.label}
+          </span>
+        ))}
+      </div>
+
+      {worstTopics.length > 0 && (
+        <div className="pt-3 border-t border-stone-100">
+          <p className="text-xs font-bold text-stone-600 mb-2">情绪最低的话题</p>
+          <ul className="space-y-1">
+            {worstTopics.map(t => (
+              <li key={t.topic} className="flex justify-between text-xs text-stone-600">
+                <span className="truncate">{t.topic}</span>
+                <span className="font-mono text-red-600 shrink-0 ml-2">{formatScore(t.average)} · {t.count} 条</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SentimentTimeline;
@@ -1,25 +1,43 @@
 import React, { useState, useRef } from 'react';
-import { ResearchConfig, ReferenceMaterial } from '../types';
+import { ResearchConfig, ReferenceMaterial, PanelConfig, PriceSensitivity, BrandLoyalty } from '../types';
+import { AGE_BAND_OPTIONS, BRAND_LOYALTY_LABELS, DEFAULT_PANEL_CONFIG, MAX_PANEL_SIZE, MIN_PANEL_SIZE, PRICE_SENSITIVITY_LABELS } from '../services/panel';
 
 interface SetupFormProps {
   onSubmit: (config: ResearchConfig) => void;
   isLoading: boolean;
   loadingText?: string;
+  initialConfig?: ResearchConfig | null; // Prefill when reopening a saved project
+  onOpenProjects?: () => void;
+  onOpenLibrary?: () => void;
 }
 
-const SetupForm: React.FC<SetupFormProps> = ({ onSubmit, isLoading, loadingText }) => {
-  const [industry, setIndustry] = useState('');
-  const [targetAudience, setTargetAudience] = useState('');
-  const [materials, setMaterials] = useState<ReferenceMaterial[]>([]);
+const SetupForm: React.FC<SetupFormProps> = ({ onSubmit, isLoading, loadingText, initialConfig, onOpenProjects, onOpenLibrary }) => {
+  const [industry, setIndustry] = useState(initialConfig?.industry || '');
+  const [targetAudience, setTargetAudience] = useState(initialConfig?.targetAudience || '');
+  const [materials, setMaterials] = useState<ReferenceMaterial[]>(initialConfig?.referenceMaterials || []);
+  const [isPanel, setIsPanel] = useState(!!initialConfig?.panel);
+  const [panelConfig, setPanelConfig] = useState<PanelConfig>(initialConfig?.panel || DEFAULT_PANEL_CONFIG);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (industry.trim() && targetAudience.trim()) {
-      onSubmit({ industry, targetAudience, referenceMaterials: materials });
+      onSubmit({ industry, targetAudience, referenceMaterials: materials, panel: isPanel ? panelConfig : undefined });
     }
   };
 
+  // Toggle one value of a panel diversity dimension
+  const toggleOption = <K extends 'ageBands' | 'priceSensitivity' | 'brandLoyalty'>(key: K, value: PanelConfig[K][number]) => {
+    const current = panelConfig[key] as PanelConfig[K][number][];
+    const next = current.includes(value) ? current.filter(v => v !== value) : [...current, value];
+    setPanelConfig({ ...panelConfig, [key]: next });
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-2 py-1 rounded text-[11px] font-medium border transition-colors ${active
+      ? 'bg-emerald-50 border-emerald-600 text-emerald-800'
+      : 'bg-white border-stone-200 text-stone-500 hover:border-emerald-300'}`;
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -101,6 +119,80 @@ const SetupForm: React.FC<SetupFormProps> = ({ onSubmit, isLoading, loadingText
           />
         </div>
 
+        {/* Panel Section */}
+        <div className="pt-4 border-t border-stone-100">
+          <div className="flex items-center justify-between mb-3">
+            <label className="block text-sm font-semibold text-stone-700">受访者数量</label>
+            <div className="flex bg-stone-100 rounded-lg p-0.5 text-xs font-medium">
+              <button
+                type="button"
+                onClick={() => setIsPanel(false)}
+                className={`px-3 py-1 rounded-md ${!isPanel ? 'bg-white shadow text-emerald-800' : 'text-stone-500'}`}
+              >
+                单人
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsPanel(true)}
+                className={`px-3 py-1 rounded-md ${isPanel ? 'bg-white shadow text-emerald-800' : 'text-stone-500'}`}
+              >
+                多人样本组
+              </button>
+            </div>
+          </div>
+
+          {isPanel && (
+            <div className="space-y-3 bg-stone-50 p-3 rounded-lg border border-stone-200">
+              <div className="flex items-center gap-3">
+                <span className="text-xs text-stone-600 w-16 shrink-0">人数</span>
+                <input
+                  type="number"
+                  min={MIN_PANEL_SIZE}
+                  max={MAX_PANEL_SIZE}
+                  value={panelConfig.size}
+                  onChange={(e) => setPanelConfig({
+                    ...panelConfig,
+                    size: Math.min(MAX_PANEL_SIZE, Math.max(MIN_PANEL_SIZE, Number(e.target.value) || MIN_PANEL_SIZE))
+                  })}
+                  className="w-20 px-2 py-1 rounded border border-stone-300 text-stone-900 text-sm"
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="flex items-start gap-3">
+                <span className="text-xs text-stone-600 w-16 shrink-0 pt-1">年龄段</span>
+                <div className="flex flex-wrap gap-1">
+                  {AGE_BAND_OPTIONS.map(band => (
+                    <button key={band} type="button" onClick={() => toggleOption('ageBands', band)} className={chipClass(panelConfig.ageBands.includes(band))}>
+                      {band}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <span className="text-xs text-stone-600 w-16 shrink-0 pt-1">价格敏感</span>
+                <div className="flex flex-wrap gap-1">
+                  {(Object.keys(PRICE_SENSITIVITY_LABELS) as PriceSensitivity[]).map(level => (
+                    <button key={level} type="button" onClick={() => toggleOption('priceSensitivity', level)} className={chipClass(panelConfig.priceSensitivity.includes(level))}>
+                      {PRICE_SENSITIVITY_LABELS[level]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <span className="text-xs text-stone-600 w-16 shrink-0 pt-1">品牌忠诚</span>
+                <div className="flex flex-wrap gap-1">
+                  {(Object.keys(BRAND_LOYALTY_LABELS) as BrandLoyalty[]).map(level => (
+                    <button key={level} type="button" onClick={() => toggleOption('brandLoyalty', level)} className={chipClass(panelConfig.brandLoyalty.includes(level))}>
+                      {BRAND_LOYALTY_LABELS[level]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <p className="text-[10px] text-stone-400">所选条件会轮流分配给每位受访者，保证样本多样性。</p>
+            </div>
+          )}
+        </div>
+
         {/* Reference Data Section */}
         <div className="pt-4 border-t border-stone-100">
             <label className="block text-sm font-semibold text-stone-700 mb-3">
@@ -180,9 +272,29 @@ const SetupForm: React.FC<SetupFormProps> = ({ onSubmit, isLoading, loadingText
               {loadingText || '处理中...'}
             </span>
           ) : (
-            '生成画像'
+            isPanel ? `生成 ${panelConfig.size} 位受访者` : '生成画像'
           )}
         </button>
+
+        {onOpenProjects && (
+          <button
+            type="button"
+            onClick={onOpenProjects}
+            className="w-full text-sm text-stone-500 hover:text-emerald-700 font-medium"
+          >
+            打开最近的研究项目 →
+          </button>
+        )}
+
+        {onOpenLibrary && (
+          <button
+            type="button"
+            onClick={onOpenLibrary}
+            className="w-full text-sm text-stone-500 hover:text-emerald-700 font-medium"
+          >
+            从画像库选择已有画像 →
+          </button>
+        )}
       </form>
     </div>
   );
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Stimulus } from '../types';
+import { getStimulusKindLabel, isImageStimulus, isTextStimulus } from '../services/stimulus';
+
+interface StimulusCardProps {
+  stimulus: Stimulus;
+  onRemove?: () => void; // Pending stimuli can be taken off the question before it is sent
+  className?: string;
+}
+
+// What the respondent was shown: the image preview, the PDF's name or the typed-in text
+const StimulusCard: React.FC<StimulusCardProps> = ({ stimulus, onRemove, className = '' }) => {
+  const imageSrc = stimulus.thumbnail
+    ? `data:image/jpeg;base64,${stimulus.thumbnail.data}`
+    : isImageStimulus(stimulus) ? `data:${stimulus.mimeType};base64,${stimulus.content}` : null;
+
+  return (
+    <div className={`inline-flex flex-col max-w-xs bg-white border border-stone-200 rounded-xl shadow-sm overflow-hidden select-none ${className}`}>
+      <div className="flex justify-between items-center gap-3 px-3 py-1.5 bg-stone-50 border-b border-stone-100 text-[11px]">
+        <span className="font-bold text-stone-600">🖼 展示{getStimulusKindLabel(stimulus.kind)}</span>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="text-stone-400 hover:text-red-600" title="移除">✕</button>
+        )}
+      </div>
+      {imageSrc ? (
+        <img src={imageSrc} alt={stimulus.name} className="max-h-48 w-full object-contain bg-white" />
+      ) : isTextStimulus(stimulus) ? (
+        <p className="px-3 py-2 text-xs text-stone-700 whitespace-pre-wrap max-h-40 overflow-y-auto">{stimulus.content}</p>
+      ) : (
+        <p className="px-3 py-3 text-xs text-stone-600">📄 PDF</p>
+      )}
+      <p className="px-3 py-1 text-[10px] text-stone-400 truncate border-t border-stone-100">{stimulus.name}</p>
+    </div>
+  );
+};
+
+export default StimulusCard;
@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { Stimulus, StimulusKind } from '../types';
+import { STIMULUS_FILE_ACCEPT, STIMULUS_KINDS, createTextStimulus, readStimulusFile } from '../services/stimulus';
+
+interface StimulusPickerProps {
+  onAttach: (stimulus: Stimulus) => void;
+  onClose: () => void;
+}
+
+// Attach a concept board, packaging, ad copy or price card to the next question
+const StimulusPicker: React.FC<StimulusPickerProps> = ({ onAttach, onClose }) => {
+  const [kind, setKind] = useState<StimulusKind>('concept');
+  const [text, setText] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    setIsReading(true);
+    setError(null);
+    try {
+      onAttach(await readStimulusFile(file, kind));
+    } catch (err) {
+      console.error(err);
+      setError('读取文件失败，请换一个文件重试。');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mb-3 p-3 rounded-xl border border-stone-200 bg-stone-50 space-y-2">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-wrap gap-1.5">
+          {STIMULUS_KINDS.map(k => (
+            <button
+              key={k.key}
+              type="button"
+              onClick={() => setKind(k.key)}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors
+                ${kind === k.key ? 'bg-emerald-800 text-white border-emerald-800' : 'bg-white text-stone-600 border-stone-200 hover:border-emerald-400'}`}
+            >
+              {k.label}
+            </button>
+          ))}
+        </div>
+        <button type="button" onClick={onClose} className="text-xs text-stone-400 hover:text-stone-700">收起</button>
+      </div>
+
+      <div className="flex gap-2 items-start">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isReading}
+          className="shrink-0 px-3 py-2 rounded-lg text-xs font-bold bg-white border border-stone-300 text-stone-700 hover:bg-stone-100 disabled:opacity-50"
+        >
+          {isReading ? '读取中...' : '上传图片 / PDF'}
+        </button>
+        <input ref={fileInputRef} type="file" accept={STIMULUS_FILE_ACCEPT} onChange={handleFile} className="hidden" />
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={2}
+          placeholder="或直接输入广告文案、价格信息，例如：标准版 ¥2,999 / 自动清洁版 ¥3,699"
+          className="flex-1 px-3 py-2 rounded-lg border border-stone-300 text-xs text-stone-900 focus:ring-1 focus:ring-emerald-600 outline-none"
+        />
+        <button
+          type="button"
+          onClick={() => { onAttach(createTextStimulus(kind, text)); setText(''); }}
+          disabled={!text.trim()}
+          className="shrink-0 px-3 py-2 rounded-lg text-xs font-bold bg-emerald-800 text-white hover:bg-emerald-900 disabled:opacity-50"
+        >
+          添加
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default StimulusPicker;
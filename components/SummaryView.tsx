@@ -1,59 +1,112 @@
-import React, { useRef } from 'react';
-import { jsPDF } from "jspdf";
-import html2canvas from 'html2canvas';
-import { InterviewSummary, PersonaProfile, ChatMessage, ResearchConfig } from '../types';
+import React, { useMemo, useState } from 'react';
+import { InterviewSummary, PersonaProfile, ChatMessage, ResearchConfig, GroundingSource, DiscussionGuide, Quote, SummaryFinding, SummaryFindingCategory, InterviewWave } from '../types';
+import { buildInterviewReport } from '../services/report';
+import { downloadReportPdf } from '../services/pdfReport';
+import { downloadReportDocx } from '../services/docxReport';
+import { downloadReportMarkdown } from '../services/markdownReport';
+import { toFileStem } from '../services/download';
+import TranscriptExportButtons from './TranscriptExportButtons';
+import TranscriptModal from './TranscriptModal';
+import SentimentTimeline from './SentimentTimeline';
+import { QuoteDraft } from '../services/quotes';
+import { SUMMARY_CATEGORIES, findingsByCategory, getFindingIssue, isEvidenceVerified } from '../services/summary';
+import { buildSentimentTimeline } from '../services/sentiment';
+import { getWaveLabel } from '../services/waves';
 
 interface SummaryViewProps {
   summary: InterviewSummary;
   profile: PersonaProfile;
   config: ResearchConfig;
   messages: ChatMessage[];
+  sources?: GroundingSource[];
+  studyId: string;
+  guide: DiscussionGuide; // Links transcript rows to guide questions in spreadsheet exports
+  transcriptId: string; // Which of the study's transcripts this summarizes
+  quotes: Quote[];
+  onAddQuote: (draft: QuoteDraft) => void;
+  onOpenQuoteBank: () => void;
+  onOpenCoding: () => void;
+  waves?: InterviewWave[]; // Earlier waves of a longitudinal study, recapped in the report
+  onOpenWaves?: () => void; // One-to-one interviews only: review waves and start the next
+  onBack?: { label: string; onClick: () => void }; // Reports opened from another screen, e.g. the batch
   onReset: () => void;
 }
 
-const SummaryView: React.FC<SummaryViewProps> = ({ summary, profile, config, messages, onReset }) => {
-  const printRef = useRef<HTMLDivElement>(null);
+type ExportFormat = 'pdf' | 'docx' | 'md';
 
-  const handleDownloadPDF = async () => {
-    if (!printRef.current) return;
+const EXPORT_FORMATS: Record<ExportFormat, { label: string; download: typeof downloadReportPdf }> = {
+  pdf: { label: 'PDF', download: downloadReportPdf },
+  docx: { label: 'Word', download: downloadReportDocx },
+  md: { label: 'Markdown', download: async (report, filename) => downloadReportMarkdown(report, filename) },
+};
 
-    // Show the hidden div temporarily for capture (it's absolute positioned off-screen usually)
-    // but html2canvas needs it rendered.
-    // We assume it's mounted in the DOM.
-    
-    try {
-      const canvas = await html2canvas(printRef.current, {
-        scale: 2, // Higher resolution
-        useCORS: true,
-        logging: false
-      });
+const CATEGORY_ACCENTS: Record<SummaryFindingCategory, string> = {
+  insight: 'text-emerald-700',
+  painPoint: 'text-red-600',
+  need: 'text-emerald-600',
+  verdict: 'text-teal-700',
+};
 
-      const imgData = canvas.toDataURL('image/png');
-      const pdf = new jsPDF('p', 'mm', 'a4');
-      
-      const imgWidth = 210; // A4 width in mm
-      const pageHeight = 297; // A4 height in mm
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-      
-      let heightLeft = imgHeight;
-      let position = 0;
+// One finding with its citations; a citation opens the transcript at the cited turn
+const FindingItem: React.FC<{ finding: SummaryFinding; messages: ChatMessage[]; onOpenTurn: (turnIndex: number) => void }> = ({ finding, messages, onOpenTurn }) => {
+  const issue = getFindingIssue(finding, messages);
+  return (
+    <li className={`text-sm leading-relaxed ${issue ? 'pl-2 border-l-2 border-amber-400' : ''}`}>
+      <p className="text-stone-700">{finding.text}</p>
+      {finding.evidence.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-1.5">
+          {finding.evidence.map((evidence, idx) => {
+            const verified = isEvidenceVerified(messages, evidence);
+            return (
+              <button
+                key={idx}
+                onClick={() => evidence.turnIndex !== null && onOpenTurn(evidence.turnIndex)}
+                disabled={evidence.turnIndex === null}
+                title={verified ? '在逐字稿中查看' : '这段引用与逐字稿不符'}
+                className={`max-w-full text-left text-[11px] px-2 py-0.5 rounded border transition-colors disabled:cursor-not-allowed
+                  ${verified ? 'bg-stone-50 border-stone-200 text-stone-500 hover:border-emerald-400 hover:text-emerald-700' : 'bg-red-50 border-red-200 text-red-600 line-through decoration-red-300'}`}
+              >
+                <span className="font-mono mr-1">{evidence.turnIndex === null ? '#?' : `#${evidence.turnIndex}`}</span>
+                “{evidence.excerpt}”
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {issue && <p className="text-[11px] text-amber-700 mt-1">⚠ 待核实：{issue}</p>}
+    </li>
+  );
+};
 
-      // First page
-      pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-      heightLeft -= pageHeight;
+const SummaryView: React.FC<SummaryViewProps> = ({
+  summary, profile, config, messages, sources = [], studyId, guide, transcriptId, quotes, onAddQuote, onOpenQuoteBank, onOpenCoding, waves = [], onOpenWaves, onBack, onReset
+}) => {
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const [highlightTurn, setHighlightTurn] = useState<number | undefined>(undefined);
 
-      // Subsequent pages if content overflows
-      while (heightLeft > 0) {
-        position = heightLeft - imgHeight;
-        pdf.addPage();
-        pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-        heightLeft -= pageHeight;
-      }
+  const reportQuotes = quotes.filter(q => q.inReport);
+  const flaggedCount = summary.findings.filter(f => getFindingIssue(f, messages)).length;
+  const sentimentPoints = useMemo(
+    () => buildSentimentTimeline(summary.sentiment, messages, guide),
+    [summary.sentiment, messages, guide]
+  );
+
+  const openTranscript = (turnIndex?: number) => {
+    setHighlightTurn(turnIndex);
+    setIsTranscriptOpen(true);
+  };
 
-      pdf.save(`${profile.name}_访谈报告.pdf`);
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    try {
+      const report = buildInterviewReport({ summary, profile, config, messages, sources, quotes: reportQuotes, waves });
+      await EXPORT_FORMATS[format].download(report, `${toFileStem(profile.name)}_访谈报告.${format}`);
     } catch (err) {
-      console.error("PDF Generation failed", err);
-      alert("生成 PDF 失败，请重试或截图保存。");
+      console.error(`${format} export failed`, err);
+      alert(err instanceof Error ? err.message : `生成 ${EXPORT_FORMATS[format].label} 失败，请重试。`);
+    } finally {
+      setExportingFormat(null);
     }
   };
 
@@ -85,56 +138,119 @@ const SummaryView: React.FC<SummaryViewProps> = ({ summary, profile, config, mes
         
         {/* Left Column: Summary & Visuals */}
         <div className="w-full lg:w-2/3 p-8 space-y-8 bg-stone-50 border-r border-stone-200">
-             {/* Insights Grid */}
+             {/* Findings, each backed by transcript citations */}
+            {flaggedCount > 0 && (
+              <div className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2">
+                ⚠ 有 {flaggedCount} 条发现的引用未能在逐字稿中核实，已标出，请对照原文判断。
+              </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-200">
-                <h3 className="text-emerald-700 font-bold mb-3 flex items-center gap-2">
-                💡 关键洞察
-                </h3>
-                <p className="text-stone-700 text-sm leading-relaxed whitespace-pre-wrap">{summary.keyInsights}</p>
-            </div>
-            
-            <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-200">
-                <h3 className="text-red-600 font-bold mb-3 flex items-center gap-2">
-                🔥 主要痛点
-                </h3>
-                <p className="text-stone-700 text-sm leading-relaxed whitespace-pre-wrap">{summary.painPoints}</p>
+            {SUMMARY_CATEGORIES.map(category => {
+              const findings = findingsByCategory(summary, category.key);
+              return (
+                <div key={category.key} className="bg-white p-6 rounded-xl shadow-sm border border-stone-200">
+                    <h3 className={`${CATEGORY_ACCENTS[category.key]} font-bold mb-3 flex items-center gap-2`}>
+                    {category.icon} {category.title}
+                    </h3>
+                    {findings.length === 0 ? (
+                      <p className="text-stone-400 text-sm">暂无</p>
+                    ) : (
+                      <ul className="space-y-3">
+                        {findings.map((finding, idx) => (
+                          <FindingItem key={idx} finding={finding} messages={messages} onOpenTurn={openTranscript} />
+                        ))}
+                      </ul>
+                    )}
+                </div>
+              );
+            })}
             </div>
 
+            {/* Sentiment over the course of the interview */}
             <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-200">
-                <h3 className="text-emerald-600 font-bold mb-3 flex items-center gap-2">
-                🎯 核心需求
+                <h3 className="text-rose-600 font-bold mb-3 flex items-center gap-2">
+                📈 情绪曲线
                 </h3>
-                <p className="text-stone-700 text-sm leading-relaxed whitespace-pre-wrap">{summary.wantsNeeds}</p>
+                <SentimentTimeline points={sentimentPoints} onOpenTurn={openTranscript} />
             </div>
 
-            <div className="bg-white p-6 rounded-xl shadow-sm border border-stone-200">
-                <h3 className="text-teal-700 font-bold mb-3 flex items-center gap-2">
-                ⚖️ 总体评价
-                </h3>
-                <p className="text-stone-700 text-sm leading-relaxed whitespace-pre-wrap">{summary.verdict}</p>
-            </div>
+            {/* Quotes */}
+            <div className="bg-white p-4 rounded-xl shadow-sm border border-stone-200 flex items-center justify-between gap-4">
+              <div className="text-sm text-stone-600">
+                <span className="font-bold text-amber-700">❝ 引用</span>
+                <span className="ml-2">共 {quotes.length} 条，{reportQuotes.length} 条将收录到报告</span>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => openTranscript()} className="text-xs font-bold text-stone-600 border border-stone-300 hover:bg-stone-50 px-3 py-1.5 rounded-lg">
+                  查看逐字稿
+                </button>
+                <button onClick={onOpenQuoteBank} className="text-xs font-bold text-amber-800 bg-amber-50 border border-amber-200 hover:bg-amber-100 px-3 py-1.5 rounded-lg">
+                  管理引用
+                </button>
+                <button onClick={onOpenCoding} className="text-xs font-bold text-sky-800 bg-sky-50 border border-sky-200 hover:bg-sky-100 px-3 py-1.5 rounded-lg">
+                  编码分析
+                </button>
+                {onOpenWaves && (
+                  <button onClick={onOpenWaves} className="text-xs font-bold text-emerald-800 bg-emerald-50 border border-emerald-200 hover:bg-emerald-100 px-3 py-1.5 rounded-lg">
+                    {waves.length > 0 ? `纵向追踪 · ${getWaveLabel(waves.length + 1)}` : '下一期访谈'}
+                  </button>
+                )}
+              </div>
             </div>
 
             {/* Actions */}
             <div className="flex flex-col sm:flex-row gap-4 pt-4 border-t border-stone-200">
+            <div className="flex-1 flex flex-col gap-2">
             <button
-                onClick={handleDownloadPDF}
-                className="flex-1 bg-stone-800 hover:bg-stone-900 text-white font-bold py-3 px-6 rounded-lg shadow-lg flex items-center justify-center gap-2 transition-transform hover:-translate-y-0.5"
+                onClick={() => handleExport('pdf')}
+                disabled={exportingFormat !== null}
+                className="disabled:opacity-60 disabled:cursor-wait bg-stone-800 hover:bg-stone-900 text-white font-bold py-3 px-6 rounded-lg shadow-lg flex items-center justify-center gap-2 transition-transform hover:-translate-y-0.5"
             >
                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
                 </svg>
-                下载 PDF (含逐字稿)
+                {exportingFormat === 'pdf' ? '正在生成 PDF...' : '下载 PDF (含逐字稿)'}
             </button>
+            <div className="flex gap-2">
+              {(['docx', 'md'] as const).map(format => (
+                <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={exportingFormat !== null}
+                    className="flex-1 disabled:opacity-60 disabled:cursor-wait bg-white hover:bg-stone-50 text-stone-700 border border-stone-300 text-sm font-bold py-2 rounded-lg transition-colors"
+                >
+                    {exportingFormat === format ? '生成中...' : `导出 ${EXPORT_FORMATS[format].label}`}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <TranscriptExportButtons
+                studyId={studyId}
+                guide={guide}
+                sources={[{ interviewId: transcriptId, personaName: profile.name, messages }]}
+                fileStem={`${toFileStem(profile.name)}_逐字稿`}
+                className="flex-1 disabled:opacity-60 bg-white hover:bg-stone-50 text-stone-700 border border-stone-300 text-sm font-bold py-2 rounded-lg transition-colors"
+              />
+            </div>
+            </div>
             
+            <div className="flex-1 self-start w-full flex flex-col gap-2">
+            {onBack && (
+              <button
+                  onClick={onBack.onClick}
+                  className="w-full bg-emerald-800 hover:bg-emerald-900 text-white font-bold py-3 px-6 rounded-lg transition-colors"
+              >
+              {onBack.label}
+              </button>
+            )}
             <button
                 onClick={onReset}
-                className="flex-1 bg-white hover:bg-stone-50 text-stone-700 border border-stone-300 font-bold py-3 px-6 rounded-lg transition-colors"
+                className="w-full bg-white hover:bg-stone-50 text-stone-700 border border-stone-300 font-bold py-3 px-6 rounded-lg transition-colors"
             >
-                开始新的研究
+            开始新的研究
             </button>
             </div>
+            </div>
         </div>
 
         {/* Right Column: Persona Details & Scores */}
@@ -170,85 +286,17 @@ const SummaryView: React.FC<SummaryViewProps> = ({ summary, profile, config, mes
         </div>
       </div>
 
-      {/* Hidden PDF Generation Container */}
-      <div 
-        ref={printRef} 
-        className="fixed top-0 left-[-9999px] w-[800px] bg-white p-12 text-stone-900"
-      >
-        <div className="border-b-2 border-emerald-800 pb-4 mb-8">
-           <h1 className="text-3xl font-bold text-stone-900 mb-2">消费者访谈洞察报告</h1>
-           <div className="text-stone-500 flex justify-between text-sm">
-             <span>生成时间: {new Date().toLocaleDateString()}</span>
-             <span>PersonaLink AI Research</span>
-           </div>
-        </div>
-
-        <div className="grid grid-cols-2 gap-8 mb-8">
-          <div>
-            <span className="block text-xs font-bold text-stone-400 uppercase tracking-wide">行业 / 产品</span>
-            <div className="text-lg font-medium">{config.industry}</div>
-          </div>
-          <div>
-             <span className="block text-xs font-bold text-stone-400 uppercase tracking-wide">目标受众</span>
-             <div className="text-lg font-medium">{config.targetAudience}</div>
-          </div>
-          <div>
-             <span className="block text-xs font-bold text-stone-400 uppercase tracking-wide">受访者</span>
-             <div className="text-lg font-medium">{profile.name}</div>
-          </div>
-          <div>
-            {profile.scores && (
-              <div className="flex gap-2 mt-2">
-                 <span className="bg-emerald-100 text-emerald-800 text-xs px-2 py-1 rounded">人口: {profile.scores.demographics}</span>
-                 <span className="bg-emerald-100 text-emerald-800 text-xs px-2 py-1 rounded">需求: {profile.scores.needs}</span>
-              </div>
-            )}
-          </div>
-        </div>
-
-        {/* Section 1: Summary */}
-        <div className="mb-10">
-          <h2 className="text-xl font-bold text-emerald-900 bg-emerald-50 p-2 rounded mb-4">1. 总结摘要</h2>
-          
-          <div className="space-y-4">
-            <div>
-              <h3 className="font-bold text-stone-800 mb-1">关键洞察</h3>
-              <p className="text-sm text-stone-700 whitespace-pre-wrap leading-relaxed">{summary.keyInsights}</p>
-            </div>
-            <div>
-              <h3 className="font-bold text-stone-800 mb-1">痛点</h3>
-              <p className="text-sm text-stone-700 whitespace-pre-wrap leading-relaxed">{summary.painPoints}</p>
-            </div>
-             <div>
-              <h3 className="font-bold text-stone-800 mb-1">需求</h3>
-              <p className="text-sm text-stone-700 whitespace-pre-wrap leading-relaxed">{summary.wantsNeeds}</p>
-            </div>
-             <div>
-              <h3 className="font-bold text-stone-800 mb-1">总体评价</h3>
-              <p className="text-sm text-stone-700 whitespace-pre-wrap leading-relaxed">{summary.verdict}</p>
-            </div>
-          </div>
-        </div>
-
-        {/* Section 2: Transcript */}
-        <div>
-          <h2 className="text-xl font-bold text-emerald-900 bg-emerald-50 p-2 rounded mb-4">2. 访谈逐字稿</h2>
-          <div className="space-y-4">
-            {messages.map((msg, idx) => (
-              <div key={idx} className="flex gap-4">
-                 <div className="w-20 shrink-0 font-bold text-right text-xs text-stone-500 pt-1">
-                    {msg.role === 'user' ? '采访者' : profile.name}
-                 </div>
-                 <div className={`flex-1 p-3 rounded-lg text-sm leading-relaxed
-                   ${msg.role === 'user' ? 'bg-stone-100' : 'bg-white border border-stone-100'}`}>
-                    {msg.text}
-                 </div>
-              </div>
-            ))}
-          </div>
-        </div>
-
-      </div>
+      {isTranscriptOpen && (
+        <TranscriptModal
+          title={`${profile.name} · 访谈逐字稿`}
+          personaName={profile.name}
+          messages={messages}
+          interviewId={transcriptId}
+          highlightTurn={highlightTurn}
+          onAddQuote={onAddQuote}
+          onClose={() => setIsTranscriptOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { InterviewRecord, PanelMember, ResearchConfig, SynthesisQuote, SynthesisReport, SynthesisTheme } from '../types';
+import TranscriptModal from './TranscriptModal';
+import { QuoteDraft } from '../services/quotes';
+
+interface SynthesisViewProps {
+  report: SynthesisReport;
+  config: ResearchConfig;
+  interviews: InterviewRecord[];
+  members: PanelMember[];
+  isRegenerating: boolean;
+  onRegenerate: () => void;
+  onAddQuote: (draft: QuoteDraft) => void;
+  onBack: () => void;
+}
+
+const SynthesisView: React.FC<SynthesisViewProps> = ({ report, config, interviews, members, isRegenerating, onRegenerate, onAddQuote, onBack }) => {
+  const [openQuote, setOpenQuote] = useState<SynthesisQuote | null>(null);
+
+  const included = interviews.filter(i => report.interviewIds.includes(i.id));
+  const total = included.length;
+  const interviewById = (id: string) => interviews.find(i => i.id === id);
+  const avatarFor = (interviewId: string) => {
+    const memberId = interviewById(interviewId)?.memberId;
+    return members.find(m => m.id === memberId)?.profile.imageUrl;
+  };
+
+  const RespondentChips = ({ ids }: { ids: string[] }) => (
+    <div className="flex flex-wrap gap-1">
+      {ids.map(id => {
+        const interview = interviewById(id);
+        if (!interview) return null;
+        const avatar = avatarFor(id);
+        return (
+          <span key={id} className="flex items-center gap-1 bg-stone-100 text-stone-600 text-[10px] px-1.5 py-0.5 rounded-full">
+            {avatar && <img src={`data:image/png;base64,${avatar}`} alt="" className="w-3.5 h-3.5 rounded-full rendering-pixelated" />}
+            {interview.personaName}
+          </span>
+        );
+      })}
+    </div>
+  );
+
+  const Quotes = ({ quotes }: { quotes: SynthesisQuote[] }) => (
+    <div className="space-y-1 mt-2">
+      {quotes.map((quote, idx) => (
+        <button
+          key={idx}
+          onClick={() => setOpenQuote(quote)}
+          className="block w-full text-left text-xs text-stone-600 italic border-l-2 border-emerald-300 pl-2 hover:bg-emerald-50 hover:border-emerald-600 transition-colors"
+        >
+          “{quote.text}”
+          <span className="not-italic text-[10px] text-stone-400 ml-1">— {interviewById(quote.interviewId)?.personaName} #{quote.turnIndex}</span>
+        </button>
+      ))}
+    </div>
+  );
+
+  const CountBar = ({ count }: { count: number }) => (
+    <div className="flex items-center gap-2 shrink-0">
+      <div className="w-20 bg-stone-100 rounded-full h-1.5">
+        <div className="bg-emerald-600 h-1.5 rounded-full" style={{ width: `${total > 0 ? (count / total) * 100 : 0}%` }}></div>
+      </div>
+      <span className="text-xs font-bold text-stone-600">{count}/{total}</span>
+    </div>
+  );
+
+  const GroupCard: React.FC<{ group: SynthesisTheme; accent: string }> = ({ group, accent }) => (
+    <div className="bg-white p-4 rounded-xl border border-stone-200 shadow-sm">
+      <div className="flex justify-between items-start gap-4 mb-1">
+        <h4 className={`font-bold text-sm ${accent}`}>{group.title}</h4>
+        <CountBar count={group.interviewIds.length} />
+      </div>
+      {group.description && <p className="text-xs text-stone-600 mb-2">{group.description}</p>}
+      <RespondentChips ids={group.interviewIds} />
+      <Quotes quotes={group.quotes} />
+    </div>
+  );
+
+  const openInterview = openQuote ? interviewById(openQuote.interviewId) : undefined;
+
+  return (
+    <div className="max-w-6xl mx-auto flex flex-col bg-white rounded-2xl shadow-xl overflow-hidden animate-fade-in-up">
+      <div className="bg-gradient-to-r from-stone-900 to-emerald-900 p-8 text-white flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold mb-2">跨访谈综合报告</h2>
+          <p className="opacity-90">行业: {config.industry} | 受访者: {total} 位 | 生成于 {new Date(report.createdAt).toLocaleString()}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onRegenerate}
+            disabled={isRegenerating}
+            className="bg-white/10 hover:bg-white/20 px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+          >
+            {isRegenerating ? '重新分析中...' : '重新分析'}
+          </button>
+          <button onClick={onBack} className="bg-white/10 hover:bg-white/20 px-4 py-2 rounded-lg text-sm font-medium">
+            返回访谈列表
+          </button>
+        </div>
+      </div>
+
+      <div className="p-8 bg-stone-50 space-y-8">
+        <div className="bg-white p-6 rounded-xl border border-stone-200 shadow-sm">
+          <h3 className="text-emerald-800 font-bold mb-2">📌 总体结论</h3>
+          <p className="text-stone-700 text-sm leading-relaxed whitespace-pre-wrap">{report.overview}</p>
+        </div>
+
+        <section>
+          <h3 className="text-lg font-bold text-stone-800 mb-3">🧩 核心主题</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {report.themes.map((theme, idx) => <GroupCard key={idx} group={theme} accent="text-emerald-700" />)}
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-lg font-bold text-stone-800 mb-3">🔥 痛点提及频次</h3>
+          <div className="space-y-3">
+            {report.painPoints.map((point, idx) => <GroupCard key={idx} group={point} accent="text-red-600" />)}
+          </div>
+        </section>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <section>
+            <h3 className="text-lg font-bold text-stone-800 mb-3">🤝 共识</h3>
+            <div className="space-y-3">
+              {report.agreements.map((agreement, idx) => <GroupCard key={idx} group={agreement} accent="text-teal-700" />)}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-lg font-bold text-stone-800 mb-3">⚖️ 分歧</h3>
+            <div className="space-y-3">
+              {report.disagreements.map((disagreement, idx) => (
+                <div key={idx} className="bg-white p-4 rounded-xl border border-stone-200 shadow-sm">
+                  <h4 className="font-bold text-sm text-amber-700 mb-2">{disagreement.topic}</h4>
+                  <div className="space-y-3">
+                    {disagreement.positions.map((position, pIdx) => (
+                      <div key={pIdx} className="pl-3 border-l-2 border-stone-200">
+                        <div className="flex justify-between items-start gap-4 mb-1">
+                          <span className="text-xs font-semibold text-stone-700">{position.stance}</span>
+                          <CountBar count={position.interviewIds.length} />
+                        </div>
+                        <RespondentChips ids={position.interviewIds} />
+                        <Quotes quotes={position.quotes} />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        </div>
+      </div>
+
+      {openQuote && openInterview && (
+        <TranscriptModal
+          title={`${openInterview.personaName} · 访谈逐字稿`}
+          personaName={openInterview.personaName}
+          messages={openInterview.messages}
+          interviewId={openInterview.id}
+          highlightTurn={openQuote.turnIndex}
+          onAddQuote={onAddQuote}
+          onClose={() => setOpenQuote(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SynthesisView;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { DiscussionGuide } from '../types';
+import { TranscriptSource, buildTranscriptRows, exportTranscriptsCsv, exportTranscriptsXlsx } from '../services/transcriptExport';
+
+interface TranscriptExportButtonsProps {
+  studyId: string;
+  guide: DiscussionGuide;
+  sources: TranscriptSource[]; // Several interviews end up in one combined sheet
+  fileStem: string;
+  className?: string; // Button style, to match the surrounding toolbar
+}
+
+const TranscriptExportButtons: React.FC<TranscriptExportButtonsProps> = ({ studyId, guide, sources, fileStem, className }) => {
+  const turnCount = sources.reduce((sum, s) => sum + s.messages.length, 0);
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    const rows = buildTranscriptRows(studyId, guide, sources);
+    if (format === 'csv') exportTranscriptsCsv(rows, fileStem);
+    else exportTranscriptsXlsx(rows, fileStem);
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => handleExport('xlsx')}
+        disabled={turnCount === 0}
+        title={`逐字稿表格，每轮发言一行，共 ${turnCount} 行`}
+        className={className}
+      >
+        导出 Excel
+      </button>
+      <button
+        onClick={() => handleExport('csv')}
+        disabled={turnCount === 0}
+        title={`逐字稿表格，每轮发言一行，共 ${turnCount} 行`}
+        className={className}
+      >
+        导出 CSV
+      </button>
+    </>
+  );
+};
+
+export default TranscriptExportButtons;
@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from 'react';
+import { ChatMessage } from '../types';
+import QuoteSelection from './QuoteSelection';
+import StimulusCard from './StimulusCard';
+import { QuoteDraft, quoteDraftFor } from '../services/quotes';
+
+interface TranscriptModalProps {
+  title: string;
+  personaName: string;
+  messages: ChatMessage[];
+  interviewId: string;
+  highlightTurn?: number; // Turn to scroll to and highlight
+  onAddQuote: (draft: QuoteDraft) => void;
+  onClose: () => void;
+}
+
+const TranscriptModal: React.FC<TranscriptModalProps> = ({ title, personaName, messages, interviewId, highlightTurn, onAddQuote, onClose }) => {
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlightTurn]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-stone-200 flex justify-between items-center shrink-0">
+          <div>
+            <h3 className="font-bold text-stone-800">{title}</h3>
+            <p className="text-[10px] text-stone-400">选中文字可保存为引用</p>
+          </div>
+          <button onClick={onClose} className="text-stone-400 hover:text-stone-700 text-sm font-medium">关闭</button>
+        </div>
+        <QuoteSelection onSave={(selection) => onAddQuote(quoteDraftFor(interviewId, messages, personaName, selection))} className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+          {messages.map((msg, idx) => {
+            const isHighlighted = idx === highlightTurn;
+            return (
+              <div
+                key={idx}
+                ref={isHighlighted ? highlightRef : undefined}
+                className={`flex gap-3 p-2 rounded-lg transition-colors ${isHighlighted ? 'bg-amber-50 ring-2 ring-amber-300' : ''}`}
+              >
+                <span className="w-6 shrink-0 text-[10px] text-stone-300 font-mono pt-0.5">#{idx}</span>
+                <span className={`w-20 shrink-0 text-xs font-bold pt-0.5 ${msg.role === 'user' ? 'text-stone-500' : 'text-emerald-700'}`}>
+                  {msg.role === 'user' ? (msg.isAiInterviewer ? 'AI 主持人' : '采访者') : personaName}
+                </span>
+                {msg.stimulus ? (
+                  <div className="flex-1 space-y-1.5">
+                    <StimulusCard stimulus={msg.stimulus} />
+                    <span data-turn-index={idx} className="block text-stone-700 whitespace-pre-wrap leading-relaxed">{msg.text}</span>
+                  </div>
+                ) : (
+                  <span data-turn-index={idx} className="flex-1 text-stone-700 whitespace-pre-wrap leading-relaxed">{msg.text}</span>
+                )}
+              </div>
+            );
+          })}
+        </QuoteSelection>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptModal;
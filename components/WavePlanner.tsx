@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { ChatMessage, InterviewSummary, InterviewWave, WaveMemory } from '../types';
+import TranscriptModal from './TranscriptModal';
+import { MAIN_INTERVIEW_ID, QuoteDraft } from '../services/quotes';
+import { averageSentiment } from '../services/sentiment';
+import { WAVE_EVENT_PRESETS, getWaveLabel } from '../services/waves';
+
+interface WavePlannerProps {
+  personaName: string;
+  waves: InterviewWave[];
+  currentEvents: string;
+  currentMessages: ChatMessage[];
+  currentSummary: InterviewSummary | null;
+  isPreparing: boolean; // The current wave's memory is being written
+  onStartNextWave: (events: string) => void;
+  onAddQuote: (draft: QuoteDraft) => void;
+  onClose: () => void;
+}
+
+const MemoryList: React.FC<{ title: string; items: string[] }> = ({ title, items }) =>
+  items.length > 0 ? (
+    <div>
+      <p className="text-[11px] font-bold text-stone-500">{title}</p>
+      <ul className="list-disc list-inside text-xs text-stone-700 space-y-0.5">
+        {items.map((item, i) => <li key={i}>{item}</li>)}
+      </ul>
+    </div>
+  ) : null;
+
+// One wave on the timeline: what happened before it, how it went and what the persona carries forward
+const WaveCard: React.FC<{
+  label: string;
+  events: string;
+  summary: InterviewSummary | null;
+  memory?: WaveMemory; // Absent for the current wave, whose memory is written when the next one starts
+  date?: Date;
+  isCurrent?: boolean;
+  onOpenTranscript: () => void;
+}> = ({ label, events, summary, memory, date, isCurrent = false, onOpenTranscript }) => {
+  const average = summary ? averageSentiment(summary.sentiment) : null;
+  const verdicts = summary?.findings.filter(f => f.category === 'verdict') || [];
+
+  return (
+    <div className={`relative pl-6 pb-5 border-l-2 ${isCurrent ? 'border-emerald-500' : 'border-stone-200'}`}>
+      <span className={`absolute -left-[7px] top-1 w-3 h-3 rounded-full ${isCurrent ? 'bg-emerald-600' : 'bg-stone-300'}`} />
+      {events && (
+        <p className="text-xs text-amber-800 bg-amber-50 border border-amber-200 rounded px-2 py-1 mb-2">⏳ 期间：{events}</p>
+      )}
+      <div className="flex justify-between items-baseline">
+        <h4 className="font-bold text-stone-800">
+          {label}{isCurrent && <span className="ml-2 text-[10px] font-medium text-emerald-700">本期</span>}
+          {date && <span className="ml-2 text-[11px] font-normal text-stone-400">{date.toLocaleDateString()}</span>}
+        </h4>
+        <div className="flex items-center gap-3 text-xs">
+          {average !== null && (
+            <span className="text-stone-500">
+              平均情绪 <span className={`font-mono font-bold ${average < 0 ? 'text-red-600' : 'text-emerald-700'}`}>{average > 0 ? '+' : ''}{average.toFixed(1)}</span>
+            </span>
+          )}
+          <button onClick={onOpenTranscript} className="font-semibold text-emerald-700 hover:underline">逐字稿</button>
+        </div>
+      </div>
+      {verdicts.map((finding, i) => (
+        <p key={i} className="text-sm text-stone-700 mt-1">{finding.text}</p>
+      ))}
+      {memory && (
+        <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <MemoryList title="感受" items={memory.feelings} />
+          <MemoryList title="打算" items={memory.intentions} />
+          <MemoryList title="个人情况" items={memory.facts} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const WavePlanner: React.FC<WavePlannerProps> = ({
+  personaName,
+  waves,
+  currentEvents,
+  currentMessages,
+  currentSummary,
+  isPreparing,
+  onStartNextWave,
+  onAddQuote,
+  onClose
+}) => {
+  const [events, setEvents] = useState('');
+  const [openTranscript, setOpenTranscript] = useState<{ title: string; interviewId: string; messages: ChatMessage[] } | null>(null);
+
+  const currentNumber = waves.length + 1;
+  const addPreset = (preset: string) => setEvents(prev => prev.trim() ? `${prev.trim()}；${preset}` : preset);
+
+  return (
+    <>
+      <div className="fixed inset-0 z-50 bg-stone-900/60 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+        <div
+          className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="p-4 border-b border-stone-200 shrink-0 flex justify-between items-center">
+            <div>
+              <h3 className="font-bold text-stone-800">纵向追踪 · {personaName}</h3>
+              <p className="text-[11px] text-stone-400">多期访谈同一位受访者：TA 会记得之前说过的话，并经历您设定的事件</p>
+            </div>
+            <button onClick={onClose} className="text-stone-400 hover:text-stone-700 text-sm font-medium">关闭</button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-5">
+            {waves.map(wave => (
+              <WaveCard
+                key={wave.id}
+                label={getWaveLabel(wave.number)}
+                events={wave.events}
+                summary={wave.summary}
+                memory={wave.memory}
+                date={wave.completedAt}
+                onOpenTranscript={() => setOpenTranscript({ title: `${getWaveLabel(wave.number)}逐字稿`, interviewId: wave.id, messages: wave.messages })}
+              />
+            ))}
+            <WaveCard
+              label={getWaveLabel(currentNumber)}
+              events={currentEvents}
+              summary={currentSummary}
+              isCurrent
+              onOpenTranscript={() => setOpenTranscript({ title: `${getWaveLabel(currentNumber)}逐字稿`, interviewId: MAIN_INTERVIEW_ID, messages: currentMessages })}
+            />
+
+            <div className="mt-2 p-4 rounded-xl border border-dashed border-emerald-300 bg-emerald-50/40 space-y-3">
+              <p className="text-sm font-bold text-emerald-900">到{getWaveLabel(currentNumber + 1)}访谈之前，发生了什么？</p>
+              <textarea
+                value={events}
+                onChange={(e) => setEvents(e.target.value)}
+                rows={3}
+                placeholder="例如：过了三个月，品牌推出了带自动清洁的新款，价格比旧款贵 30%"
+                className="w-full px-3 py-2 rounded border border-stone-300 text-sm text-stone-900 focus:ring-1 focus:ring-emerald-600 outline-none"
+              />
+              <div className="flex flex-wrap gap-1.5">
+                {WAVE_EVENT_PRESETS.map(preset => (
+                  <button
+                    key={preset}
+                    onClick={() => addPreset(preset)}
+                    className="px-2 py-0.5 rounded-full text-[11px] border border-stone-200 bg-white text-stone-600 hover:border-emerald-400"
+                  >
+                    + {preset}
+                  </button>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <button
+                  onClick={() => onStartNextWave(events)}
+                  disabled={isPreparing || currentMessages.length === 0}
+                  className="px-4 py-2 rounded-lg text-sm font-bold bg-emerald-800 text-white hover:bg-emerald-900 disabled:opacity-50"
+                >
+                  {isPreparing ? '整理本期记忆中...' : `开始${getWaveLabel(currentNumber + 1)}访谈`}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {openTranscript && (
+        <TranscriptModal
+          title={openTranscript.title}
+          personaName={personaName}
+          messages={openTranscript.messages}
+          interviewId={openTranscript.interviewId}
+          onAddQuote={onAddQuote}
+          onClose={() => setOpenTranscript(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default WavePlanner;
@@ -0,0 +1,173 @@
+import { ChatMessage, DiscussionGuide, InterviewRecord, InterviewRunStatus, PanelMember } from "../types";
+import { buildQuestionParts, createInterviewSession, getAIInterviewerNextQuestion, getUnansweredQuestions, INTRO_PROMPT, isRateLimitError } from "./geminiService";
+import { getOpenMustAsk, matchGuideCoverage, pickForcedMustAsk } from "./guideCoverage";
+
+export interface BatchRunOptions {
+  concurrency?: number; // Interviews running side by side
+  maxQuestions?: number; // Safety cap per interview in case the moderator never finishes
+  minIntervalMs?: number; // Minimum spacing between any two model calls across all workers
+  signal?: AbortSignal;
+  onUpdate: (record: InterviewRecord) => void;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_QUESTIONS = 20;
+const DEFAULT_MIN_INTERVAL_MS = 1500;
+const RATE_LIMIT_BACKOFF_MS = 8000;
+const MAX_RATE_LIMIT_RETRIES = 4;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Shared pacing for all workers: calls are spaced out, and a 429 anywhere
+ * pauses every worker instead of each one hammering the API on its own.
+ */
+export const createRateGate = (minIntervalMs: number) => {
+  let nextSlot = 0;
+
+  const wait = async () => {
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + minIntervalMs;
+    if (slot > now) await sleep(slot - now);
+  };
+
+  const backoff = (attempt: number) => {
+    nextSlot = Math.max(nextSlot, Date.now() + RATE_LIMIT_BACKOFF_MS * 2 ** attempt);
+  };
+
+  const call = async <T>(operation: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await wait();
+      try {
+        return await operation();
+      } catch (err) {
+        if (!isRateLimitError(err) || attempt >= MAX_RATE_LIMIT_RETRIES) throw err;
+        console.warn(`Batch rate limited, pausing all interviews (attempt ${attempt + 1})`);
+        backoff(attempt);
+      }
+    }
+  };
+
+  return { call };
+};
+
+/**
+ * Work through every unfinished item with `concurrency` workers. runOne reports progress
+ * through the update it is given; items still queued when the signal aborts are cancelled.
+ * Resolves to all items, in their original order, as last reported.
+ */
+export const runWorkerPool = async <T extends { id: string; status: InterviewRunStatus }>(
+  items: T[],
+  concurrency: number,
+  signal: AbortSignal | undefined,
+  onUpdate: (item: T) => void,
+  runOne: (item: T, update: (item: T) => void) => Promise<void>
+): Promise<T[]> => {
+  const results = new Map<string, T>(items.map(item => [item.id, item]));
+  const queue = items.filter(item => item.status !== 'done');
+
+  const update = (item: T) => {
+    results.set(item.id, item);
+    onUpdate(item);
+  };
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      if (signal?.aborted) {
+        update({ ...next, status: 'cancelled' });
+        continue;
+      }
+      await runOne(next, update);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker));
+  return items.map(item => results.get(item.id)!);
+};
+
+export const createInterviewRecords = (members: PanelMember[]): InterviewRecord[] =>
+  members.map(member => ({
+    id: `i-${member.id}`,
+    memberId: member.id,
+    personaName: member.profile.name,
+    status: 'queued',
+    messages: []
+  }));
+
+/**
+ * Run the AI moderator loop against every panel member.
+ * Interrupted interviews carry on from their saved transcript.
+ * Records are reported through onUpdate after every turn so the UI can show live progress.
+ */
+export const runBatchInterviews = async (
+  members: PanelMember[],
+  records: InterviewRecord[],
+  guide: DiscussionGuide,
+  industry: string,
+  options: BatchRunOptions
+): Promise<InterviewRecord[]> => {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    maxQuestions = DEFAULT_MAX_QUESTIONS,
+    minIntervalMs = DEFAULT_MIN_INTERVAL_MS,
+    signal,
+    onUpdate
+  } = options;
+
+  const gate = createRateGate(minIntervalMs);
+
+  return runWorkerPool(records, concurrency, signal, onUpdate, async (initial, update) => {
+    const member = members.find(m => m.id === initial.memberId);
+    if (!member) {
+      update({ ...initial, status: 'failed', error: '受访者已从样本组移除' });
+      return;
+    }
+
+    let record: InterviewRecord = { ...initial, status: 'running', error: undefined, startedAt: initial.startedAt || new Date() };
+    update(record);
+
+    const push = (message: ChatMessage) => {
+      record = { ...record, messages: [...record.messages, message] };
+      update(record);
+    };
+
+    try {
+      const session = createInterviewSession(member.profile, industry, record.messages);
+      const forcedMustAsk = new Set<string>();
+      if (record.messages.length === 0) {
+        push({ role: 'model', text: await gate.call(() => session.sendMessage(INTRO_PROMPT)) || "你好。", timestamp: new Date() });
+      } else {
+        // Stopped while waiting for an answer; the rebuilt session has not seen the question yet
+        const unanswered = getUnansweredQuestions(record.messages);
+        if (unanswered.length > 0) {
+          const answer = await gate.call(() => session.sendMessage(unanswered.flatMap(q => buildQuestionParts(q.text, q.stimulus))));
+          push({ role: 'model', text: answer || "...", timestamp: new Date() });
+        }
+      }
+
+      for (let asked = record.messages.filter(m => m.role === 'user').length; asked < maxQuestions; asked++) {
+        if (signal?.aborted) break;
+        // Coverage by transcript matching only, to keep the batch's request count down
+        const coverage = matchGuideCoverage(guide, record.messages);
+        let question = await gate.call(() => getAIInterviewerNextQuestion(record.messages, guide, member.profile, getOpenMustAsk(guide, coverage), 0));
+        if (!question) {
+          const forced = pickForcedMustAsk(guide, coverage, forcedMustAsk);
+          if (!forced) break;
+          forcedMustAsk.add(forced.id);
+          question = forced.text;
+        }
+        push({ role: 'user', text: question, timestamp: new Date(), isAiInterviewer: true });
+
+        const answer = await gate.call(() => session.sendMessage(question));
+        push({ role: 'model', text: answer || "...", timestamp: new Date() });
+      }
+
+      update({ ...record, status: signal?.aborted ? 'cancelled' : 'done', finishedAt: new Date() });
+    } catch (err: any) {
+      console.error(`Batch interview with ${member.profile.name} failed`, err);
+      update({ ...record, status: 'failed', error: err?.message || String(err), finishedAt: new Date() });
+    }
+  });
+};
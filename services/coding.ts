@@ -0,0 +1,105 @@
+import { CodeAssignment, CodeAssignmentStatus, CodebookCode } from "../types";
+import { GUIDE_DIMENSIONS } from "./guide";
+import { TranscriptSource } from "./transcriptExport";
+
+export const createCodingId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createCode = (name = "", description = ""): CodebookCode => ({
+  id: createCodingId("code"),
+  name,
+  description
+});
+
+/**
+ * Codes for the default research dimensions (the ones the guide generator covers)
+ * that the codebook does not have yet, matched by name.
+ */
+export const missingDimensionCodes = (codebook: CodebookCode[]): CodebookCode[] => {
+  const names = new Set(codebook.map(code => code.name.trim()));
+  return GUIDE_DIMENSIONS
+    .filter(dim => !names.has(dim.title))
+    .map(dim => createCode(dim.title, dim.desc));
+};
+
+export interface CodeProposal {
+  codeId: string;
+  turnIndex: number;
+  rationale: string;
+}
+
+const sameTarget = (a: Pick<CodeAssignment, 'codeId' | 'interviewId' | 'turnIndex'>, b: Pick<CodeAssignment, 'codeId' | 'interviewId' | 'turnIndex'>) =>
+  a.codeId === b.codeId && a.interviewId === b.interviewId && a.turnIndex === b.turnIndex;
+
+/**
+ * Apply a code to a turn by hand. Overrides an auto-coding proposal or rejection for
+ * the same code and turn instead of adding a duplicate.
+ */
+export const assignCode = (assignments: CodeAssignment[], target: { codeId: string; interviewId: string; turnIndex: number }): CodeAssignment[] => {
+  const existing = assignments.find(a => sameTarget(a, target));
+  if (existing) {
+    return assignments.map(a => a === existing ? { ...a, status: 'accepted' } : a);
+  }
+  return [...assignments, { ...target, id: createCodingId("ca"), origin: 'manual', status: 'accepted', createdAt: new Date() }];
+};
+
+export const setAssignmentStatus = (assignments: CodeAssignment[], ids: string[], status: CodeAssignmentStatus): CodeAssignment[] =>
+  assignments.map(a => ids.includes(a.id) ? { ...a, status } : a);
+
+/**
+ * Replace a transcript's open proposals with a fresh auto-coding pass. Decisions already
+ * made (accepted or rejected, by hand or from an earlier pass) are kept and not re-proposed.
+ */
+export const mergeProposals = (assignments: CodeAssignment[], interviewId: string, proposals: CodeProposal[]): CodeAssignment[] => {
+  const kept = assignments.filter(a => !(a.interviewId === interviewId && a.status === 'proposed'));
+  const added = proposals
+    .filter(p => !kept.some(a => sameTarget(a, { ...p, interviewId })))
+    .map((p): CodeAssignment => ({
+      id: createCodingId("ca"),
+      codeId: p.codeId,
+      interviewId,
+      turnIndex: p.turnIndex,
+      origin: 'ai',
+      status: 'proposed',
+      rationale: p.rationale || undefined,
+      createdAt: new Date()
+    }));
+  return [...kept, ...added];
+};
+
+export interface CodeFrequencyRow {
+  code: CodebookCode;
+  counts: number[]; // Coded turns per transcript, in column order
+  total: number;
+  transcriptCount: number; // Transcripts with at least one coded turn
+}
+
+export interface CodeFrequencyMatrix {
+  columns: TranscriptSource[];
+  rows: CodeFrequencyRow[];
+}
+
+/**
+ * Accepted codes per transcript, counted in turns. Proposals and rejections do not count.
+ */
+export const buildCodeFrequencyMatrix = (
+  codebook: CodebookCode[],
+  assignments: CodeAssignment[],
+  transcripts: TranscriptSource[]
+): CodeFrequencyMatrix => {
+  const accepted = assignments.filter(a => a.status === 'accepted');
+  return {
+    columns: transcripts,
+    rows: codebook.map(code => {
+      const counts = transcripts.map(t =>
+        accepted.filter(a => a.codeId === code.id && a.interviewId === t.interviewId).length
+      );
+      return {
+        code,
+        counts,
+        total: counts.reduce((sum, n) => sum + n, 0),
+        transcriptCount: counts.filter(n => n > 0).length
+      };
+    })
+  };
+};
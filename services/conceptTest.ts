@@ -0,0 +1,166 @@
+import { ConceptMetric, ConceptRating, ConceptRespondent, ConceptRotation, ConceptTest, ConceptTestDesign, ConceptTestRun, Stimulus } from "../types";
+
+export const MIN_CONCEPTS = 2;
+export const MAX_CONCEPTS = 5;
+
+export const CONCEPT_SCORE_MIN = 1;
+export const CONCEPT_SCORE_MAX = 5;
+
+// Scores at or above this count towards the top-two-box share
+const TOP_BOX_THRESHOLD = 4;
+
+// Rating scales, in the order they are asked and shown
+export const CONCEPT_METRICS: { key: ConceptMetric; label: string; low: string; high: string }[] = [
+  { key: 'purchaseIntent', label: "购买意向", low: "肯定不会买", high: "肯定会买" },
+  { key: 'appeal', label: "吸引力", low: "完全不吸引我", high: "非常吸引我" },
+  { key: 'uniqueness', label: "独特性", low: "和现有产品没区别", high: "非常与众不同" },
+  { key: 'believability', label: "可信度", low: "完全不相信它能做到", high: "完全相信" },
+];
+
+export const CONCEPT_DESIGNS: { key: ConceptTestDesign; label: string; description: string }[] = [
+  { key: 'monadic', label: "单一评估 (Monadic)", description: "每个概念都在一场全新的访谈中单独评估，受访者看不到其他概念，评分互不干扰。" },
+  { key: 'sequential', label: "序列单一评估 (Sequential Monadic)", description: "每位受访者在同一场访谈中依次评估全部概念，展示顺序在受访者之间轮换以抵消顺序效应。" },
+];
+
+export const CONCEPT_ROTATIONS: { key: ConceptRotation; label: string; description: string }[] = [
+  { key: 'balanced', label: "平衡轮换", description: "拉丁方设计：每个概念出现在每个位置的次数相同，且每个概念紧跟在其他概念之后的次数也相同。" },
+  { key: 'random', label: "随机顺序", description: "每位受访者的展示顺序随机打乱。" },
+  { key: 'fixed', label: "固定顺序", description: "所有受访者按同一顺序看，顺序效应无法抵消，仅用于对照。" },
+];
+
+export const CONCEPT_FIRST_QUESTION = "接下来想请你看一个新产品的概念。请仔细看看，说说你的第一感觉：喜欢什么，不喜欢什么？";
+export const CONCEPT_NEXT_QUESTION = "我们再来看另一个概念。同样请说说你的第一感觉：喜欢什么，不喜欢什么？";
+
+// Same wording for every concept, so the scores are comparable
+export const CONCEPT_RATING_QUESTION = [
+  `请给刚才这个概念打几个分，每项 ${CONCEPT_SCORE_MIN}-${CONCEPT_SCORE_MAX} 分，并各用一句话说说为什么：`,
+  ...CONCEPT_METRICS.map((m, i) => `${i + 1}. ${m.label}：${CONCEPT_SCORE_MIN} 分 = ${m.low}，${CONCEPT_SCORE_MAX} 分 = ${m.high}`)
+].join("\n");
+
+export const getMetricLabel = (metric: ConceptMetric) =>
+  CONCEPT_METRICS.find(m => m.key === metric)?.label || metric;
+
+export const clampConceptScore = (score: number) =>
+  Math.max(CONCEPT_SCORE_MIN, Math.min(CONCEPT_SCORE_MAX, Math.round(score)));
+
+// Concepts are called A, B, C... in the order they were added
+export const getConceptLetter = (test: ConceptTest, conceptId: string) => {
+  const index = test.concepts.findIndex(c => c.id === conceptId);
+  return index >= 0 ? String.fromCharCode(65 + index) : "?";
+};
+
+/**
+ * Row `row` of a Williams design over n items: a Latin square in which every item also
+ * follows every other item equally often. Odd n needs the mirrored square too, so the
+ * rows repeat every n (even) or 2n (odd) respondents.
+ */
+const williamsRow = (n: number, row: number): number[] => {
+  const base = Array.from({ length: n }, (_, j) => j === 0 ? 0 : j % 2 === 1 ? (j + 1) / 2 : n - j / 2);
+  const cycle = row % (n % 2 === 0 ? n : 2 * n);
+  const order = base.map(item => (item + cycle) % n);
+  return cycle >= n ? order.reverse() : order;
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+/**
+ * The order each of `count` respondents sees the concepts in.
+ */
+export const buildConceptOrders = (conceptIds: string[], count: number, rotation: ConceptRotation): string[][] =>
+  Array.from({ length: count }, (_, i) => {
+    switch (rotation) {
+      case 'balanced':
+        return williamsRow(conceptIds.length, i).map(index => conceptIds[index]);
+      case 'random':
+        return shuffle(conceptIds);
+      case 'fixed':
+        return [...conceptIds];
+    }
+  });
+
+const createRunId = () => `ct-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const createRun = (respondent: ConceptRespondent, conceptIds: string[]): ConceptTestRun => ({
+  id: createRunId(),
+  ...(respondent.memberId ? { memberId: respondent.memberId } : {}),
+  personaName: respondent.profile.name,
+  conceptIds,
+  status: 'queued',
+  messages: [],
+  ratings: []
+});
+
+/**
+ * Plan a concept test: one run per respondent (sequential monadic), or one run per
+ * respondent and concept (monadic). Monadic runs are queued round by round, each round
+ * giving every respondent a different concept, so a test stopped early stays balanced;
+ * `rotation` only orders sequential tests and is ignored for monadic ones.
+ */
+export const createConceptTest = (
+  concepts: Stimulus[],
+  design: ConceptTestDesign,
+  rotation: ConceptRotation,
+  respondents: ConceptRespondent[]
+): ConceptTest => {
+  const ids = concepts.map(c => c.id);
+  const runs = design === 'sequential'
+    ? buildConceptOrders(ids, respondents.length, rotation).map((order, i) => createRun(respondents[i], order))
+    : ids.flatMap((_, round) => respondents.map((respondent, i) => createRun(respondent, [ids[(i + round) % ids.length]])));
+  return { design, rotation, concepts, respondents, runs, createdAt: new Date() };
+};
+
+// One respondent's ratings of a concept, for the reasons list
+export interface ConceptRatingEntry {
+  runId: string;
+  personaName: string;
+  rating: ConceptRating;
+}
+
+export interface ConceptMetricStats {
+  mean: number | null;
+  topTwoBox: number | null; // Share of 4-5 scores, 0-1
+  firstMean: number | null; // Rated when shown first, so untouched by the other concepts
+  laterMean: number | null; // Rated after at least one other concept
+}
+
+export interface ConceptResult {
+  concept: Stimulus;
+  letter: string;
+  ratings: ConceptRatingEntry[];
+  metrics: Record<ConceptMetric, ConceptMetricStats>;
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * Per-concept averages and top-two-box shares over every rating collected so far,
+ * with first-position and later-position means to show order effects.
+ */
+export const summarizeConceptTest = (test: ConceptTest): ConceptResult[] =>
+  test.concepts.map(concept => {
+    const ratings = test.runs.flatMap(run =>
+      run.ratings
+        .filter(rating => rating.conceptId === concept.id)
+        .map(rating => ({ runId: run.id, personaName: run.personaName, rating }))
+    );
+    const metrics = Object.fromEntries(CONCEPT_METRICS.map(({ key }) => {
+      const scores = ratings.map(entry => entry.rating.scores[key].score);
+      const at = (first: boolean) =>
+        mean(ratings.filter(entry => (entry.rating.position === 1) === first).map(entry => entry.rating.scores[key].score));
+      return [key, {
+        mean: mean(scores),
+        topTwoBox: scores.length > 0 ? scores.filter(s => s >= TOP_BOX_THRESHOLD).length / scores.length : null,
+        firstMean: at(true),
+        laterMean: at(false)
+      }];
+    })) as Record<ConceptMetric, ConceptMetricStats>;
+    return { concept, letter: getConceptLetter(test, concept.id), ratings, metrics };
+  });
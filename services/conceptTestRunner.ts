@@ -0,0 +1,81 @@
+import { ChatMessage, ConceptTest, ConceptTestRun, Stimulus } from "../types";
+import { buildQuestionParts, createInterviewSession, extractConceptScores, INTRO_PROMPT } from "./geminiService";
+import { createRateGate, runWorkerPool } from "./batchRunner";
+import { CONCEPT_FIRST_QUESTION, CONCEPT_NEXT_QUESTION, CONCEPT_RATING_QUESTION } from "./conceptTest";
+
+export interface ConceptTestRunOptions {
+  concurrency?: number; // Sessions running side by side
+  minIntervalMs?: number; // Minimum spacing between any two model calls across all workers
+  signal?: AbortSignal;
+  onUpdate: (run: ConceptTestRun) => void;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MIN_INTERVAL_MS = 1500;
+
+/**
+ * Show every run's concepts in its planned order and collect the ratings. Each run is a
+ * fresh interview session, so in monadic tests no respondent sees more than one concept.
+ * Runs are reported through onUpdate after every turn so the UI can show live progress.
+ */
+export const runConceptTest = async (
+  test: ConceptTest,
+  industry: string,
+  options: ConceptTestRunOptions
+): Promise<ConceptTestRun[]> => {
+  const {
+    concurrency = DEFAULT_CONCURRENCY,
+    minIntervalMs = DEFAULT_MIN_INTERVAL_MS,
+    signal,
+    onUpdate
+  } = options;
+
+  const gate = createRateGate(minIntervalMs);
+
+  return runWorkerPool(test.runs, concurrency, signal, onUpdate, async (initial, update) => {
+    // Respondents were fixed when the test was planned, so later panel changes don't affect it
+    const respondent = test.respondents.find(r => r.memberId === initial.memberId);
+    if (!respondent) {
+      update({ ...initial, status: 'failed', error: '找不到这位受访者的画像' });
+      return;
+    }
+
+    // An interrupted run starts over, so no concept is rated by a session that lost its context
+    let run: ConceptTestRun = { ...initial, status: 'running', messages: [], ratings: [], error: undefined, startedAt: new Date() };
+    update(run);
+
+    const push = (message: ChatMessage) => {
+      run = { ...run, messages: [...run.messages, message] };
+      update(run);
+    };
+
+    try {
+      const session = createInterviewSession(respondent.profile, industry);
+      const ask = async (text: string, stimulus?: Stimulus) => {
+        push({ role: 'user', text, timestamp: new Date(), isAiInterviewer: true, ...(stimulus ? { stimulus } : {}) });
+        const answer = await gate.call(() => session.sendMessage(buildQuestionParts(text, stimulus))) || "...";
+        push({ role: 'model', text: answer, timestamp: new Date() });
+        return answer;
+      };
+
+      push({ role: 'model', text: await gate.call(() => session.sendMessage(INTRO_PROMPT)) || "你好。", timestamp: new Date() });
+
+      for (const [index, conceptId] of run.conceptIds.entries()) {
+        if (signal?.aborted) break;
+        const concept = test.concepts.find(c => c.id === conceptId);
+        if (!concept) continue;
+
+        const reaction = await ask(index === 0 ? CONCEPT_FIRST_QUESTION : CONCEPT_NEXT_QUESTION, concept);
+        const ratingAnswer = await ask(CONCEPT_RATING_QUESTION);
+        const scores = await gate.call(() => extractConceptScores(respondent.profile, concept, reaction, ratingAnswer, 0));
+        run = { ...run, ratings: [...run.ratings, { conceptId, position: index + 1, scores }] };
+        update(run);
+      }
+
+      update({ ...run, status: signal?.aborted ? 'cancelled' : 'done', finishedAt: new Date() });
+    } catch (err: any) {
+      console.error(`Concept test with ${respondent.profile.name} failed`, err);
+      update({ ...run, status: 'failed', error: err?.message || String(err), finishedAt: new Date() });
+    }
+  });
+};
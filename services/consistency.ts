@@ -0,0 +1,57 @@
+import { ChatMessage, ConsistencyIssue, ConsistencyIssueKind } from "../types";
+
+export const CONSISTENCY_KIND_LABELS: Record<ConsistencyIssueKind, string> = {
+  profile: "与画像矛盾",
+  self: "与前文矛盾",
+  assistant: "助手口吻",
+};
+
+// Phrases a consumer would not say but a chat assistant would; caught without a model call
+const ASSISTANT_SLIP_PATTERNS = [
+  /作为(一个|一名)?\s*(AI|人工智能|语言模型|助手)/i,
+  /我是(一个|一名)?\s*(AI|人工智能|语言模型|虚拟助手)/i,
+  /(有什么|还有什么)(可以|能)(帮|为)(您|你)/,
+  /希望(以上|这些)?(信息|回答|建议)?(对您|对你)有(所)?帮助/,
+  /以下是.{0,10}(建议|要点|总结)[:：]/,
+];
+
+/**
+ * An assistant-like slip in a reply, found by pattern rather than by the model.
+ */
+export const detectAssistantSlip = (text: string): ConsistencyIssue | null => {
+  const match = ASSISTANT_SLIP_PATTERNS.map(pattern => text.match(pattern)).find(Boolean);
+  return match ? { kind: 'assistant', description: `出现了助手式表达“${match[0]}”` } : null;
+};
+
+/**
+ * Copy consistency results (keyed by turn index) onto the messages they belong to.
+ */
+export const attachConsistency = (messages: ChatMessage[], checks: Record<number, ConsistencyIssue[]>): ChatMessage[] =>
+  messages.map((msg, idx) => checks[idx] ? { ...msg, consistencyIssues: checks[idx] } : msg);
+
+export const collectConsistency = (messages: ChatMessage[]): Record<number, ConsistencyIssue[]> => {
+  const checks: Record<number, ConsistencyIssue[]> = {};
+  messages.forEach((msg, idx) => {
+    if (msg.consistencyIssues) checks[idx] = msg.consistencyIssues;
+  });
+  return checks;
+};
+
+export interface ConsistencySummary {
+  checked: number; // Persona replies that went through the check
+  flagged: number;
+  score: number | null; // 0-100, share of checked replies that stayed in character; null when none were checked
+}
+
+export const summarizeConsistency = (messages: ChatMessage[]): ConsistencySummary => {
+  const checked = messages.filter(m => m.role === 'model' && m.consistencyIssues);
+  const flagged = checked.filter(m => m.consistencyIssues!.length > 0).length;
+  return {
+    checked: checked.length,
+    flagged,
+    score: checked.length > 0 ? Math.round(100 * (checked.length - flagged) / checked.length) : null
+  };
+};
+
+export const formatConsistencyIssue = (issue: ConsistencyIssue): string =>
+  `${CONSISTENCY_KIND_LABELS[issue.kind]}：${issue.description}${issue.conflictTurn !== undefined ? `（对照 #${issue.conflictTurn}）` : ""}`;
@@ -0,0 +1,69 @@
+const DB_NAME = "personalink";
+const DB_VERSION = 2;
+
+export const PROJECTS_STORE = "projects";
+export const PERSONA_LIBRARY_STORE = "personaLibrary"; // Added in v2
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and lazily upgrade) the app's IndexedDB database.
+ * The connection is shared across all stores.
+ */
+export const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+        const store = db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+      if (!db.objectStoreNames.contains(PERSONA_LIBRARY_STORE)) {
+        const store = db.createObjectStore(PERSONA_LIBRARY_STORE, { keyPath: "id" });
+        store.createIndex("savedAt", "savedAt");
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const dbGet = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDb();
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  return requestToPromise<T | undefined>(store.get(key));
+};
+
+export const dbGetAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDb();
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  return requestToPromise<T[]>(store.getAll());
+};
+
+export const dbPut = async <T>(storeName: string, value: T): Promise<void> => {
+  const db = await openDb();
+  const store = db.transaction(storeName, "readwrite").objectStore(storeName);
+  await requestToPromise(store.put(value));
+};
+
+export const dbDelete = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  const store = db.transaction(storeName, "readwrite").objectStore(storeName);
+  await requestToPromise(store.delete(key));
+};
@@ -0,0 +1,147 @@
+import { AlignmentType, BorderStyle, Document, ExternalHyperlink, Footer, HeadingLevel, ImageRun, Packer, PageNumber, Paragraph, TextRun } from "docx";
+import { ReportBlock, ReportDocument, TranscriptStimulus, formatTurnTime } from "./report";
+import { downloadBlob } from "./download";
+
+// Word picks these if installed and falls back to its own East Asian font otherwise
+const FONT = { ascii: "Calibri", hAnsi: "Calibri", eastAsia: "Microsoft YaHei" };
+const ACCENT = "065F46";
+const MUTED = "78716C";
+
+// Sizes are in half-points
+const BODY_SIZE = 21;
+const SMALL_SIZE = 17;
+
+// One run per line, joined by line breaks, so multi-line answers keep their shape
+const textRuns = (text: string, options: { color?: string; size?: number; italics?: boolean } = {}): TextRun[] =>
+  text.split("\n").map(line => line.trim()).filter(Boolean)
+    .map((line, idx) => new TextRun({ text: line, break: idx > 0 ? 1 : undefined, ...options }));
+
+const fieldParagraph = (label: string, value: string) =>
+  new Paragraph({
+    spacing: { after: 60 },
+    children: [new TextRun({ text: `${label}：`, bold: true, color: MUTED }), ...textRuns(value || "—")]
+  });
+
+// Longest edge of a stimulus thumbnail on the page, in pixels
+const STIMULUS_IMAGE_SIZE = 200;
+
+// Shown above the question it was presented with, indented like a quote
+const stimulusParagraphs = (stimulus: TranscriptStimulus): Paragraph[] => {
+  const image = stimulus.image;
+  const scale = image ? Math.min(1, STIMULUS_IMAGE_SIZE / Math.max(image.width, image.height)) : 1;
+  return [
+    new Paragraph({
+      keepNext: true,
+      indent: { left: 360 },
+      spacing: { before: 160 },
+      children: [new TextRun({ text: stimulus.label, bold: true, color: MUTED, size: SMALL_SIZE })]
+    }),
+    ...(image ? [new Paragraph({
+      keepNext: true,
+      indent: { left: 360 },
+      children: [new ImageRun({
+        type: "jpg",
+        data: Uint8Array.from(atob(image.data), c => c.charCodeAt(0)),
+        transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) }
+      })]
+    })] : []),
+    ...(stimulus.text ? [new Paragraph({
+      keepNext: true,
+      indent: { left: 360 },
+      border: { left: { style: BorderStyle.SINGLE, size: 12, color: "D6D3D1", space: 8 } },
+      children: textRuns(stimulus.text, { color: MUTED })
+    })] : [])
+  ];
+};
+
+const renderBlock = (block: ReportBlock): Paragraph[] => {
+  switch (block.type) {
+    case 'subheading':
+      return [new Paragraph({ text: block.text, heading: HeadingLevel.HEADING_2 })];
+    case 'paragraph':
+      return [new Paragraph({ children: textRuns(block.text), spacing: { after: 160 } })];
+    case 'list':
+      return block.items.map(item => new Paragraph({ children: textRuns(item), bullet: { level: 0 } }));
+    case 'fields':
+      return block.fields.map(field => fieldParagraph(field.label, field.value));
+    case 'links':
+      return block.links.map(link => new Paragraph({
+        bullet: { level: 0 },
+        children: [new ExternalHyperlink({ link: link.uri, children: [new TextRun({ text: link.title || link.uri, style: "Hyperlink" })] })]
+      }));
+    case 'quotes':
+      return block.quotes.flatMap(q => [
+        new Paragraph({
+          indent: { left: 360 },
+          border: { left: { style: BorderStyle.SINGLE, size: 12, color: "F59E0B", space: 8 } },
+          spacing: { before: 160 },
+          children: textRuns(q.text, { italics: true })
+        }),
+        new Paragraph({
+          indent: { left: 360 },
+          children: [
+            new TextRun({ text: `—— ${q.attribution}`, color: MUTED, size: SMALL_SIZE }),
+            ...(q.note ? [new TextRun({ text: `备注：${q.note}`, color: MUTED, size: SMALL_SIZE, break: 1 })] : [])
+          ]
+        })
+      ]);
+    case 'transcript':
+      return block.turns.flatMap(turn => {
+        const time = formatTurnTime(turn.timestamp);
+        return [
+          ...(turn.stimulus ? stimulusParagraphs(turn.stimulus) : []),
+          new Paragraph({
+            keepNext: true, // Speaker label stays on the page of its turn
+            spacing: { before: 160 },
+            children: [
+              new TextRun({ text: turn.speaker, bold: true, color: turn.isInterviewer ? MUTED : ACCENT }),
+              ...(time ? [new TextRun({ text: `  ${time}`, color: MUTED, size: SMALL_SIZE })] : [])
+            ]
+          }),
+          new Paragraph({ children: textRuns(turn.text, turn.isInterviewer ? { color: MUTED } : {}) })
+        ];
+      });
+  }
+};
+
+/**
+ * Build an editable Word document from a report, entirely in the browser.
+ * Headings use Word's built-in styles so the navigation pane and TOC work.
+ */
+export const renderReportDocx = async (report: ReportDocument): Promise<Blob> => {
+  const doc = new Document({
+    title: report.title,
+    styles: {
+      default: {
+        document: { run: { font: FONT, size: BODY_SIZE } },
+        heading1: { run: { font: FONT, size: 32, bold: true, color: ACCENT }, paragraph: { spacing: { before: 360, after: 160 } } },
+        heading2: { run: { font: FONT, size: 24, bold: true, color: ACCENT }, paragraph: { spacing: { before: 240, after: 80 } } },
+        title: { run: { font: FONT, size: 44, bold: true, color: ACCENT }, paragraph: { spacing: { after: 240 } } }
+      }
+    },
+    sections: [{
+      footers: {
+        default: new Footer({
+          children: [new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ children: [PageNumber.CURRENT, " / ", PageNumber.TOTAL_PAGES], size: SMALL_SIZE, color: MUTED })]
+          })]
+        })
+      },
+      children: [
+        new Paragraph({ text: report.title, heading: HeadingLevel.TITLE }),
+        ...report.meta.map(field => fieldParagraph(field.label, field.value)),
+        fieldParagraph("生成时间", report.generatedAt.toLocaleString("zh-CN")),
+        ...report.sections.flatMap((section, idx) => [
+          new Paragraph({ text: `${idx + 1}. ${section.title}`, heading: HeadingLevel.HEADING_1 }),
+          ...section.blocks.flatMap(renderBlock)
+        ])
+      ]
+    }]
+  });
+  return Packer.toBlob(doc);
+};
+
+export const downloadReportDocx = async (report: ReportDocument, filename: string): Promise<void> => {
+  downloadBlob(await renderReportDocx(report), filename);
+};
@@ -0,0 +1,19 @@
+/**
+ * Save a generated file through a temporary object URL.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * File name stem from a user-provided title; keeps CJK, drops characters file systems reject.
+ */
+export const toFileStem = (title: string, fallback = "研究") =>
+  title.replace(/[\\/:*?"<>|\s·]+/g, "_").replace(/^_+|_+$/g, "").slice(0, 60) || fallback;
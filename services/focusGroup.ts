@@ -0,0 +1,74 @@
+import { ChatMessage, PanelMember, PersonaProfile } from "../types";
+import { createEmptyPersonaDetails } from "./persona";
+
+export const MIN_FOCUS_GROUP_SIZE = 3;
+export const MAX_FOCUS_GROUP_SIZE = 6;
+
+// Nobody may take more than this multiple of an even share of the replies
+const DOMINANCE_FACTOR = 1.5;
+// How many participants answer a question put to the whole group / to one person
+const GROUP_RESPONDERS = 3;
+const ADDRESSED_RESPONDERS = 2;
+
+export const countTurns = (messages: ChatMessage[], participants: PanelMember[]): Record<string, number> => {
+  const counts: Record<string, number> = Object.fromEntries(participants.map(p => [p.id, 0]));
+  messages.forEach(m => {
+    if (m.role === 'model' && m.speakerId && m.speakerId in counts) counts[m.speakerId]++;
+  });
+  return counts;
+};
+
+/**
+ * Find the participant a moderator message is aimed at: an explicit "@name" wins,
+ * otherwise a message opening with a participant's name.
+ */
+export const findAddressee = (text: string, participants: PanelMember[]): PanelMember | undefined => {
+  const trimmed = text.trim();
+  return participants.find(p => trimmed.includes(`@${p.profile.name}`))
+    || participants.find(p => trimmed.startsWith(p.profile.name));
+};
+
+/**
+ * Turn-taking policy. The addressee (if any) answers first; the remaining slots go to
+ * whoever has spoken least, ties broken by who spoke longest ago. Anyone above their
+ * fair share is skipped so one persona can't dominate the discussion.
+ */
+export const planResponders = (
+  messages: ChatMessage[],
+  participants: PanelMember[],
+  addresseeId?: string
+): PanelMember[] => {
+  const counts = countTurns(messages, participants);
+  const lastSpokeAt: Record<string, number> = {};
+  messages.forEach((m, idx) => {
+    if (m.speakerId) lastSpokeAt[m.speakerId] = idx;
+  });
+
+  const totalReplies = Object.values(counts).reduce((sum, n) => sum + n, 0);
+  const fairShare = (totalReplies + 1) / participants.length;
+
+  const addressee = participants.find(p => p.id === addresseeId);
+  const candidates = participants
+    .filter(p => p.id !== addresseeId)
+    .sort((a, b) => counts[a.id] - counts[b.id] || (lastSpokeAt[a.id] ?? -1) - (lastSpokeAt[b.id] ?? -1));
+  const withinShare = candidates.filter(p => counts[p.id] <= Math.max(1, fairShare * DOMINANCE_FACTOR));
+  // Someone must answer an open question even if everyone is over their share
+  const others = withinShare.length > 0 || addressee ? withinShare : candidates;
+
+  return addressee
+    ? [addressee, ...others.slice(0, ADDRESSED_RESPONDERS - 1)]
+    : others.slice(0, GROUP_RESPONDERS);
+};
+
+/**
+ * A stand-in profile for the group, so single-interview tooling (summary, report) can run on a focus group transcript.
+ */
+export const buildGroupProfile = (participants: PanelMember[]): PersonaProfile => {
+  const names = participants.map(p => p.profile.name).join("、");
+  return {
+    name: `焦点小组 (${participants.length} 人)`,
+    summary: `参与者：${names}`,
+    details: createEmptyPersonaDetails(),
+    rawMarkdown: participants.map(p => p.profile.rawMarkdown).join("\n\n---\n\n")
+  };
+};
@@ -0,0 +1,85 @@
+import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
+import { GroundingSource } from "../types";
+import { JsonRequest, LLMContents, LLMProvider } from "./llmProvider";
+
+const DEFAULT_TEXT_MODEL = "gemini-2.5-flash";
+const DEFAULT_IMAGE_MODEL = "gemini-2.5-flash-image";
+
+interface GeminiProviderOptions {
+  apiKey?: string;
+  textModel?: string;
+  imageModel?: string;
+}
+
+const toGeminiContents = (contents: LLMContents) =>
+  typeof contents === 'string' ? contents : { parts: contents as Part[] };
+
+const extractSources = (response: GenerateContentResponse): GroundingSource[] => {
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  return chunks
+    .map((chunk) => chunk.web)
+    .filter((web): web is { uri: string; title: string } => !!web);
+};
+
+/**
+ * Google Gemini implementation of the provider interface.
+ */
+export const createGeminiProvider = ({
+  apiKey,
+  textModel = DEFAULT_TEXT_MODEL,
+  imageModel = DEFAULT_IMAGE_MODEL
+}: GeminiProviderOptions): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    generateText: async ({ contents, useSearch }) => {
+      const response = await ai.models.generateContent({
+        model: textModel,
+        contents: toGeminiContents(contents),
+        config: useSearch ? { tools: [{ googleSearch: {} }] } : undefined
+      });
+      return { text: response.text || "", sources: extractSources(response) };
+    },
+
+    generateJson: async <T>({ contents, schema }: JsonRequest): Promise<T> => {
+      const response = await ai.models.generateContent({
+        model: textModel,
+        contents: toGeminiContents(contents),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema
+        }
+      });
+      return JSON.parse(response.text || "{}") as T;
+    },
+
+    createChat: ({ systemInstruction, history = [] }) => {
+      const chat = ai.chats.create({
+        model: textModel,
+        config: { systemInstruction },
+        history: history.map(turn => ({ role: turn.role, parts: turn.parts as Part[] }))
+      });
+      return {
+        sendMessage: async (message) => {
+          const response = await chat.sendMessage({ message: typeof message === 'string' ? message : message as Part[] });
+          return response.text || "";
+        }
+      };
+    },
+
+    generateImage: async (prompt) => {
+      const response = await ai.models.generateContent({
+        model: imageModel,
+        contents: { parts: [{ text: prompt }] }
+      });
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+          return part.inlineData.data;
+        }
+      }
+      return undefined;
+    }
+  };
+};
@@ -1,18 +1,34 @@
-import { GoogleGenAI, Chat, Type, Schema, GenerateContentResponse } from "@google/genai";
-import { PersonaProfile, GroundingSource, ClarifyingQuestion, ChatMessage, InterviewSummary, ReferenceMaterial } from "../types";
+import { Type, Schema } from "@google/genai";
+import { PersonaProfile, GroundingSource, ClarifyingQuestion, ChatMessage, InterviewSummary, ReferenceMaterial, InterviewRecord, SynthesisReport, SynthesisQuote, SynthesisTheme, PanelMember, DiscussionGuide, PersonaDetails, PersonaDemographics, PersonaDimensionScores, GuideQuestion, GuideCoverage, GuideCoverageStatus, CodebookCode, TurnSentiment, ConsistencyIssue, ConsistencyIssueKind, WaveMemory, Stimulus, ConceptMetric, ConceptScore } from "../types";
+import { getProvider, ChatSession, ChatTurn, ContentPart, TextResult } from "./llmProvider";
+import { PersonaSectionDef, buildPersonaProfile, createEmptyPersonaDetails, describeDemographics, getSectionText } from "./persona";
+import { GUIDE_DIMENSIONS, DEFAULT_SECTION_MINUTES, cleanGuide, createGuideQuestion, createGuideSection, formatGuideForPrompt, getGuideQuestions, normalizeGuide } from "./guide";
+import { SUMMARY_CATEGORIES, resolveEvidence } from "./summary";
+import { CodeProposal } from "./coding";
+import { EMOTIONS, clampSentiment } from "./sentiment";
+import { detectAssistantSlip } from "./consistency";
+import { describeBehaviorForPrompt, getPersonaBehavior } from "./personaBehavior";
+import { WaveContext, formatWaveMemoryForPrompt } from "./waves";
+import { describeStimulus, isTextStimulus } from "./stimulus";
+import { CONCEPT_METRICS, CONCEPT_SCORE_MAX, CONCEPT_SCORE_MIN, clampConceptScore } from "./conceptTest";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-const TEXT_MODEL = "gemini-2.5-flash";
-const IMAGE_MODEL = "gemini-2.5-flash-image";
+// Guide section as returned by the model, before ids are assigned
+interface RawGuideSection {
+  title?: string;
+  targetMinutes?: number;
+  questions?: { text?: string; probes?: string[]; mustAsk?: boolean }[];
+}
+
+export const isRateLimitError = (error: any): boolean =>
+  error?.status === 429 || error?.code === 429 || error?.message?.includes('429') || error?.message?.includes('quota');
 
 // Helper function for exponential backoff retry
 // Increased defaults to handle stricter rate limits
-const runWithRetry = async <T>(operation: () => Promise<T>, retries = 5, delay = 4000): Promise<T> => {
+export const runWithRetry = async <T>(operation: () => Promise<T>, retries = 5, delay = 4000): Promise<T> => {
   try {
     return await operation();
   } catch (error: any) {
-    const isRateLimit = error?.status === 429 || error?.code === 429 || error?.message?.includes('429') || error?.message?.includes('quota');
-    if (isRateLimit && retries > 0) {
+    if (isRateLimitError(error) && retries > 0) {
       console.warn(`Rate limit exceeded. Retrying in ${delay}ms... (Remaining retries: ${retries})`);
       await new Promise(resolve => setTimeout(resolve, delay));
       return runWithRetry(operation, retries - 1, delay * 2);
@@ -72,16 +88,12 @@ export const analyzeRequirements = async (
   };
 
   try {
-    const response = await runWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-      model: TEXT_MODEL,
+    const result = await runWithRetry<{ needsClarification?: boolean; questions?: ClarifyingQuestion[] }>(() => getProvider().generateJson({
+      task: 'clarify',
       contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema
-      }
+      schema
     }), 5, 5000); // Explicitly set high retries for initial check
 
-    const result = JSON.parse(response.text || "{}");
     if (result.needsClarification && result.questions && result.questions.length > 0) {
       return result.questions;
     }
@@ -92,160 +104,206 @@ export const analyzeRequirements = async (
   }
 };
 
+export interface PersonaGenerationOptions {
+  diversityBrief?: string; // Recruiting quota for panel members
+  avoidNames?: string[]; // Personas already on the panel
+}
+
+const PERSONA_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    demographics: {
+      type: Type.OBJECT,
+      properties: {
+        fullName: { type: Type.STRING },
+        age: { type: Type.INTEGER },
+        gender: { type: Type.STRING },
+        occupation: { type: Type.STRING },
+        income: { type: Type.STRING },
+        city: { type: Type.STRING },
+        education: { type: Type.STRING },
+        household: { type: Type.STRING }
+      },
+      required: ["fullName", "age", "gender", "occupation", "income", "city"]
+    },
+    psychographics: { type: Type.ARRAY, items: { type: Type.STRING } },
+    behaviors: { type: Type.ARRAY, items: { type: Type.STRING } },
+    needs: { type: Type.ARRAY, items: { type: Type.STRING } },
+    painPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    speakingStyle: { type: Type.ARRAY, items: { type: Type.STRING } },
+    quirks: { type: Type.ARRAY, items: { type: Type.STRING } },
+    scores: {
+      type: Type.OBJECT,
+      properties: {
+        demographics: { type: Type.INTEGER },
+        psychographics: { type: Type.INTEGER },
+        behaviors: { type: Type.INTEGER },
+        needs: { type: Type.INTEGER }
+      },
+      required: ["demographics", "psychographics", "behaviors", "needs"]
+    }
+  },
+  required: ["name", "summary", "demographics", "psychographics", "behaviors", "needs", "painPoints", "speakingStyle", "quirks", "scores"]
+};
+
+// Persona as returned by the model; every field may be missing
+type RawPersona = Partial<Omit<PersonaDetails, 'demographics'>> & {
+  name?: string;
+  summary?: string;
+  demographics?: Partial<PersonaDemographics>;
+  scores?: Partial<PersonaDimensionScores>;
+};
+
+// Missing scores fall back to the 3 that search-backed data is promised
+const clampScore = (score: number | undefined) =>
+  typeof score === 'number' && score > 0 ? Math.min(5, Math.max(1, Math.round(score))) : 3;
+
+const toPersonaDetails = (raw: RawPersona): PersonaDetails => {
+  const empty = createEmptyPersonaDetails();
+  const list = (items: unknown) => Array.isArray(items) ? items.filter((i): i is string => typeof i === 'string' && i.trim().length > 0) : [];
+  const d = raw.demographics || {};
+  return {
+    demographics: {
+      ...empty.demographics,
+      fullName: d.fullName || "",
+      age: typeof d.age === 'number' && d.age > 0 ? d.age : null,
+      gender: d.gender || "",
+      occupation: d.occupation || "",
+      income: d.income || "",
+      city: d.city || "",
+      education: d.education || "",
+      household: d.household || ""
+    },
+    psychographics: list(raw.psychographics),
+    behaviors: list(raw.behaviors),
+    needs: list(raw.needs),
+    painPoints: list(raw.painPoints),
+    speakingStyle: list(raw.speakingStyle),
+    quirks: list(raw.quirks)
+  };
+};
+
 /**
- * Generate the persona profile with optional reference materials
+ * Generate the persona profile with optional reference materials.
+ * Two steps: a search-grounded research brief (search can't be combined with a response
+ * schema), then the structured persona built from that brief.
  */
 export const generatePersonaProfile = async (
   industry: string,
   targetAudience: string,
   clarifications: string[] = [],
-  materials: ReferenceMaterial[] = []
+  materials: ReferenceMaterial[] = [],
+  options: PersonaGenerationOptions = {}
 ): Promise<{ profile: PersonaProfile; sources: GroundingSource[] }> => {
   
   let audienceContext = targetAudience;
   if (clarifications.length > 0) {
     audienceContext += ` (补充细节: ${clarifications.join(", ")})`;
   }
+  if (options.diversityBrief) {
+    audienceContext += ` (招募配额: ${options.diversityBrief})`;
+  }
 
-  // --- Step 1: Text Profile Generation ---
-  
-  const contentParts: any[] = [];
-  
-  let promptText = `
-    你是一位定性市场研究专家。
-    行业: "${industry}"。
-    目标受众: "${audienceContext}"。
+  try {
+    // --- Step 1: Research brief from live search ---
+    const research = await runWithRetry<TextResult>(() => getProvider().generateText({
+      task: 'personaResearch',
+      contents: `
+        你是一位定性市场研究专家。
+        行业: "${industry}"。
+        目标受众: "${audienceContext}"。
 
-    请使用 Google 搜索查找该受众在该行业中的当前趋势。
-    
-    任务 1：构建虚拟人物画像
-    请生成一个详细的 Markdown 格式画像。
-    
-    🔥 **关键要求：**
-    **请给这位消费者起一个生动、具体、有代表性的名字** (例如："极客小王"、"精致妈妈Sarah"、"养生达人老李")。
-    **Markdown 的一级标题必须是这个名字** (例如 '# 极客小王')。
-
-    必须包含以下四个章节：
-    1. 人口统计学特征 (姓名, 年龄, 职业, 收入, 居住地)
-    2. 心理特征 (价值观, 生活态度, 个性)
-    3. 行为特征 (购买习惯, 品牌偏好, 技术使用)
-    4. 需求与痛点 (未满足的需求, 挫折感, 动机)
-    还包括：
-    5. 访谈风格 (说话方式)
-
-    任务 2：完成度评分
-    请对以上四个维度的数据完整性进行打分（满分 5 分）。
-    - 结合了公开数据搜索，分数应该至少达到 3 分。
-    - 如果用户提供了详细资料，分数可以更高。
-    
-    重要：请严格按照以下 JSON 格式输出结果。如果包含 Markdown 代码块，请使用 \`\`\`json 包裹。
-    {
-      "markdownProfile": "这里是完整的 markdown 格式画像内容",
-      "scores": {
-        "demographics": 3,
-        "psychographics": 3,
-        "behaviors": 3,
-        "needs": 3
-      }
-    }
-  `;
+        请使用 Google 搜索查找该受众在该行业中的当前趋势，整理一份简明的研究要点：
+        典型的人口特征、消费观念、购买渠道与习惯、常见需求与痛点、常用表达方式。
+        只列要点，不要编造具体人物。
+      `,
+      useSearch: true
+    }), 5, 5000); // Robust retry for main generation
 
-  if (materials.length > 0) {
-    promptText += `\n\n请优先结合以下参考资料构建。`;
-  }
+    // --- Step 2: Structured persona ---
+    const contentParts: ContentPart[] = [];
 
-  contentParts.push({ text: promptText });
+    let promptText = `
+      你是一位定性市场研究专家。
+      行业: "${industry}"。
+      目标受众: "${audienceContext}"。
 
-  materials.forEach(mat => {
-    if (mat.type === 'file' && mat.content) {
-      contentParts.push({
-        inlineData: {
-          mimeType: mat.mimeType || 'application/pdf',
-          data: mat.content
-        }
-      });
-    } else if (mat.type === 'text') {
-      contentParts.push({
-        text: `[参考资料 - ${mat.name}]:\n${mat.content}\n`
-      });
-    }
-  });
+      研究要点 (来自网络搜索)：
+      ${research.text}
 
-  try {
-    // 1. Generate Text Content
-    const response = await runWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: { parts: contentParts },
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    }), 5, 5000); // Robust retry for main generation
+      任务 1：构建虚拟人物画像
+      🔥 **关键要求：**
+      - name: 给这位消费者起一个生动、具体、有代表性的称呼 (例如："极客小王"、"精致妈妈Sarah"、"养生达人老李")。
+      - summary: 一句话概括这个人。
+      - demographics: 真实姓名、年龄、性别、职业、收入、居住城市、教育、家庭情况。
+      - psychographics: 价值观、生活态度、个性。
+      - behaviors: 购买习惯、品牌偏好、技术使用。
+      - needs: 未满足的需求与动机。
+      - painPoints: 挫折感与具体痛点。
+      - speakingStyle: 访谈时的说话方式。
+      - quirks: 口头禅、小习惯等让人物更真实的细节。
+      列表字段每项一句话，写具体的事实和例子，不要空泛。
 
-    let jsonString = response.text || "{}";
-    const jsonMatch = jsonString.match(/```json\n?([\s\S]*?)\n?```/);
-    if (jsonMatch) {
-      jsonString = jsonMatch[1];
-    }
+      任务 2：完成度评分 (scores)
+      请对人口统计学、心理特征、行为特征、需求与痛点四个维度的数据完整性进行打分（满分 5 分）。
+      - 结合了公开数据搜索，分数应该至少达到 3 分。
+      - 如果用户提供了详细资料，分数可以更高。
+    `;
 
-    let result;
-    try {
-      result = JSON.parse(jsonString);
-    } catch (e) {
-      console.warn("JSON parse failed, falling back to raw text", e);
-      result = {
-        markdownProfile: response.text || "# 生成失败",
-        scores: { demographics: 3, psychographics: 3, behaviors: 3, needs: 3 }
-      };
+    if (options.avoidNames && options.avoidNames.length > 0) {
+      promptText += `\n样本组中已有：${options.avoidNames.join("、")}。请塑造一个在名字、生活背景和观点上都明显不同的人。`;
     }
 
-    const markdown = result.markdownProfile || "# 生成失败";
-    const scores = result.scores || { demographics: 3, psychographics: 3, behaviors: 3, needs: 3 };
-    
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-    const sources: GroundingSource[] = chunks
-      .map((chunk) => chunk.web)
-      .filter((web): web is { uri: string; title: string } => !!web);
-
-    const nameMatch = markdown.match(/^#\s+(.+)$/m);
-    const name = nameMatch ? nameMatch[1].trim() : "消费者";
-    const summary = markdown.substring(0, 200) + "...";
-
-    // 2. Generate Pixel Art Image
-    let imageData: string | undefined = undefined;
-    try {
-        const imagePrompt = `
-          Cute pixel art avatar of ${name}, ${industry} consumer.
-          Simple headshot, minimal details, white background.
-          Style: 8-bit, colorful, clean, distinct features matching personality.
-        `;
-        
-        // Image generation can fail silently if rate limited, that's okay.
-        const imageResponse = await runWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-            model: IMAGE_MODEL,
-            contents: { parts: [{ text: imagePrompt }] }
-        }), 2, 5000);
-
-        if (imageResponse.candidates?.[0]?.content?.parts) {
-            for (const part of imageResponse.candidates[0].content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    imageData = part.inlineData.data;
-                    break;
-                }
-            }
-        }
-    } catch (imgError) {
-        console.error("Image generation failed", imgError);
+    if (materials.length > 0) {
+      promptText += `\n\n请优先结合以下参考资料构建。`;
     }
 
+    contentParts.push({ text: promptText });
+
+    materials.forEach(mat => {
+      if (mat.type === 'file' && mat.content) {
+        contentParts.push({
+          inlineData: {
+            mimeType: mat.mimeType || 'application/pdf',
+            data: mat.content
+          }
+        });
+      } else if (mat.type === 'text') {
+        contentParts.push({
+          text: `[参考资料 - ${mat.name}]:\n${mat.content}\n`
+        });
+      }
+    });
+
+    const raw = await runWithRetry<RawPersona>(() => getProvider().generateJson({
+      task: 'persona',
+      contents: contentParts,
+      schema: PERSONA_SCHEMA
+    }), 5, 5000);
+
+    const details = toPersonaDetails(raw);
+    const name = raw.name?.trim() || details.demographics.fullName || "消费者";
+    const scores = {
+      demographics: clampScore(raw.scores?.demographics),
+      psychographics: clampScore(raw.scores?.psychographics),
+      behaviors: clampScore(raw.scores?.behaviors),
+      needs: clampScore(raw.scores?.needs)
+    };
+
+    // --- Step 3: Pixel Art Image ---
+    const imageData = await generatePersonaAvatar(name, industry, describeDemographics(details));
+
     return {
-      profile: {
-        rawMarkdown: markdown,
+      profile: buildPersonaProfile({
         name,
-        summary,
+        summary: raw.summary?.trim() || describeDemographics(details),
+        details,
         scores,
         imageUrl: imageData
-      },
-      sources
+      }),
+      sources: research.sources
     };
   } catch (error) {
     console.error("Error generating persona:", error);
@@ -254,14 +312,99 @@ export const generatePersonaProfile = async (
 };
 
 /**
- * Generate Discussion Guide based on objectives
+ * Pixel-art avatar for a persona. Demographics, when given, keep the picture in line with
+ * an edited profile. Resolves to undefined instead of failing: the avatar is optional.
+ */
+export const generatePersonaAvatar = async (
+  name: string,
+  industry: string,
+  demographics = ""
+): Promise<string | undefined> => {
+  try {
+    const imagePrompt = `
+      Cute pixel art avatar of ${name}, ${industry} consumer.
+      ${demographics ? `Profile: ${demographics.replace(/\s+/g, ' ')}` : ''}
+      Simple headshot, minimal details, white background.
+      Style: 8-bit, colorful, clean, distinct features matching personality.
+    `;
+
+    // Image generation can fail silently if rate limited, that's okay.
+    return await runWithRetry<string | undefined>(() => getProvider().generateImage(imagePrompt), 2, 5000);
+  } catch (imgError) {
+    console.error("Image generation failed", imgError);
+    return undefined;
+  }
+};
+
+export interface PersonaSectionRewrite {
+  content: string;
+  score?: number; // Completeness 1-5, core sections only
+}
+
+/**
+ * Rewrite one section of a persona following the researcher's instruction.
+ * The rest of the profile is sent as context so the section stays consistent with it.
+ */
+export const rewritePersonaSection = async (
+  profile: PersonaProfile,
+  section: PersonaSectionDef,
+  instruction: string,
+  industry: string
+): Promise<PersonaSectionRewrite> => {
+  const current = getSectionText(profile.details, section.key);
+
+  const prompt = `
+    你是一位定性市场研究专家，正在修改一份 "${industry}" 行业的虚拟消费者画像。
+
+    完整画像 (供参考，保持人物前后一致)：
+    ${profile.rawMarkdown}
+
+    需要改写的章节："${section.title}"
+    当前内容：
+    ${current || '(空)'}
+
+    研究员的修改要求：${instruction}
+
+    任务：
+    - 只改写这一个章节，按要求调整，并与画像其他部分保持一致。
+    - content 使用 Markdown 列表格式，不要包含章节标题；保留当前内容的行格式 (如 "姓名：" "痛点：" 等前缀)。
+    ${section.scoreKey ? '- score：改写后该维度数据的完整度评分 (1-5 分)。' : ''}
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      content: { type: Type.STRING },
+      score: { type: Type.INTEGER }
+    },
+    required: ["content"]
+  };
+
+  const res = await runWithRetry<{ content?: string; score?: number }>(() => getProvider().generateJson({
+    task: 'personaSection',
+    contents: prompt,
+    schema
+  }));
+
+  if (!res.content?.trim()) throw new Error("Empty section rewrite");
+  const score = section.scoreKey && res.score ? Math.min(5, Math.max(1, Math.round(res.score))) : undefined;
+  return { content: res.content.trim(), score };
+};
+
+/**
+ * Generate Discussion Guide based on objectives.
+ * One section per research dimension, each with main questions, probes and a time budget.
  */
 export const generateDiscussionGuide = async (
   industry: string,
   profile: PersonaProfile,
   objectives: string,
   userQuestions: string
-): Promise<string[]> => {
+): Promise<DiscussionGuide> => {
+  const dimensions = GUIDE_DIMENSIONS
+    .map((dim, idx) => `${idx + 1}. **${dim.title}**：${dim.prompt}`)
+    .join('\n    ');
+
   const prompt = `
     你是一位资深的用户研究员。
     
@@ -274,66 +417,97 @@ export const generateDiscussionGuide = async (
     我预想的特定问题: ${userQuestions}
     
     任务：
-    生成一份深度、结构化的访谈提纲。
-    **必须包含**以下六个维度的逻辑，每个维度请设计 1-2 个具体、循序渐进的问题，不要生硬地罗列标题，要像真实的访谈对话：
-
-    1. **现状与背景**：询问目前使用的品牌/产品、使用时长、频率及具体环境（工作/娱乐/学习等）。
-    2. **情境与习惯**：挖掘每日使用时刻、常规操作路径（如购买、搜索信息）、以及遇到的任何干扰或障碍。
-    3. **功能评价**：询问对主要功能的评价（优/良/差及原因），以及具体的技术问题或性能瓶颈。
-    4. **痛点与挑战**：深入挖掘最常见的使用问题、困难点。
-    5. **改进与期望**：询问对现有功能的改进建议、新增功能需求、以及对未来的期望。
-    6. **情感与忠诚度**：询问总体情感体验（满意/失望）、期望值达成情况、以及持续使用或推荐的意愿。
-    
-    输出要求：
-    只返回 JSON 格式的字符串数组，不包含任何 Markdown 标记或章节标题。直接列出具体的问题句子。
-    Example: ["您目前主要使用什么品牌的咖啡机？用了多久了？", "在每天的什么时间段您使用得最频繁？"]
+    生成一份深度、结构化的访谈提纲，按以下六个维度分为六个环节 (section)，环节标题使用维度名称。
+    每个环节设计 1-2 个具体、循序渐进的主问题，要像真实的访谈对话：
+
+    ${dimensions}
+
+    对每个主问题：
+    - probes: 给出 1-2 个可选的追问，用于受访者回答笼统时深挖。
+    - mustAsk: 核心问题、以及"我预想的特定问题"中的问题标记为 true，其余为 false。
+    对每个环节给出建议时长 targetMinutes (整数，分钟)，整场访谈合计约 30-45 分钟。
+
+    输出要求：只返回 JSON，问题直接写成完整的问句。
   `;
 
   const schema: Schema = {
     type: Type.OBJECT,
     properties: {
-      questions: {
+      sections: {
         type: Type.ARRAY,
-        items: { type: Type.STRING }
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            targetMinutes: { type: Type.INTEGER },
+            questions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  text: { type: Type.STRING },
+                  probes: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  mustAsk: { type: Type.BOOLEAN }
+                },
+                required: ["text", "probes", "mustAsk"]
+              }
+            }
+          },
+          required: ["title", "targetMinutes", "questions"]
+        }
       }
     },
-    required: ["questions"]
+    required: ["sections"]
   };
 
   try {
-    const response = await runWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-      model: TEXT_MODEL,
+    const res = await runWithRetry<{ sections?: RawGuideSection[] }>(() => getProvider().generateJson({
+      task: 'guide',
       contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema
-      }
+      schema
     }));
-    
-    const res = JSON.parse(response.text || "{}");
-    return res.questions || [];
+
+    return cleanGuide({
+      sections: (res.sections || []).map(section => ({
+        ...createGuideSection(section.title || "", (section.questions || []).map(q => ({
+          ...createGuideQuestion(q.text || ""),
+          probes: q.probes || [],
+          mustAsk: !!q.mustAsk
+        }))),
+        targetMinutes: section.targetMinutes || DEFAULT_SECTION_MINUTES
+      }))
+    });
   } catch (e) {
     console.error("Failed to generate guide", e);
-    return ["请介绍一下您自己。", "您目前使用什么产品？", "您最大的痛点是什么？"];
+    return normalizeGuide(["请介绍一下您自己。", "您目前使用什么产品？", "您最大的痛点是什么？"]);
   }
 };
 
 /**
- * AI Moderator logic to generate the next question
+ * AI Moderator logic to generate the next question.
+ * Batch runs pass retries = 0 and retry rate limits through their shared gate instead.
  */
 export const getAIInterviewerNextQuestion = async (
   history: ChatMessage[],
-  guide: string[],
-  profile: PersonaProfile
+  guide: DiscussionGuide,
+  profile: PersonaProfile,
+  openMustAsk: GuideQuestion[] = [],
+  retries?: number
 ): Promise<string | null> => {
   const relevantHistory = history.filter(h => h.role !== 'model' || !h.text.includes("自我介绍"));
-  const transcript = history.map(m => `${m.role === 'user' ? (m.isAiInterviewer ? '主持人' : '观察员') : profile.name}: ${m.text}`).join('\n');
+  const transcript = history.map(m => `${m.role === 'user' ? (m.isAiInterviewer ? '主持人' : '观察员') : profile.name}: ${transcriptText(m)}`).join('\n');
 
   const prompt = `
     你是一位专业的深度访谈主持人 (Moderator)。正在采访 ${profile.name}。
     
     访谈提纲 (这是我们的核心逻辑线索, 但不要被它死板限制):
-    ${JSON.stringify(guide)}
+    ${formatGuideForPrompt(guide)}
+
+    提纲说明：
+    - 按环节顺序推进，括号中是每个环节的建议时长，据此分配追问的深度。
+    - 标记 [必问] 的问题必须在访谈结束前问到。
+    - "追问" 是可选的深挖方向，受访者回答笼统时优先使用。
+    ${openMustAsk.length > 0 ? `- 以下 [必问] 问题尚未充分覆盖，请在合适时机问到：${JSON.stringify(openMustAsk.map(q => q.text))}` : ''}
     
     当前对话记录:
     ${transcript}
@@ -358,27 +532,150 @@ export const getAIInterviewerNextQuestion = async (
     约束：
     - 保持语气专业、亲切、像真人在对话。
     - 每次只问一个问题。
-    - 如果提纲中的问题都已经涵盖了，且没有新的挖掘点，请仅返回字符串: "[INTERVIEW_COMPLETE]"。
+    - 如果提纲中的问题 (尤其是所有 [必问] 问题) 都已经涵盖了，且没有新的挖掘点，请仅返回字符串: "[INTERVIEW_COMPLETE]"。
     
     请直接返回问题文本。
   `;
 
-  const response = await runWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-    model: TEXT_MODEL,
+  const response = await runWithRetry<TextResult>(() => getProvider().generateText({
+    task: 'moderator',
     contents: prompt
-  }));
+  }), retries);
   
-  const text = response.text?.trim();
+  const text = response.text.trim();
   if (text?.includes("INTERVIEW_COMPLETE")) {
     return null;
   }
   return text || null;
 };
 
+const COVERAGE_STATUSES: GuideCoverageStatus[] = ['none', 'partial', 'covered'];
+
 /**
- * Initialize chat session.
+ * Model judgement of which guide questions the transcript has covered so far.
+ * Questions are keyed Q1..Qn in the prompt; unknown keys and statuses are ignored.
  */
-export const createInterviewSession = (profile: PersonaProfile, industry: string): Chat => {
+export const assessGuideCoverage = async (
+  guide: DiscussionGuide,
+  messages: ChatMessage[],
+  profile: PersonaProfile
+): Promise<GuideCoverage> => {
+  const questions = getGuideQuestions(guide);
+  if (questions.length === 0 || messages.length === 0) return {};
+
+  const transcript = messages.map(m => `${m.role === 'user' ? '主持人' : profile.name}: ${transcriptText(m)}`).join('\n');
+  const prompt = `
+    你是一位用户研究督导，正在旁听一场访谈，判断访谈提纲的覆盖情况。
+
+    提纲问题：
+    ${questions.map((q, idx) => `Q${idx + 1}: ${q.text}`).join('\n    ')}
+
+    访谈记录：
+    ${transcript}
+
+    对每个提纲问题给出 status：
+    - "none": 还没有谈到。
+    - "partial": 谈到了，但受访者回答笼统或没有展开。
+    - "covered": 已经问到并得到了具体、充分的回答 (不必逐字提问，话题被自然谈到也算)。
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      items: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            question: { type: Type.STRING },
+            status: { type: Type.STRING, enum: COVERAGE_STATUSES }
+          },
+          required: ["question", "status"]
+        }
+      }
+    },
+    required: ["items"]
+  };
+
+  const res = await runWithRetry<{ items?: { question?: string; status?: string }[] }>(() => getProvider().generateJson({
+    task: 'coverage',
+    contents: prompt,
+    schema
+  }));
+
+  const coverage: GuideCoverage = {};
+  (res.items || []).forEach(item => {
+    const question = questions[Number(item.question?.replace(/^Q/i, '')) - 1];
+    const status = COVERAGE_STATUSES.find(s => s === item.status);
+    if (question && status) coverage[question.id] = status;
+  });
+  return coverage;
+};
+
+// Opening prompt that makes the persona introduce themselves at the start of a fresh interview
+export const INTRO_PROMPT = "请做一个简短的自我介绍，像我们刚见面一样。";
+
+// A turn's text for transcripts in prompts; questions note the stimulus shown with them
+const transcriptText = (m: ChatMessage) =>
+  m.stimulus ? `[展示${describeStimulus(m.stimulus)}] ${m.text}` : m.text;
+
+/**
+ * A question as sent to the persona: the text, plus the stimulus shown with it as an
+ * attachment (images and PDFs) or inline text (copy and prices typed in).
+ */
+export const buildQuestionParts = (question: string, stimulus?: Stimulus): ContentPart[] => {
+  if (!stimulus) return [{ text: question }];
+  const intro = `(采访者向你展示了一份${describeStimulus(stimulus)}。请像第一次看到它的普通消费者一样，根据你的背景说出真实反应，不要像专家一样逐条点评。)`;
+  return isTextStimulus(stimulus)
+    ? [{ text: `${intro}\n\n${stimulus.content}\n\n${question}` }]
+    : [{ text: intro }, { inlineData: { mimeType: stimulus.mimeType, data: stimulus.content } }, { text: question }];
+};
+
+/**
+ * Convert a stored transcript into chat history.
+ * History must start with a user turn and alternate roles, so the intro prompt is
+ * restored in front of the persona's greeting and consecutive same-role turns are merged.
+ * Questions after the last reply were never answered; they are left out for the caller
+ * to send again (see getUnansweredQuestions).
+ */
+const toChatHistory = (messages: ChatMessage[]): ChatTurn[] => {
+  const history: ChatTurn[] = [];
+  if (messages.length > 0 && messages[0].role === 'model') {
+    history.push({ role: 'user', parts: [{ text: INTRO_PROMPT }] });
+  }
+
+  const answered = messages.slice(0, messages.map(m => m.role).lastIndexOf('model') + 1);
+  answered.forEach(m => {
+    const parts = m.role === 'user' ? buildQuestionParts(m.text, m.stimulus) : [{ text: m.text }];
+    const last = history[history.length - 1];
+    if (last && last.role === m.role) {
+      last.parts = [...last.parts, ...parts];
+    } else {
+      history.push({ role: m.role, parts });
+    }
+  });
+
+  return history;
+};
+
+/**
+ * Interviewer turns at the end of a transcript that the persona never answered,
+ * e.g. when the app was closed while waiting for a reply.
+ */
+export const getUnansweredQuestions = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.slice(messages.map(m => m.role).lastIndexOf('model') + 1);
+
+/**
+ * Initialize chat session. Passing a prior transcript resumes the interview
+ * with the persona remembering everything already said.
+ */
+export const createInterviewSession = (
+  profile: PersonaProfile,
+  industry: string,
+  priorMessages: ChatMessage[] = [],
+  waveContext?: WaveContext // Longitudinal studies: earlier waves and what happened since
+): ChatSession => {
+  const memory = waveContext ? formatWaveMemoryForPrompt(waveContext) : "";
   const systemInstruction = `
     你正在参与一次消费者研究访谈。
     
@@ -391,48 +688,337 @@ export const createInterviewSession = (profile: PersonaProfile, industry: string
     
     背景：
     你正在接受关于 "${industry}" 行业的访谈。
-    
+    ${memory ? `\n    ${memory.split('\n').join('\n    ')}\n` : ''}
     行为准则：
     - 说话自然，使用你资料中定义的“访谈风格”。
     - 如果用户询问你的需求或痛点，请根据生成的资料回答。
-    - 诚实地表达你的挫折感。
-    - 如果被问及对未来的期望或改进建议，请大胆提出符合你角色设定的想法。
+    - 如果被问及对未来的期望或改进建议，请提出符合你角色设定的想法。
     - 不要像助手一样主动提供帮助。你是受访者。
-    - 保持回答相对简练，像真实的聊天信息（主要是 1-3 句话，除非在讲故事）。
+    ${describeBehaviorForPrompt(getPersonaBehavior(profile)).map(rule => `- ${rule}`).join('\n    ')}
+  `;
+
+  return getProvider().createChat({
+    systemInstruction,
+    history: toChatHistory(priorMessages),
+  });
+};
+
+const CONSISTENCY_KINDS: ConsistencyIssueKind[] = ['profile', 'self', 'assistant'];
+
+/**
+ * Check one persona reply against the profile and everything the persona said before it,
+ * including its memory of earlier waves in longitudinal studies.
+ * Assistant-like phrasing is also caught by pattern, so it is flagged even if the model misses it.
+ */
+export const checkPersonaConsistency = async (
+  profile: PersonaProfile,
+  messages: ChatMessage[],
+  turnIndex: number,
+  waveContext?: WaveContext
+): Promise<ConsistencyIssue[]> => {
+  const reply = messages[turnIndex];
+  if (!reply || reply.role !== 'model') return [];
+
+  const question = [...messages.slice(0, turnIndex)].reverse().find(m => m.role === 'user');
+  const earlier = messages.slice(0, turnIndex)
+    .map((m, turn) => ({ m, turn }))
+    .filter(({ m }) => m.role === 'model')
+    .map(({ m, turn }) => `[#${turn}] ${m.text}`)
+    .join('\n');
+  const memory = waveContext ? formatWaveMemoryForPrompt(waveContext) : "";
+
+  const prompt = `
+    你是访谈质检员，负责检查 AI 扮演的受访者 "${profile.name}" 有没有"出戏"。
+
+    受访者画像：
+    基本信息：${describeDemographics(profile.details) || '未注明'}
+    ${profile.rawMarkdown}
+
+    受访者被设定的答题表现 (这是有意设计的，按设定表现不算出戏)：
+    ${describeBehaviorForPrompt(getPersonaBehavior(profile)).join('\n    ')}
+
+    受访者之前说过的话：
+    ${earlier || '(无)'}
+    ${memory ? `\n    受访者对之前几次访谈的记忆 (写给受访者本人；这期间经历的事带来的态度变化不算矛盾)：\n    ${memory.split('\n').join('\n    ')}\n` : ''}
+
+    采访者的问题：${question ? transcriptText(question) : '(开场自我介绍)'}
+    待检查的回答 [#${turnIndex}]：${reply.text}
+
+    请只检查【待检查的回答】，列出其中的问题 (没有问题就返回空列表)：
+    - profile: 与画像中的事实矛盾，例如年龄、职业、家庭、城市、收入、使用的产品不一致。
+    - self: 与受访者之前说过的话${memory ? '或之前访谈中的说法' : ''}明显矛盾 (conflictTurn 填被矛盾的发言序号${memory ? '；与之前访谈矛盾时不填' : ''})。
+    - assistant: 像 AI 助手而不是普通消费者，例如自称 AI、主动提供帮助、给出条理分明的建议清单。
+    观点随着讨论自然变化、补充细节、语气变化都不算问题。description 用一句中文说明。
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      issues: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            kind: { type: Type.STRING, enum: CONSISTENCY_KINDS },
+            description: { type: Type.STRING },
+            conflictTurn: { type: Type.INTEGER }
+          },
+          required: ["kind", "description"]
+        }
+      }
+    },
+    required: ["issues"]
+  };
+
+  const raw = await runWithRetry<{ issues?: { kind?: string; description?: string; conflictTurn?: number }[] }>(() => getProvider().generateJson({
+    task: 'consistency',
+    contents: prompt,
+    schema
+  }));
+
+  const issues: ConsistencyIssue[] = (raw.issues || []).flatMap(item => {
+    const kind = CONSISTENCY_KINDS.find(k => k === item.kind);
+    if (!kind || !item.description?.trim()) return [];
+    // Only an earlier persona turn can be contradicted
+    const conflictTurn = typeof item.conflictTurn === 'number' && item.conflictTurn < turnIndex && messages[item.conflictTurn]?.role === 'model'
+      ? item.conflictTurn
+      : undefined;
+    return [{ kind, description: item.description.trim(), ...(conflictTurn !== undefined ? { conflictTurn } : {}) }];
+  });
+
+  const slip = detectAssistantSlip(reply.text);
+  if (slip && !issues.some(i => i.kind === 'assistant')) issues.push(slip);
+  return issues;
+};
+
+/**
+ * Answer the question behind a flagged reply again, in a fresh session that has not seen
+ * the flagged reply. The problems are passed along so the persona can avoid them; the
+ * returned session carries on the interview from the new reply.
+ */
+export const regeneratePersonaReply = async (
+  profile: PersonaProfile,
+  industry: string,
+  messages: ChatMessage[],
+  turnIndex: number,
+  issues: ConsistencyIssue[],
+  waveContext?: WaveContext
+): Promise<{ session: ChatSession; text: string }> => {
+  const questionIndex = messages.slice(0, turnIndex).map(m => m.role).lastIndexOf('user');
+  const asked = questionIndex >= 0 ? messages[questionIndex] : undefined;
+  const question = asked ? asked.text : INTRO_PROMPT;
+  const session = createInterviewSession(profile, industry, messages.slice(0, Math.max(questionIndex, 0)), waveContext);
+
+  const note = issues.map(i => `- ${i.description}`).join('\n');
+  const text = await session.sendMessage(buildQuestionParts(
+    `${question}\n\n(注意：请严格保持你的人设和你之前说过的话，不要出现以下问题，也不要提及这条注意事项：\n${note})`,
+    asked?.stimulus
+  ));
+  return { session, text: text || "..." };
+};
+
+/**
+ * Sentiment and emotion of every respondent turn. Turns the model skips or invents are
+ * dropped, and scores are clamped to the scale.
+ */
+export const analyzeTurnSentiment = async (
+  profile: PersonaProfile,
+  messages: ChatMessage[]
+): Promise<TurnSentiment[]> => {
+  if (!messages.some(m => m.role === 'model')) return [];
+
+  const transcript = messages.map((m, turn) =>
+    `[#${turn}] ${m.role === 'user' ? '采访者' : (m.speakerName || profile.name)}: ${transcriptText(m)}`
+  ).join('\n');
+
+  const prompt = `
+    以下是一份消费者访谈逐字稿，每条发言前的 [#数字] 是发言序号。
+
+    ${transcript}
+
+    请逐条判断受访者每一条发言流露出的情绪 (不要判断采访者的发言)：
+    - score: 情绪倾向，-2 (非常负面) 到 2 (非常正面) 的整数，0 为中性。
+    - emotion: 主要情绪，只能是以下之一：
+      ${EMOTIONS.map(e => `${e.key} (${e.label}：${e.hint})`).join('\n      ')}
+    依据受访者说话的语气和内容判断，而不是话题本身是否负面。
   `;
 
-  return ai.chats.create({
-    model: TEXT_MODEL,
-    config: {
-      systemInstruction,
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      turns: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            turn: { type: Type.INTEGER },
+            score: { type: Type.INTEGER },
+            emotion: { type: Type.STRING, enum: EMOTIONS.map(e => e.key) }
+          },
+          required: ["turn", "score", "emotion"]
+        }
+      }
     },
+    required: ["turns"]
+  };
+
+  const raw = await runWithRetry<{ turns?: { turn?: number; score?: number; emotion?: string }[] }>(() => getProvider().generateJson({
+    task: 'sentiment',
+    contents: prompt,
+    schema
+  }));
+
+  const byTurn = new Map<number, TurnSentiment>();
+  (raw.turns || []).forEach(item => {
+    const emotion = EMOTIONS.find(e => e.key === item.emotion)?.key;
+    if (typeof item.turn !== 'number' || messages[item.turn]?.role !== 'model' || typeof item.score !== 'number' || !emotion) return;
+    byTurn.set(item.turn, { turnIndex: item.turn, score: clampSentiment(item.score), emotion });
   });
+  return Array.from(byTurn.values()).sort((a, b) => a.turnIndex - b.turnIndex);
 };
 
+const cleanList = (items: unknown): string[] =>
+  Array.isArray(items) ? items.filter((item): item is string => typeof item === 'string' && item.trim().length > 0).map(item => item.trim()) : [];
+
 /**
- * Generate Interview Summary
+ * What the persona should remember of an interview when it is interviewed again in a later wave:
+ * what they meant to try, how they felt and the circumstances they revealed.
+ */
+export const summarizeWaveMemory = async (
+  profile: PersonaProfile,
+  industry: string,
+  messages: ChatMessage[]
+): Promise<WaveMemory> => {
+  if (!messages.some(m => m.role === 'model')) return { intentions: [], feelings: [], facts: [] };
+
+  const transcript = messages.map(m => `${m.role === 'user' ? '采访者' : profile.name}: ${transcriptText(m)}`).join('\n');
+
+  const prompt = `
+    以下是关于 "${industry}" 的一次消费者访谈，受访者是 "${profile.name}"。
+    这位受访者以后还会再接受访谈，请整理出 TA 需要记住的内容，供下一次访谈延续：
+
+    ${transcript}
+
+    - intentions: TA 说过打算尝试、购买、更换或不再使用的东西。
+    - feelings: TA 对产品、品牌或品类的主要感受和态度。
+    - facts: TA 透露的、下次访谈时应保持一致的个人情况和使用习惯。
+    每一项用一句简短的中文，只写访谈中确实出现过的内容，每类最多 5 条。
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      intentions: { type: Type.ARRAY, items: { type: Type.STRING } },
+      feelings: { type: Type.ARRAY, items: { type: Type.STRING } },
+      facts: { type: Type.ARRAY, items: { type: Type.STRING } }
+    },
+    required: ["intentions", "feelings", "facts"]
+  };
+
+  const raw = await runWithRetry<{ intentions?: unknown; feelings?: unknown; facts?: unknown }>(() => getProvider().generateJson({
+    task: 'waveMemory',
+    contents: prompt,
+    schema
+  }));
+
+  return { intentions: cleanList(raw.intentions), feelings: cleanList(raw.feelings), facts: cleanList(raw.facts) };
+};
+
+/**
+ * Read a persona's concept-test scores out of their own words: the first reaction to the
+ * concept and the answer to the rating question. Scores are clamped to the scale and
+ * reasons are kept in the persona's voice. The concept-test runner passes retries = 0,
+ * as its rate gate already handles 429s.
+ */
+export const extractConceptScores = async (
+  profile: PersonaProfile,
+  concept: Stimulus,
+  reaction: string,
+  ratingAnswer: string,
+  retries?: number
+): Promise<Record<ConceptMetric, ConceptScore>> => {
+  const prompt = `
+    受访者 "${profile.name}" 刚看过一份${describeStimulus(concept)}。
+    TA 的第一反应：
+    ${reaction}
+
+    随后请 TA 按 ${CONCEPT_SCORE_MIN}-${CONCEPT_SCORE_MAX} 分打分，TA 的回答：
+    ${ratingAnswer}
+
+    请整理出 TA 给出的分数和理由：
+    ${CONCEPT_METRICS.map(m => `- ${m.key}（${m.label}）：${CONCEPT_SCORE_MIN} 分 = ${m.low}，${CONCEPT_SCORE_MAX} 分 = ${m.high}`).join('\n    ')}
+    score 用 TA 说出的分数；如果 TA 没给某一项打分，根据 TA 的原话推断最接近的分数。
+    reason 用一句简短的中文概括 TA 自己给出的理由，保留 TA 的说法，不要加入你的评价。
+  `;
+
+  const scoreSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      score: { type: Type.INTEGER },
+      reason: { type: Type.STRING }
+    },
+    required: ["score", "reason"]
+  };
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(CONCEPT_METRICS.map(m => [m.key, scoreSchema])),
+    required: CONCEPT_METRICS.map(m => m.key)
+  };
+
+  const raw = await runWithRetry<Partial<Record<ConceptMetric, { score?: unknown; reason?: unknown }>>>(() => getProvider().generateJson({
+    task: 'conceptRating',
+    contents: prompt,
+    schema
+  }), retries);
+
+  return Object.fromEntries(CONCEPT_METRICS.map(({ key }) => {
+    const entry = raw[key];
+    const score = Number(entry?.score);
+    return [key, {
+      // A missing score sits in the middle of the scale rather than dragging the average to an end
+      score: Number.isFinite(score) ? clampConceptScore(score) : Math.round((CONCEPT_SCORE_MIN + CONCEPT_SCORE_MAX) / 2),
+      reason: typeof entry?.reason === 'string' ? entry.reason.trim() : ""
+    }];
+  })) as Record<ConceptMetric, ConceptScore>;
+};
+
+interface RawSummaryFinding {
+  category: string;
+  text: string;
+  evidence?: { turn?: number; excerpt?: string }[];
+}
+
+/**
+ * Summary of one interview as discrete findings, each citing the transcript turns it rests on,
+ * plus the sentiment of every respondent turn.
+ * Turns carry their index in the prompt; citations are resolved against the transcript
+ * afterwards, and the ones that cannot be matched are kept so the finding can be flagged.
  */
 export const generateInterviewSummary = async (
   profile: PersonaProfile,
   industry: string,
   messages: ChatMessage[]
 ): Promise<InterviewSummary> => {
-  // Convert chat history to string
-  const transcript = messages.map(m => `${m.role === 'user' ? '采访者' : profile.name}: ${m.text}`).join('\n');
+  const transcript = messages.map((m, turn) =>
+    `[#${turn}] ${m.role === 'user' ? '采访者' : (m.speakerName || profile.name)}: ${transcriptText(m)}`
+  ).join('\n');
 
   const prompt = `
     请根据以下关于 "${industry}" 行业的访谈记录，生成一份总结报告。
     
     受访者资料: ${profile.rawMarkdown}
     
-    访谈记录:
+    访谈记录 (每条发言前的 [#数字] 是该发言的序号):
     ${transcript}
     
-    请提取以下关键信息并以 JSON 格式返回：
-    1. keyInsights (关键洞察 - 3点)
-    2. painPoints (主要痛点)
-    3. wantsNeeds (核心需求)
-    4. verdict (受访者对当前市场产品的总体态度/评价)
+    请把结论拆成一条条独立的发现 (findings)，每条发现只讲一件事，并标明类别 (category)：
+    - insight: 关键洞察 (3 条左右)
+    - painPoint: 主要痛点
+    - need: 核心需求
+    - verdict: 受访者对当前市场产品的总体态度/评价 (1 条)
+
+    每条发现都必须用 evidence 给出依据：turn 为发言序号，excerpt 为从该条发言中原样摘录的一句话。
+    只能引用受访者本人的发言，不要改写摘录的原话；逐字稿中找不到依据的结论不要写。
     
     请确保使用中文回答。
   `;
@@ -440,22 +1026,384 @@ export const generateInterviewSummary = async (
   const schema: Schema = {
     type: Type.OBJECT,
     properties: {
-      keyInsights: { type: Type.STRING },
-      painPoints: { type: Type.STRING },
-      wantsNeeds: { type: Type.STRING },
-      verdict: { type: Type.STRING }
+      findings: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            category: { type: Type.STRING, enum: SUMMARY_CATEGORIES.map(c => c.key) },
+            text: { type: Type.STRING },
+            evidence: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  turn: { type: Type.INTEGER },
+                  excerpt: { type: Type.STRING }
+                },
+                required: ["turn", "excerpt"]
+              }
+            }
+          },
+          required: ["category", "text", "evidence"]
+        }
+      }
     },
-    required: ["keyInsights", "painPoints", "wantsNeeds", "verdict"]
+    required: ["findings"]
   };
 
-  const response = await runWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
-    model: TEXT_MODEL,
+  // The sentiment timeline is a nice-to-have; a failure there should not cost the summary
+  const [raw, sentiment] = await Promise.all([
+    runWithRetry<{ findings?: RawSummaryFinding[] }>(() => getProvider().generateJson({
+      task: 'summary',
+      contents: prompt,
+      schema
+    })),
+    analyzeTurnSentiment(profile, messages).catch(err => {
+      console.error("Sentiment analysis failed", err);
+      return [];
+    })
+  ]);
+
+  return {
+    findings: (raw.findings || []).flatMap(finding => {
+      const category = SUMMARY_CATEGORIES.find(c => c.key === finding.category)?.key;
+      if (!category || !finding.text?.trim()) return [];
+      return [{
+        category,
+        text: finding.text.trim(),
+        evidence: (finding.evidence || []).map(citation => resolveEvidence(messages, citation))
+      }];
+    }),
+    sentiment
+  };
+}
+
+interface RawCitation {
+  respondent: string;
+  turn: number;
+}
+
+interface RawSynthesisGroup {
+  title: string;
+  description?: string;
+  respondents: string[];
+  quotes: RawCitation[];
+}
+
+interface RawSynthesis {
+  overview: string;
+  themes: RawSynthesisGroup[];
+  painPoints: RawSynthesisGroup[];
+  agreements: RawSynthesisGroup[];
+  disagreements: { topic: string; positions: { stance: string; respondents: string[]; quotes: RawCitation[] }[] }[];
+}
+
+/**
+ * Cross-interview synthesis over several transcripts.
+ * Respondents are labelled R1..Rn and every turn carries its index, so the model can cite
+ * turns; citations are then resolved against the real transcripts and invalid ones dropped.
+ */
+export const generateCrossInterviewSynthesis = async (
+  industry: string,
+  interviews: InterviewRecord[]
+): Promise<SynthesisReport> => {
+  const keyToInterview = new Map(interviews.map((interview, i) => [`R${i + 1}`, interview]));
+
+  const transcripts = interviews.map((interview, i) => {
+    const lines = interview.messages.map((m, turn) =>
+      `[#${turn}] ${m.role === 'user' ? '主持人' : interview.personaName}: ${m.text}`
+    ).join('\n');
+    return `=== R${i + 1} · ${interview.personaName} ===\n${lines}`;
+  }).join('\n\n');
+
+  const prompt = `
+    你是一位资深的定性研究分析师。以下是关于 "${industry}" 行业的 ${interviews.length} 份消费者访谈逐字稿。
+    每位受访者用 R1、R2... 标记，每条发言前的 [#数字] 是该发言在逐字稿中的序号。
+
+    ${transcripts}
+
+    任务：做跨访谈的综合分析。
+    1. overview: 一段总体结论。
+    2. themes: 归纳 3-6 个跨访谈的主题，列出提到该主题的受访者。
+    3. painPoints: 列出所有痛点，合并相同的痛点，列出提到它的每一位受访者。
+    4. agreements: 受访者之间的共识。
+    5. disagreements: 受访者观点分歧的话题，按不同立场分组。
+
+    要求：
+    - 每一项都必须用 quotes 引用支持它的原话，quote 只需给出受访者标记 (respondent) 和发言序号 (turn)，且只能引用受访者本人的发言。
+    - respondents 只能使用上面出现过的标记。
+    - 请使用中文。
+  `;
+
+  const citationSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      respondent: { type: Type.STRING },
+      turn: { type: Type.INTEGER }
+    },
+    required: ["respondent", "turn"]
+  };
+
+  const groupSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      description: { type: Type.STRING },
+      respondents: { type: Type.ARRAY, items: { type: Type.STRING } },
+      quotes: { type: Type.ARRAY, items: citationSchema }
+    },
+    required: ["title", "respondents", "quotes"]
+  };
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      overview: { type: Type.STRING },
+      themes: { type: Type.ARRAY, items: groupSchema },
+      painPoints: { type: Type.ARRAY, items: groupSchema },
+      agreements: { type: Type.ARRAY, items: groupSchema },
+      disagreements: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            topic: { type: Type.STRING },
+            positions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  stance: { type: Type.STRING },
+                  respondents: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  quotes: { type: Type.ARRAY, items: citationSchema }
+                },
+                required: ["stance", "respondents", "quotes"]
+              }
+            }
+          },
+          required: ["topic", "positions"]
+        }
+      }
+    },
+    required: ["overview", "themes", "painPoints", "agreements", "disagreements"]
+  };
+
+  const raw = await runWithRetry<RawSynthesis>(() => getProvider().generateJson({
+    task: 'synthesis',
     contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema
-    }
+    schema
+  }));
+
+  const resolveIds = (keys: string[] = []) =>
+    Array.from(new Set(keys.map(key => keyToInterview.get(key.trim())?.id).filter((id): id is string => !!id)));
+
+  // Keep only citations that point at a real respondent turn, and use the transcript text verbatim
+  const resolveQuotes = (citations: RawCitation[] = []): SynthesisQuote[] =>
+    citations.flatMap(citation => {
+      const interview = keyToInterview.get(citation.respondent.trim());
+      const message = interview?.messages[citation.turn];
+      if (!interview || !message || message.role !== 'model') return [];
+      return [{ interviewId: interview.id, turnIndex: citation.turn, text: message.text }];
+    });
+
+  const resolveGroup = (group: RawSynthesisGroup): SynthesisTheme => {
+    const quotes = resolveQuotes(group.quotes);
+    // A respondent who is quoted certainly raised the point, even if the model forgot to list them
+    const interviewIds = Array.from(new Set([...resolveIds(group.respondents), ...quotes.map(q => q.interviewId)]));
+    return { title: group.title, description: group.description || "", interviewIds, quotes };
+  };
+
+  return {
+    overview: raw.overview || "",
+    interviewIds: interviews.map(i => i.id),
+    themes: (raw.themes || []).map(resolveGroup),
+    painPoints: (raw.painPoints || []).map(resolveGroup).sort((a, b) => b.interviewIds.length - a.interviewIds.length),
+    agreements: (raw.agreements || []).map(resolveGroup),
+    disagreements: (raw.disagreements || []).map(d => ({
+      topic: d.topic,
+      positions: (d.positions || []).map(p => {
+        const quotes = resolveQuotes(p.quotes);
+        return {
+          stance: p.stance,
+          interviewIds: Array.from(new Set([...resolveIds(p.respondents), ...quotes.map(q => q.interviewId)])),
+          quotes
+        };
+      })
+    })),
+    createdAt: new Date()
+  };
+};
+
+/**
+ * Auto-coding pass over one transcript. Codes are keyed C1..Cn and turns carry their index;
+ * proposals for unknown codes or for anything but a respondent turn are dropped.
+ */
+export const autoCodeTranscript = async (
+  codebook: CodebookCode[],
+  transcript: { personaName: string; messages: ChatMessage[] },
+  industry: string
+): Promise<CodeProposal[]> => {
+  if (codebook.length === 0 || transcript.messages.length === 0) return [];
+
+  const lines = transcript.messages.map((m, turn) =>
+    `[#${turn}] ${m.role === 'user' ? '主持人' : (m.speakerName || transcript.personaName)}: ${transcriptText(m)}`
+  ).join('\n');
+
+  const prompt = `
+    你是一位严谨的定性研究编码员，正在按编码手册对一份关于 "${industry}" 的访谈逐字稿进行编码。
+
+    编码手册：
+    ${codebook.map((code, idx) => `C${idx + 1}: ${code.name}${code.description ? ` —— ${code.description}` : ''}`).join('\n    ')}
+
+    逐字稿 (每条发言前的 [#数字] 是发言序号)：
+    ${lines}
+
+    任务：逐条阅读受访者的发言，为每条发言标注所有适用的代码。
+    - 只标注受访者的发言，不标注主持人的提问。
+    - 一条发言可以有多个代码，也可以没有代码；只有发言内容明确符合代码定义时才标注。
+    - code 只能使用编码手册中的标记 (C1、C2...)，turn 为发言序号，rationale 用一句中文说明理由。
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      assignments: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            turn: { type: Type.INTEGER },
+            code: { type: Type.STRING },
+            rationale: { type: Type.STRING }
+          },
+          required: ["turn", "code"]
+        }
+      }
+    },
+    required: ["assignments"]
+  };
+
+  const raw = await runWithRetry<{ assignments?: { turn?: number; code?: string; rationale?: string }[] }>(() => getProvider().generateJson({
+    task: 'coding',
+    contents: prompt,
+    schema
   }));
 
-  return JSON.parse(response.text || "{}") as InterviewSummary;
-}
\ No newline at end of file
+  return (raw.assignments || []).flatMap(item => {
+    const code = codebook[Number(item.code?.trim().replace(/^C/i, '')) - 1];
+    const message = typeof item.turn === 'number' ? transcript.messages[item.turn] : undefined;
+    if (!code || !message || message.role !== 'model') return [];
+    return [{ codeId: code.id, turnIndex: item.turn!, rationale: item.rationale?.trim() || "" }];
+  });
+};
+
+const formatGroupTranscript = (messages: ChatMessage[], participants: PanelMember[]) =>
+  messages.map(m => {
+    if (m.role === 'model') return `${m.speakerName || '参与者'}: ${m.text}`;
+    const addressee = participants.find(p => p.id === m.addresseeId);
+    return `主持人${addressee ? ` (对 ${addressee.profile.name})` : ''}: ${m.text}`;
+  }).join('\n');
+
+/**
+ * One participant's turn in a focus group. Stateless: the whole group transcript is sent
+ * each time so the persona can react to what the others just said.
+ */
+export const getFocusGroupReply = async (
+  speaker: PanelMember,
+  participants: PanelMember[],
+  messages: ChatMessage[],
+  industry: string
+): Promise<string> => {
+  const others = participants.filter(p => p.id !== speaker.id).map(p => p.profile.name);
+  const lastModeratorMessage = [...messages].reverse().find(m => m.role === 'user');
+  const isAddressed = lastModeratorMessage?.addresseeId === speaker.id;
+
+  const prompt = `
+    你正在参加一场关于 "${industry}" 的消费者焦点小组座谈。
+    你【不是】AI，你是 "${speaker.profile.name}"，请严格保持角色，用中文发言。
+
+    你的资料：
+    ${speaker.profile.rawMarkdown}
+
+    在座的其他参与者：${others.join("、")}
+
+    目前的讨论记录：
+    ${formatGroupTranscript(messages, participants)}
+
+    现在轮到你发言。
+    ${isAddressed ? '主持人刚才是在直接问你，请正面回答。' : '请回应主持人的问题，也可以点名赞同或反驳其他参与者刚才的观点。'}
+
+    要求：
+    - 像真实座谈会一样自然。
+    - 坚持你自己的立场和说话风格，不必附和别人。
+    ${describeBehaviorForPrompt(getPersonaBehavior(speaker.profile)).map(rule => `- ${rule}`).join('\n    ')}
+    - 不要替别人发言，不要加上自己的名字前缀。
+  `;
+
+  const response = await runWithRetry<TextResult>(() => getProvider().generateText({
+    task: 'focusGroupReply',
+    contents: prompt
+  }));
+  return response.text.trim();
+};
+
+export interface FocusGroupModeratorTurn {
+  text: string;
+  addresseeId?: string; // Undefined means the whole group
+}
+
+/**
+ * AI moderator for focus groups: picks the next question and who it is aimed at.
+ * Returns null when the guide has been covered.
+ */
+export const getFocusGroupModeratorMessage = async (
+  messages: ChatMessage[],
+  guide: DiscussionGuide,
+  participants: PanelMember[],
+  turnCounts: Record<string, number>
+): Promise<FocusGroupModeratorTurn | null> => {
+  const speakingShare = participants
+    .map(p => `${p.profile.name}: ${turnCounts[p.id] || 0} 次发言`)
+    .join('，');
+
+  const prompt = `
+    你是一位经验丰富的焦点小组主持人，正在主持一场 ${participants.length} 人的消费者座谈。
+
+    参与者：${participants.map(p => p.profile.name).join("、")}
+    目前的发言次数：${speakingShare}
+
+    访谈提纲 (按环节推进，[必问] 的问题必须问到，"追问" 为可选深挖方向)：
+    ${formatGuideForPrompt(guide)}
+
+    讨论记录：
+    ${formatGroupTranscript(messages, participants)}
+
+    任务：给出主持人的下一句话。
+    - 可以向全体提问 (addressee 填 "ALL")，也可以点名某一位参与者 (addressee 填其名字)。
+    - 发言少的人要主动点名邀请，避免讨论被一两个人主导。
+    - 出现分歧时，邀请持不同观点的人互相回应。
+    - 每次只问一个问题，语气亲切自然。
+    - 如果提纲已经全部讨论充分 (所有 [必问] 问题都已问到)，把 complete 设为 true。
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      message: { type: Type.STRING },
+      addressee: { type: Type.STRING },
+      complete: { type: Type.BOOLEAN }
+    },
+    required: ["message", "addressee", "complete"]
+  };
+
+  const result = await runWithRetry<{ message?: string; addressee?: string; complete?: boolean }>(() => getProvider().generateJson({
+    task: 'focusGroupModerator',
+    contents: prompt,
+    schema
+  }));
+
+  if (result.complete || !result.message) return null;
+  const addressee = participants.find(p => p.profile.name === result.addressee?.trim());
+  return { text: result.message.trim(), addresseeId: addressee?.id };
+};
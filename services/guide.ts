@@ -0,0 +1,93 @@
+import { DiscussionGuide, GuideQuestion, GuideSection } from "../types";
+
+export interface GuideDimension {
+  icon: string;
+  title: string;
+  desc: string;
+  prompt: string; // What the generator should cover in this section
+}
+
+// The default research framework: one guide section per dimension
+export const GUIDE_DIMENSIONS: GuideDimension[] = [
+  { icon: "🏷️", title: "品牌/产品现状", desc: "使用时长、频率、环境", prompt: "询问目前使用的品牌/产品、使用时长、频率及具体环境（工作/娱乐/学习等）。" },
+  { icon: "🔄", title: "情境与习惯", desc: "日常路径、干扰与障碍", prompt: "挖掘每日使用时刻、常规操作路径（如购买、搜索信息）、以及遇到的任何干扰或障碍。" },
+  { icon: "⭐", title: "功能评价", desc: "评分、技术问题、性能瓶颈", prompt: "询问对主要功能的评价（优/良/差及原因），以及具体的技术问题或性能瓶颈。" },
+  { icon: "⚠️", title: "痛点挑战", desc: "常见问题、具体困难", prompt: "深入挖掘最常见的使用问题、困难点。" },
+  { icon: "💡", title: "改进期望", desc: "新增功能需求、未来建议", prompt: "询问对现有功能的改进建议、新增功能需求、以及对未来的期望。" },
+  { icon: "❤️", title: "情感满意度", desc: "总体体验、NPS推荐意愿", prompt: "询问总体情感体验（满意/失望）、期望值达成情况、以及持续使用或推荐的意愿。" },
+];
+
+export const DEFAULT_SECTION_MINUTES = 5;
+
+export const createGuideId = () => `g-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createGuideQuestion = (text = ""): GuideQuestion => ({
+  id: createGuideId(),
+  text,
+  probes: [],
+  mustAsk: false
+});
+
+export const createGuideSection = (title = "", questions: GuideQuestion[] = []): GuideSection => ({
+  id: createGuideId(),
+  title,
+  targetMinutes: DEFAULT_SECTION_MINUTES,
+  questions
+});
+
+export const createEmptyGuide = (): DiscussionGuide => ({ sections: [] });
+
+/**
+ * Accept the guide in any shape it was ever saved in. Projects from before sections
+ * existed stored a flat string[]; those become a single untitled section.
+ */
+export const normalizeGuide = (raw: DiscussionGuide | string[] | undefined | null): DiscussionGuide => {
+  if (!raw) return createEmptyGuide();
+  if (Array.isArray(raw)) {
+    const questions = raw.filter(q => q.trim().length > 0).map(q => createGuideQuestion(q));
+    return { sections: questions.length > 0 ? [createGuideSection("访谈问题", questions)] : [] };
+  }
+  return {
+    sections: (raw.sections || []).map(section => ({
+      ...section,
+      targetMinutes: section.targetMinutes || 0,
+      questions: (section.questions || []).map(q => ({ ...q, probes: q.probes || [], mustAsk: !!q.mustAsk }))
+    }))
+  };
+};
+
+export const getGuideQuestions = (guide: DiscussionGuide): GuideQuestion[] =>
+  guide.sections.flatMap(section => section.questions);
+
+export const getGuideMinutes = (guide: DiscussionGuide): number =>
+  guide.sections.reduce((sum, section) => sum + (section.targetMinutes || 0), 0);
+
+/**
+ * Drop blank questions, probes and emptied sections before the guide is used.
+ */
+export const cleanGuide = (guide: DiscussionGuide): DiscussionGuide => ({
+  sections: guide.sections
+    .map(section => ({
+      ...section,
+      title: section.title.trim(),
+      questions: section.questions
+        .filter(q => q.text.trim().length > 0)
+        .map(q => ({ ...q, text: q.text.trim(), probes: q.probes.map(p => p.trim()).filter(Boolean) }))
+    }))
+    .filter(section => section.questions.length > 0)
+});
+
+/**
+ * Plain-text rendering for moderator prompts: sections in order with their time budget,
+ * must-ask questions flagged and probes listed underneath.
+ */
+export const formatGuideForPrompt = (guide: DiscussionGuide): string =>
+  guide.sections.map((section, sIdx) => {
+    const header = `${sIdx + 1}. ${section.title || '未命名环节'}${section.targetMinutes ? ` (约 ${section.targetMinutes} 分钟)` : ''}`;
+    const questions = section.questions.map(q => {
+      const line = `   - ${q.mustAsk ? '[必问] ' : ''}${q.text}`;
+      const probes = q.probes.map(p => `       追问: ${p}`);
+      return [line, ...probes].join('\n');
+    });
+    return [header, ...questions].join('\n');
+  }).join('\n');
@@ -0,0 +1,107 @@
+import { ChatMessage, DiscussionGuide, GuideCoverage, GuideCoverageStatus, GuideQuestion } from "../types";
+import { getGuideQuestions } from "./guide";
+
+// Share of a guide question's character bigrams a moderator turn must contain to count as asking it
+const ASKED_SIMILARITY = 0.5;
+const TOUCHED_SIMILARITY = 0.3;
+// Answers shorter than this (characters, summed over the replies) only count as partial coverage
+const MIN_ANSWER_CHARS = 20;
+
+const STATUS_RANK: Record<GuideCoverageStatus, number> = { none: 0, partial: 1, covered: 2 };
+
+const bigrams = (text: string): Set<string> => {
+  const chars = text.replace(/[\s\p{P}]/gu, '').toLowerCase();
+  const grams = new Set<string>();
+  for (let i = 0; i < chars.length - 1; i++) grams.add(chars.slice(i, i + 2));
+  return grams;
+};
+
+const similarity = (question: Set<string>, text: string): number => {
+  if (question.size === 0) return 0;
+  const other = bigrams(text);
+  let shared = 0;
+  question.forEach(g => { if (other.has(g)) shared++; });
+  return shared / question.size;
+};
+
+/**
+ * Coverage from the transcript alone. A question counts as asked when a moderator turn
+ * closely matches it (or one of its probes), and as covered once the persona gave a
+ * substantial answer to it. Cheap enough to recompute on every message.
+ */
+export const matchGuideCoverage = (guide: DiscussionGuide, messages: ChatMessage[]): GuideCoverage => {
+  const coverage: GuideCoverage = {};
+
+  getGuideQuestions(guide).forEach(q => {
+    const variants = [q.text, ...q.probes].map(bigrams);
+    let status: GuideCoverageStatus = 'none';
+
+    messages.forEach((m, idx) => {
+      if (m.role !== 'user' || status === 'covered') return;
+      const score = Math.max(...variants.map(v => similarity(v, m.text)));
+      if (score < TOUCHED_SIMILARITY) return;
+
+      // Replies up to the next moderator turn answer this question
+      let answerChars = 0;
+      for (let i = idx + 1; i < messages.length && messages[i].role === 'model'; i++) {
+        answerChars += messages[i].text.length;
+      }
+      const next: GuideCoverageStatus = score >= ASKED_SIMILARITY && answerChars >= MIN_ANSWER_CHARS ? 'covered' : 'partial';
+      if (STATUS_RANK[next] > STATUS_RANK[status]) status = next;
+    });
+
+    coverage[q.id] = status;
+  });
+
+  return coverage;
+};
+
+/**
+ * The guide question each turn belongs to: a moderator turn links to the question it
+ * matches best (if any), and replies inherit the link of the turn they answer.
+ */
+export const linkTurnsToGuide = (guide: DiscussionGuide, messages: ChatMessage[]): (GuideQuestion | null)[] => {
+  const questions = getGuideQuestions(guide).map(q => ({ q, variants: [q.text, ...q.probes].map(bigrams) }));
+  let current: GuideQuestion | null = null;
+
+  return messages.map(m => {
+    if (m.role !== 'user') return current;
+    let best: GuideQuestion | null = null;
+    let bestScore = 0;
+    for (const { q, variants } of questions) {
+      const score = Math.max(...variants.map(v => similarity(v, m.text)));
+      if (score >= TOUCHED_SIMILARITY && score > bestScore) {
+        best = q;
+        bestScore = score;
+      }
+    }
+    current = best;
+    return current;
+  });
+};
+
+/**
+ * Combine two coverage readings, keeping the further-along status for each question.
+ */
+export const mergeCoverage = (a: GuideCoverage, b: GuideCoverage): GuideCoverage => {
+  const merged: GuideCoverage = { ...a };
+  Object.entries(b).forEach(([id, status]) => {
+    if (!merged[id] || STATUS_RANK[status] > STATUS_RANK[merged[id]]) merged[id] = status;
+  });
+  return merged;
+};
+
+export const getOpenMustAsk = (guide: DiscussionGuide, coverage: GuideCoverage): GuideQuestion[] =>
+  getGuideQuestions(guide).filter(q => q.mustAsk && coverage[q.id] !== 'covered');
+
+/**
+ * The AI moderator may not end the interview while must-ask questions are open.
+ * Returns the next open must-ask question to put verbatim, skipping ones already forced
+ * once so a persona who keeps answering briefly can't trap the interview in a loop.
+ */
+export const pickForcedMustAsk = (
+  guide: DiscussionGuide,
+  coverage: GuideCoverage,
+  alreadyForced: Set<string>
+): GuideQuestion | undefined =>
+  getOpenMustAsk(guide, coverage).find(q => !alreadyForced.has(q.id));
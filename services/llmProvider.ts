@@ -0,0 +1,101 @@
+import { Schema } from "@google/genai";
+import { GroundingSource } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+
+/**
+ * Identifies what a request is for. Real providers ignore it; the mock provider
+ * uses it to pick the scripted response.
+ */
+export type LLMTask =
+  | 'clarify'
+  | 'personaResearch'
+  | 'persona'
+  | 'personaSection'
+  | 'guide'
+  | 'moderator'
+  | 'coverage'
+  | 'consistency'
+  | 'summary'
+  | 'sentiment'
+  | 'synthesis'
+  | 'coding'
+  | 'waveMemory'
+  | 'conceptRating'
+  | 'focusGroupReply'
+  | 'focusGroupModerator';
+
+export type ContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export type LLMContents = string | ContentPart[];
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  parts: ContentPart[];
+}
+
+export interface TextRequest {
+  task: LLMTask;
+  contents: LLMContents;
+  useSearch?: boolean; // Ground the answer with live web search
+}
+
+export interface TextResult {
+  text: string;
+  sources: GroundingSource[];
+}
+
+export interface JsonRequest {
+  task: LLMTask;
+  contents: LLMContents;
+  schema: Schema;
+}
+
+export interface ChatSessionOptions {
+  systemInstruction: string;
+  history?: ChatTurn[];
+}
+
+export interface ChatSession {
+  sendMessage: (message: LLMContents) => Promise<string>;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generateText: (request: TextRequest) => Promise<TextResult>;
+  generateJson: <T>(request: JsonRequest) => Promise<T>;
+  createChat: (options: ChatSessionOptions) => ChatSession;
+  generateImage: (prompt: string) => Promise<string | undefined>; // Base64 PNG, undefined if none was produced
+}
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Provider chosen by the LLM_PROVIDER env variable ("gemini" by default, "mock" for offline demos).
+ */
+const createProviderFromEnv = (): LLMProvider => {
+  if (process.env.LLM_PROVIDER === 'mock') {
+    return createMockProvider();
+  }
+  return createGeminiProvider({
+    apiKey: process.env.API_KEY,
+    textModel: process.env.GEMINI_TEXT_MODEL || undefined,
+    imageModel: process.env.GEMINI_IMAGE_MODEL || undefined
+  });
+};
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+};
+
+/**
+ * Swap the provider at runtime (e.g. to inject a custom mock script).
+ */
+export const setProvider = (provider: LLMProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,60 @@
+import { ReportBlock, ReportDocument, formatTurnTime } from "./report";
+import { downloadBlob } from "./download";
+
+// Markdown control characters at the start of a line would turn plain text into structure
+const escapeLineStart = (line: string) => line.replace(/^(\s*)([#>*+-]|\d+\.)(\s)/, "$1\\$2$3");
+
+// Keep line breaks inside a paragraph or list item (two trailing spaces = hard break)
+const toMarkdownText = (text: string) =>
+  text.split("\n").map(line => escapeLineStart(line.trim())).filter(Boolean).join("  \n");
+
+const renderBlock = (block: ReportBlock): string => {
+  switch (block.type) {
+    case 'subheading':
+      return `### ${block.text}`;
+    case 'paragraph':
+      return toMarkdownText(block.text);
+    case 'list':
+      return block.items.map(item => `- ${toMarkdownText(item)}`).join("\n");
+    case 'fields':
+      return block.fields.map(field => `- **${field.label}**：${toMarkdownText(field.value)}`).join("\n");
+    case 'links':
+      return block.links.map(link => `- [${(link.title || link.uri).replace(/[[\]]/g, "")}](${link.uri})`).join("\n");
+    case 'quotes':
+      return block.quotes.map(q =>
+        [`> ${toMarkdownText(q.text).replace(/  \n/g, "  \n> ")}  `, `> —— ${q.attribution}`, ...(q.note ? [`\n*备注：${q.note}*`] : [])].join("\n")
+      ).join("\n\n");
+    case 'transcript':
+      return block.turns.map(turn => {
+        const time = formatTurnTime(turn.timestamp);
+        const stimulus = turn.stimulus ? [
+          `> ${turn.stimulus.label}`,
+          ...(turn.stimulus.image ? [`> ![${turn.stimulus.label}](data:image/jpeg;base64,${turn.stimulus.image.data})`] : []),
+          ...(turn.stimulus.text ? turn.stimulus.text.split("\n").map(line => `> ${line}`) : [])
+        ].join("  \n") + "\n\n" : "";
+        return `${stimulus}**${turn.speaker}**${time ? ` · ${time}` : ""}  \n${toMarkdownText(turn.text)}`;
+      }).join("\n\n");
+  }
+};
+
+/**
+ * Render a report as Markdown. Sections become `##` headings so the document pastes
+ * cleanly into editors such as Notion.
+ */
+export const renderReportMarkdown = (report: ReportDocument): string => {
+  const header = [
+    `# ${report.title}`,
+    [
+      ...report.meta.map(field => `- **${field.label}**：${toMarkdownText(field.value || "—")}`),
+      `- **生成时间**：${report.generatedAt.toLocaleString("zh-CN")}`
+    ].join("\n")
+  ];
+  const sections = report.sections.map((section, idx) =>
+    [`## ${idx + 1}. ${section.title}`, ...section.blocks.map(renderBlock).filter(Boolean)].join("\n\n")
+  );
+  return [...header, ...sections].join("\n\n") + "\n";
+};
+
+export const downloadReportMarkdown = (report: ReportDocument, filename: string) => {
+  downloadBlob(new Blob([renderReportMarkdown(report)], { type: "text/markdown;charset=utf-8" }), filename);
+};
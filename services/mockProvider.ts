@@ -0,0 +1,324 @@
+import { ClarifyingQuestion } from "../types";
+import { JsonRequest, LLMContents, LLMProvider, LLMTask } from "./llmProvider";
+
+/**
+ * Canned responses for the offline mock provider.
+ * Every task answers from its own list. Moderator scripts are walked by the transcript in the
+ * prompt, so concurrent interviews each follow their own copy and a run is fully deterministic.
+ */
+export interface MockScript {
+  clarifyingQuestions: ClarifyingQuestion[];
+  personaResearch: string;
+  personas: unknown[]; // Raw model output, cycled so panels get distinct people
+  guide: { title: string; targetMinutes: number; questions: { text: string; probes: string[]; mustAsk: boolean }[] }[]; // Raw sections, ids are assigned by the caller
+  moderatorQuestions: string[]; // Followed by [INTERVIEW_COMPLETE] once exhausted
+  greeting: string;
+  personaReplies: string[];
+  personaSectionRewrite: { content: string; score: number };
+  focusGroupReplies: string[]; // Cycled across all participants
+  summary: unknown; // Raw model output, turns cited by index into the transcript
+  sentiment: unknown; // Raw model output, turns cited by index into the transcript
+  synthesis: unknown; // Raw model output, respondents cited as R1..Rn
+  coding: unknown; // Raw model output, codes cited as C1..Cn in codebook order
+  waveMemory: unknown; // Raw model output
+  conceptRatings: unknown[]; // Raw model output, picked by prompt so concepts score differently
+  avatar?: string; // Base64 PNG
+}
+
+// 8x8 pixel-art face so the avatar slots render something offline
+const MOCK_AVATAR = "iVBORw0KGgoAAAANSUhEUgAAAAgAAAAICAIAAABLbSncAAAAOUlEQVR4nGP4DwYCOxvhCCLCABH9++AIHEHkGCCiMnpqEFEIAyjIgKYcrokIHUAhuDRIAqfluJwLAAUPhJ9MJzasAAAAAElFTkSuQmCC";
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = {
+  clarifyingQuestions: [],
+  personaResearch: "- 一二线城市的年轻家庭是主力人群\n- 购买前普遍在小红书、B 站看测评\n- 清洁麻烦和噪音是最常见的抱怨",
+  personas: [{
+    name: "精致妈妈Sarah",
+    summary: "在上海做市场经理的职场妈妈，早上分秒必争，愿意为设计和口碑买单。",
+    demographics: { fullName: "林晓 (Sarah)", age: 34, gender: "女", occupation: "外企市场经理", income: "月收入 3 万元", city: "上海", education: "硕士", household: "已婚，有一个五岁的孩子" },
+    psychographics: ["注重生活品质，愿意为设计和口碑买单", "时间紧张，追求效率"],
+    behaviors: ["主要在小红书做功课，在天猫旗舰店下单", "偏好有设计感的进口品牌"],
+    needs: ["早上时间紧，希望一键出品"],
+    painPoints: ["清洁麻烦是最大的挫折"],
+    speakingStyle: ["说话直接、语速快，喜欢举生活中的例子"],
+    quirks: ["习惯说“说实话”"],
+    scores: { demographics: 4, psychographics: 4, behaviors: 3, needs: 4 }
+  }, {
+    name: "极客小王",
+    summary: "杭州的后端工程师，相信数据不相信广告，喜欢折腾参数。",
+    demographics: { fullName: "王磊", age: 27, gender: "男", occupation: "互联网公司后端工程师", income: "月收入 2.5 万元", city: "杭州", education: "本科", household: "单身，独居" },
+    psychographics: ["喜欢研究参数，相信数据不相信广告"],
+    behaviors: ["在 B 站看测评，京东比价后下单，经常换品牌尝鲜"],
+    needs: ["希望能用手机精确控制萃取参数"],
+    painPoints: ["出品不稳定，同样的豆子每次味道不一样"],
+    speakingStyle: ["话不多，回答偏技术化"],
+    quirks: ["会报出具体的参数和数字"],
+    scores: { demographics: 3, psychographics: 3, behaviors: 4, needs: 3 }
+  }, {
+    name: "养生达人老李",
+    summary: "成都的国企中层，重视健康，对新东西谨慎，听子女的推荐。",
+    demographics: { fullName: "李建国", age: 52, gender: "男", occupation: "国企中层", income: "月收入 1.8 万元", city: "成都", education: "大专", household: "已婚，子女在外地工作" },
+    psychographics: ["重视健康，对新事物谨慎"],
+    behaviors: ["听子女推荐购买，价格敏感，认准老牌子"],
+    needs: ["操作越简单越好"],
+    painPoints: ["操作按钮太多看不懂", "担心咖啡因影响睡眠"],
+    speakingStyle: ["爱讲故事，说话慢条斯理"],
+    quirks: ["经常提起“我们年轻的时候”"],
+    scores: { demographics: 4, psychographics: 3, behaviors: 3, needs: 3 }
+  }],
+  guide: [
+    {
+      title: "品牌/产品现状",
+      targetMinutes: 5,
+      questions: [{ text: "您目前在用什么品牌的咖啡机？用了多久了？", probes: ["当时为什么选了这一款？"], mustAsk: true }]
+    },
+    {
+      title: "情境与习惯",
+      targetMinutes: 8,
+      questions: [{ text: "一天中什么时候用得最多？一般是怎么操作的？", probes: ["能具体描述一下那个场景吗？"], mustAsk: false }]
+    },
+    {
+      title: "功能评价",
+      targetMinutes: 8,
+      questions: [{ text: "您觉得现在这台机器哪些功能最好用，哪些最不满意？", probes: [], mustAsk: false }]
+    },
+    {
+      title: "痛点挑战",
+      targetMinutes: 8,
+      questions: [{ text: "使用过程中最让您头疼的问题是什么？", probes: ["这个问题多久遇到一次？", "您当时是怎么解决的？"], mustAsk: true }]
+    },
+    {
+      title: "改进期望",
+      targetMinutes: 6,
+      questions: [{ text: "如果可以改进一个地方，您最希望改什么？", probes: ["理想的解决方案是怎样的？"], mustAsk: false }]
+    },
+    {
+      title: "情感满意度",
+      targetMinutes: 5,
+      questions: [{ text: "整体来说您满意吗？会推荐给朋友吗？", probes: [], mustAsk: true }]
+    }
+  ],
+  moderatorQuestions: [
+    "您目前在用什么品牌的咖啡机？用了多久了？",
+    "您刚才提到早上时间很紧，能具体描述一下那个场景吗？",
+    "使用过程中最让您头疼的问题是什么？",
+    "如果可以改进一个地方，您最希望改什么？"
+  ],
+  greeting: "你好，我是 Sarah，在上海做市场工作，家里有个五岁的孩子，平时离不开咖啡。",
+  personaReplies: [
+    "现在用的是一台德龙的半自动，用了两年多了，当时是看小红书推荐买的。",
+    "主要是早上七点多，送孩子之前要赶紧做一杯，有时候磨豆的声音会把孩子吵醒。",
+    "出品还挺稳定的，但是清洗太麻烦了，奶泡管每次都要拆下来洗。",
+    "说实话最希望它能自己清洁，或者至少清洁步骤能少一半。",
+    "总体还算满意吧，但如果朋友问，我会提醒他们清洁这件事。"
+  ],
+  personaSectionRewrite: {
+    content: "- 对价格非常敏感，下单前会在多个平台反复比价\n- 更愿意等大促或买二手\n- 认为贵的功能大多用不上",
+    score: 4
+  },
+  focusGroupReplies: [
+    "我跟大家不太一样，我最在意的是早上能不能快，清洁反而可以忍。",
+    "我倒觉得清洁才是大问题，机器再好用，洗起来麻烦就不想用了。",
+    "我同意刚才说的，不过我更关心按钮别太多，老人也要能用。",
+    "参数能不能调对我来说很重要，不然味道总是不稳定。",
+    "价格也要考虑，功能多了贵一倍，我是不会买的。"
+  ],
+  summary: {
+    findings: [
+      { category: "insight", text: "早晨时间窗口极短，效率是核心诉求", evidence: [{ turn: 4, excerpt: "早上七点多，送孩子之前要赶紧做一杯" }] },
+      { category: "insight", text: "购买决策高度依赖社交平台口碑", evidence: [{ turn: 2, excerpt: "当时是看小红书推荐买的" }] },
+      { category: "insight", text: "清洁体验直接影响推荐意愿", evidence: [{ turn: 10, excerpt: "如果朋友问，我会提醒他们清洁这件事" }] },
+      { category: "painPoint", text: "奶泡系统清洁繁琐", evidence: [{ turn: 6, excerpt: "清洗太麻烦了，奶泡管每次都要拆下来洗" }] },
+      { category: "painPoint", text: "磨豆噪音影响家人", evidence: [{ turn: 4, excerpt: "磨豆的声音会把孩子吵醒" }] },
+      { category: "need", text: "自动清洁，或大幅简化清洁步骤", evidence: [{ turn: 8, excerpt: "最希望它能自己清洁" }] },
+      { category: "verdict", text: "对现有产品基本满意，但清洁问题会降低推荐意愿", evidence: [{ turn: 10, excerpt: "总体还算满意吧" }, { turn: 6, excerpt: "出品还挺稳定的" }] }
+    ]
+  },
+  sentiment: {
+    turns: [
+      { turn: 0, score: 1, emotion: "satisfaction" },
+      { turn: 2, score: 1, emotion: "satisfaction" },
+      { turn: 4, score: -1, emotion: "worry" },
+      { turn: 6, score: -2, emotion: "frustration" },
+      { turn: 8, score: 0, emotion: "neutral" },
+      { turn: 10, score: 1, emotion: "satisfaction" }
+    ]
+  },
+  synthesis: {
+    overview: "受访者普遍认可现有咖啡机的出品，但清洁和早晨效率是共同的短板。",
+    themes: [
+      { title: "早晨效率", description: "早上时间窗口短，希望快速出品。", respondents: ["R1", "R2"], quotes: [{ respondent: "R1", turn: 4 }] },
+      { title: "社交平台种草", description: "购买决策依赖小红书、B 站等平台的口碑。", respondents: ["R1"], quotes: [{ respondent: "R1", turn: 2 }] }
+    ],
+    painPoints: [
+      { title: "清洁繁琐", respondents: ["R1", "R2", "R3"], quotes: [{ respondent: "R1", turn: 6 }, { respondent: "R2", turn: 6 }] },
+      { title: "磨豆噪音", respondents: ["R1"], quotes: [{ respondent: "R1", turn: 4 }] }
+    ],
+    agreements: [
+      { title: "出品稳定性令人满意", respondents: ["R1", "R2"], quotes: [{ respondent: "R2", turn: 6 }] }
+    ],
+    disagreements: [
+      {
+        topic: "是否愿意推荐",
+        positions: [
+          { stance: "会推荐，但会提醒清洁问题", respondents: ["R1"], quotes: [{ respondent: "R1", turn: 10 }] },
+          { stance: "暂不推荐", respondents: ["R3"], quotes: [] }
+        ]
+      }
+    ]
+  },
+  // Against the default codebook: C1 品牌/产品现状, C2 情境与习惯, C3 功能评价, C4 痛点挑战, C5 改进期望, C6 情感满意度
+  coding: {
+    assignments: [
+      { turn: 2, code: "C1", rationale: "提到正在使用的品牌和使用时长。" },
+      { turn: 4, code: "C2", rationale: "描述了早上的使用时段和场景。" },
+      { turn: 4, code: "C4", rationale: "磨豆噪音会吵醒孩子。" },
+      { turn: 6, code: "C3", rationale: "评价出品稳定性。" },
+      { turn: 6, code: "C4", rationale: "清洗奶泡管很麻烦。" },
+      { turn: 8, code: "C5", rationale: "希望机器能自动清洁。" },
+      { turn: 10, code: "C6", rationale: "总体满意度和推荐意愿。" }
+    ]
+  },
+  waveMemory: {
+    intentions: ["想试试带自动清洁功能的新款咖啡机", "打算换一款更安静的磨豆机"],
+    feelings: ["对出品稳定性满意", "每天清洗奶泡管很烦"],
+    facts: ["早上七点多要赶在送孩子前做咖啡", "当初是看小红书推荐买的"]
+  },
+  conceptRatings: [
+    {
+      purchaseIntent: { score: 4, reason: "自动清洁正好解决我最烦的问题，价格合适就会买。" },
+      appeal: { score: 5, reason: "早上不用再洗奶泡管，很打动我。" },
+      uniqueness: { score: 3, reason: "有些品牌已经在做类似的功能。" },
+      believability: { score: 3, reason: "担心自动清洁洗不干净。" }
+    },
+    {
+      purchaseIntent: { score: 2, reason: "现在的机器还能用，没必要为这个换。" },
+      appeal: { score: 3, reason: "外观好看，但功能上没什么新鲜的。" },
+      uniqueness: { score: 2, reason: "看起来和别的咖啡机差不多。" },
+      believability: { score: 4, reason: "描述的功能都很实在。" }
+    },
+    {
+      purchaseIntent: { score: 3, reason: "静音设计挺吸引人，但要看实际测评。" },
+      appeal: { score: 4, reason: "不会吵醒孩子这点很重要。" },
+      uniqueness: { score: 4, reason: "没见过主打静音的咖啡机。" },
+      believability: { score: 2, reason: "磨豆怎么可能做到这么安静，有点怀疑。" }
+    }
+  ],
+  avatar: MOCK_AVATAR
+};
+
+const MOCK_LATENCY_MS = 400;
+
+const delay = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+const textOf = (contents: LLMContents) =>
+  typeof contents === 'string' ? contents : contents.map(part => 'text' in part ? part.text : '').join('\n');
+
+// Moderator lines already in the prompt's transcript, i.e. how far this conversation's script has got
+const countModeratorTurns = (contents: LLMContents) =>
+  (textOf(contents).match(/^\s*主持人( \(对 [^)]*\))?: /gm) || []).length;
+
+// Stable pick for prompts that carry no turn count, independent of call order
+const pickFor = <T>(items: T[], contents: LLMContents): T => {
+  let hash = 0;
+  for (const char of textOf(contents)) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return items[hash % items.length];
+};
+
+/**
+ * Deterministic scripted provider for demos and offline testing. Needs no network or API key.
+ */
+export const createMockProvider = (script: MockScript = DEFAULT_MOCK_SCRIPT): LLMProvider => {
+  let personaCalls = 0;
+  let focusGroupReplyCalls = 0;
+
+  const textFor = (task: LLMTask, contents: LLMContents): string => {
+    switch (task) {
+      case 'personaResearch':
+        return script.personaResearch;
+      case 'moderator': {
+        // Walk the scripted questions, then finish; a new interview has no questions yet and starts over
+        const index = countModeratorTurns(contents);
+        return index < script.moderatorQuestions.length ? script.moderatorQuestions[index] : "[INTERVIEW_COMPLETE]";
+      }
+      case 'focusGroupReply':
+        return script.focusGroupReplies[focusGroupReplyCalls++ % script.focusGroupReplies.length];
+      default:
+        return "";
+    }
+  };
+
+  const jsonFor = (task: LLMTask, contents: LLMContents): unknown => {
+    switch (task) {
+      case 'persona':
+        return script.personas[personaCalls++ % script.personas.length];
+      case 'clarify':
+        return { needsClarification: script.clarifyingQuestions.length > 0, questions: script.clarifyingQuestions };
+      case 'guide':
+        return { sections: script.guide };
+      case 'personaSection':
+        return script.personaSectionRewrite;
+      case 'coverage':
+        // No scripted judgement; the tracker falls back to transcript matching
+        return { items: [] };
+      case 'consistency':
+        // The scripted persona never breaks character; assistant-like phrasing is still caught by pattern
+        return { issues: [] };
+      case 'summary':
+        return script.summary;
+      case 'sentiment':
+        return script.sentiment;
+      case 'synthesis':
+        return script.synthesis;
+      case 'coding':
+        return script.coding;
+      case 'waveMemory':
+        return script.waveMemory;
+      case 'conceptRating':
+        return pickFor(script.conceptRatings, contents);
+      case 'focusGroupModerator': {
+        // Same questions as the 1:1 moderator, put to the whole group
+        const index = countModeratorTurns(contents);
+        return index < script.moderatorQuestions.length
+          ? { message: script.moderatorQuestions[index], addressee: "ALL", complete: false }
+          : { message: "", addressee: "ALL", complete: true };
+      }
+      default:
+        return {};
+    }
+  };
+
+  return {
+    name: 'mock',
+
+    generateText: async ({ task, contents }) => {
+      await delay();
+      return { text: textFor(task, contents), sources: [] };
+    },
+
+    generateJson: async <T>({ task, contents }: JsonRequest): Promise<T> => {
+      await delay();
+      // Deep copy so callers can't mutate the script
+      return JSON.parse(JSON.stringify(jsonFor(task, contents))) as T;
+    },
+
+    createChat: ({ history = [] }) => {
+      // Resume the reply script where the restored transcript left off
+      let replyIndex = history.filter(turn => turn.role === 'model').length - 1;
+      return {
+        sendMessage: async () => {
+          await delay();
+          const reply = replyIndex < 0
+            ? script.greeting
+            : script.personaReplies[replyIndex % script.personaReplies.length];
+          replyIndex++;
+          return reply;
+        }
+      };
+    },
+
+    generateImage: async () => {
+      await delay();
+      return script.avatar;
+    }
+  };
+};
@@ -0,0 +1,103 @@
+import { BrandLoyalty, PanelConfig, PanelMember, PanelSlot, PriceSensitivity, ResearchConfig } from "../types";
+import { generatePersonaProfile } from "./geminiService";
+
+export const MIN_PANEL_SIZE = 2;
+export const MAX_PANEL_SIZE = 12;
+
+export const AGE_BAND_OPTIONS = ['18-24', '25-34', '35-44', '45-54', '55+'];
+
+export const PRICE_SENSITIVITY_LABELS: Record<PriceSensitivity, string> = {
+  low: '价格不敏感',
+  medium: '适度比价',
+  high: '价格敏感'
+};
+
+export const BRAND_LOYALTY_LABELS: Record<BrandLoyalty, string> = {
+  loyal: '品牌忠诚',
+  switcher: '经常换品牌',
+  indifferent: '不在乎品牌'
+};
+
+export const DEFAULT_PANEL_CONFIG: PanelConfig = {
+  size: 6,
+  ageBands: ['25-34', '35-44', '45-54'],
+  priceSensitivity: ['low', 'medium', 'high'],
+  brandLoyalty: ['loyal', 'switcher', 'indifferent']
+};
+
+const pick = <T>(values: T[], index: number): T | undefined =>
+  values.length > 0 ? values[index % values.length] : undefined;
+
+/**
+ * Spread the diversity constraints over the panel.
+ * Each dimension is shifted per "round" of age bands so the combinations rotate
+ * instead of always pairing the same age band with the same price sensitivity.
+ */
+export const buildPanelSlots = (panel: PanelConfig): PanelSlot[] => {
+  const round = (i: number) => Math.floor(i / Math.max(panel.ageBands.length, 1));
+  return Array.from({ length: panel.size }, (_, i) => ({
+    ageBand: pick(panel.ageBands, i),
+    priceSensitivity: pick(panel.priceSensitivity, i + round(i)),
+    brandLoyalty: pick(panel.brandLoyalty, i + 2 * round(i))
+  }));
+};
+
+export const describeSlot = (slot: PanelSlot): string => {
+  const parts: string[] = [];
+  if (slot.ageBand) parts.push(`年龄 ${slot.ageBand} 岁`);
+  if (slot.priceSensitivity) parts.push(PRICE_SENSITIVITY_LABELS[slot.priceSensitivity]);
+  if (slot.brandLoyalty) parts.push(BRAND_LOYALTY_LABELS[slot.brandLoyalty]);
+  return parts.join('，');
+};
+
+export const createMemberId = () => `m-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+/**
+ * Generate one panel member for a slot. Names already on the roster are passed so the
+ * model produces a clearly different person.
+ */
+export const generatePanelMember = async (
+  config: ResearchConfig,
+  clarifications: string[],
+  slot: PanelSlot,
+  existingNames: string[]
+): Promise<PanelMember> => {
+  const { profile, sources } = await generatePersonaProfile(
+    config.industry,
+    config.targetAudience,
+    clarifications,
+    config.referenceMaterials || [],
+    { diversityBrief: describeSlot(slot), avoidNames: existingNames }
+  );
+  return { id: createMemberId(), slot, profile, sources, status: 'pending' };
+};
+
+/**
+ * Generate the whole panel one member at a time (keeps us under the rate limit).
+ * A member that fails is skipped rather than failing the whole panel.
+ */
+export const generatePersonaPanel = async (
+  config: ResearchConfig,
+  clarifications: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<PanelMember[]> => {
+  if (!config.panel) return [];
+
+  const slots = buildPanelSlots(config.panel);
+  const members: PanelMember[] = [];
+
+  for (let i = 0; i < slots.length; i++) {
+    onProgress?.(i, slots.length);
+    try {
+      members.push(await generatePanelMember(config, clarifications, slots[i], members.map(m => m.profile.name)));
+    } catch (err) {
+      console.error(`Panel member ${i + 1} failed`, err);
+    }
+  }
+  onProgress?.(slots.length, slots.length);
+
+  if (members.length === 0) {
+    throw new Error("Panel generation produced no personas");
+  }
+  return members;
+};
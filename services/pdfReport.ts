@@ -0,0 +1,359 @@
+import { jsPDF } from "jspdf";
+import { ReportBlock, ReportDocument, TranscriptStimulus, TranscriptTurn, formatTurnTime } from "./report";
+
+// jsPDF's built-in fonts have no CJK glyphs, so a TrueType CJK font is fetched and embedded.
+// PDF_CJK_FONT_URL can point at a self-hosted copy (e.g. /fonts/NotoSansSC.ttf in public/).
+const DEFAULT_CJK_FONT_URL = "https://raw.githubusercontent.com/google/fonts/main/ofl/notosanssc/NotoSansSC%5Bwght%5D.ttf";
+const CJK_FONT_URL = process.env.PDF_CJK_FONT_URL || DEFAULT_CJK_FONT_URL;
+const FONT_FILE = "cjk.ttf";
+const FONT_NAME = "CJK";
+
+// A4 portrait, in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN_X = 20;
+const MARGIN_TOP = 22;
+const MARGIN_BOTTOM = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+
+const PT_TO_MM = 0.3528;
+const LINE_SPACING = 1.5;
+
+const FONT_SIZES = { title: 24, section: 16, subheading: 12, body: 10.5, small: 8.5 };
+
+const COLORS = {
+  text: [41, 37, 36],
+  muted: [120, 113, 108],
+  accent: [6, 95, 70],
+  rule: [214, 211, 209],
+  quote: [245, 158, 11],
+} as const;
+
+// Transcript layout: speaker column on the left, the turn's text on the right
+const SPEAKER_COLUMN = 26;
+const TURN_GAP = 3;
+// Longest edge of a stimulus thumbnail, in mm
+const STIMULUS_IMAGE_SIZE = 50;
+
+const TOC_LINE_HEIGHT = 8;
+
+let fontDataPromise: Promise<string> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Fetch the CJK font once per session.
+ */
+const loadCjkFont = (): Promise<string> => {
+  if (fontDataPromise) return fontDataPromise;
+  fontDataPromise = fetch(CJK_FONT_URL)
+    .then(res => {
+      if (!res.ok) throw new Error(`Font request failed with ${res.status}`);
+      return res.arrayBuffer();
+    })
+    .then(toBase64)
+    .catch(err => {
+      fontDataPromise = null;
+      throw new Error(`无法加载 PDF 中文字体 (${CJK_FONT_URL})，请检查网络或配置 PDF_CJK_FONT_URL。${err instanceof Error ? err.message : ""}`);
+    });
+  return fontDataPromise;
+};
+
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * LINE_SPACING;
+
+interface TocEntry {
+  title: string;
+  level: 1 | 2;
+  page: number;
+}
+
+/**
+ * Lay out a report as a text PDF: cover, table of contents, one page run per section,
+ * then page numbers. Text is always broken between lines, never through one.
+ */
+export const renderReportPdf = async (report: ReportDocument): Promise<jsPDF> => {
+  const fontData = await loadCjkFont();
+  const pdf = new jsPDF({ orientation: "p", unit: "mm", format: "a4" });
+  pdf.addFileToVFS(FONT_FILE, fontData);
+  pdf.addFont(FONT_FILE, FONT_NAME, "normal");
+  pdf.setFont(FONT_NAME, "normal");
+
+  let y = MARGIN_TOP;
+
+  const setStyle = (size: number, color: readonly number[] = COLORS.text) => {
+    pdf.setFontSize(size);
+    pdf.setTextColor(color[0], color[1], color[2]);
+  };
+
+  const wrap = (text: string, width: number): string[] =>
+    text.split("\n").flatMap(paragraph => paragraph.trim() ? pdf.splitTextToSize(paragraph, width) as string[] : []);
+
+  const newPage = () => {
+    pdf.addPage();
+    y = MARGIN_TOP;
+  };
+
+  // Start a new page unless `height` still fits on this one
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN_BOTTOM) newPage();
+  };
+
+  const writeLines = (lines: string[], x: number, size: number) => {
+    const lh = lineHeight(size);
+    lines.forEach(line => {
+      ensureSpace(lh);
+      pdf.text(line, x, y, { baseline: "top" });
+      y += lh;
+    });
+  };
+
+  // --- Cover ---
+  setStyle(FONT_SIZES.title, COLORS.accent);
+  pdf.text(report.title, MARGIN_X, 70, { baseline: "top" });
+  pdf.setDrawColor(COLORS.accent[0], COLORS.accent[1], COLORS.accent[2]);
+  pdf.setLineWidth(0.8);
+  pdf.line(MARGIN_X, 86, PAGE_WIDTH - MARGIN_X, 86);
+  y = 96;
+  report.meta.forEach(field => {
+    setStyle(FONT_SIZES.small, COLORS.muted);
+    pdf.text(field.label, MARGIN_X, y, { baseline: "top" });
+    y += lineHeight(FONT_SIZES.small);
+    setStyle(FONT_SIZES.subheading);
+    writeLines(wrap(field.value || "—", CONTENT_WIDTH), MARGIN_X, FONT_SIZES.subheading);
+    y += 4;
+  });
+  setStyle(FONT_SIZES.small, COLORS.muted);
+  pdf.text(`生成时间：${report.generatedAt.toLocaleString("zh-CN")}`, MARGIN_X, PAGE_HEIGHT - 40, { baseline: "top" });
+  pdf.text("PersonaLink AI Research", MARGIN_X, PAGE_HEIGHT - 34, { baseline: "top" });
+
+  // --- Table of contents: reserve its pages now, fill them in once page numbers are known ---
+  const tocCount = report.sections.reduce(
+    (sum, s) => sum + 1 + s.blocks.filter(b => b.type === 'subheading').length, 0
+  );
+  const tocPerPage = Math.floor((PAGE_HEIGHT - MARGIN_TOP - MARGIN_BOTTOM - 20) / TOC_LINE_HEIGHT);
+  const tocFirstPage = 2;
+  const tocPages = Math.max(1, Math.ceil(tocCount / tocPerPage));
+  for (let i = 0; i < tocPages; i++) pdf.addPage();
+
+  const toc: TocEntry[] = [];
+  const currentPage = () => pdf.getNumberOfPages();
+
+  // --- Blocks ---
+  const drawQuoteRule = (top: number, bottom: number) => {
+    pdf.setDrawColor(COLORS.quote[0], COLORS.quote[1], COLORS.quote[2]);
+    pdf.setLineWidth(0.8);
+    pdf.line(MARGIN_X + 1.5, top, MARGIN_X + 1.5, bottom - 1);
+  };
+
+  // What was shown with a question, in the text column above it
+  const renderStimulus = (stimulus: TranscriptStimulus) => {
+    const x = MARGIN_X + SPEAKER_COLUMN;
+    const width = CONTENT_WIDTH - SPEAKER_COLUMN;
+    const labelHeight = lineHeight(FONT_SIZES.small);
+    const image = stimulus.image;
+    const scale = image ? STIMULUS_IMAGE_SIZE / Math.max(image.width, image.height) : 0;
+    const imageHeight = image ? image.height * scale : 0;
+    // Keep the label with the image, or with the first lines of the copy
+    ensureSpace(labelHeight + (image ? imageHeight : labelHeight * 2));
+    setStyle(FONT_SIZES.small, COLORS.muted);
+    pdf.text(stimulus.label, x, y, { baseline: "top" });
+    y += labelHeight + 1;
+    if (image) {
+      pdf.addImage(`data:image/jpeg;base64,${image.data}`, "JPEG", x, y, image.width * scale, imageHeight);
+      pdf.setDrawColor(COLORS.rule[0], COLORS.rule[1], COLORS.rule[2]);
+      pdf.setLineWidth(0.2);
+      pdf.rect(x, y, image.width * scale, imageHeight);
+      y += imageHeight + 2;
+    }
+    if (stimulus.text) {
+      setStyle(FONT_SIZES.small, COLORS.text);
+      writeLines(wrap(stimulus.text, width - 4), x + 4, FONT_SIZES.small);
+      y += 2;
+    }
+  };
+
+  const renderTranscriptTurn = (turn: TranscriptTurn) => {
+    if (turn.stimulus) renderStimulus(turn.stimulus);
+    const size = FONT_SIZES.body;
+    const lh = lineHeight(size);
+    const textX = MARGIN_X + SPEAKER_COLUMN;
+    const lines = wrap(turn.text, CONTENT_WIDTH - SPEAKER_COLUMN);
+    const speakerColor = turn.isInterviewer ? COLORS.muted : COLORS.accent;
+
+    // Returns the bottom of the label column, so short turns leave room for it
+    const writeSpeaker = (continued: boolean): number => {
+      setStyle(FONT_SIZES.small, speakerColor);
+      const label = continued ? `${turn.speaker}（续）` : turn.speaker;
+      const labelLines = pdf.splitTextToSize(label, SPEAKER_COLUMN - 3) as string[];
+      let bottom = y + 0.6 + labelLines.length * lineHeight(FONT_SIZES.small);
+      pdf.text(labelLines, MARGIN_X, y + 0.6, { baseline: "top" });
+      const time = continued ? "" : formatTurnTime(turn.timestamp);
+      if (time) {
+        setStyle(FONT_SIZES.small - 1, COLORS.muted);
+        pdf.text(time, MARGIN_X, bottom, { baseline: "top" });
+        bottom += lineHeight(FONT_SIZES.small - 1);
+      }
+      setStyle(size, turn.isInterviewer ? COLORS.muted : COLORS.text);
+      return bottom;
+    };
+
+    // Keep the speaker label with at least two lines of the turn
+    ensureSpace(Math.max(Math.min(lines.length, 2) * lh, 10));
+    let labelBottom = writeSpeaker(false);
+    lines.forEach((line, idx) => {
+      if (y + lh > PAGE_HEIGHT - MARGIN_BOTTOM) {
+        newPage();
+        if (idx > 0) labelBottom = writeSpeaker(true);
+      }
+      pdf.text(line, textX, y, { baseline: "top" });
+      y += lh;
+    });
+    y = Math.max(y, labelBottom) + TURN_GAP;
+  };
+
+  const renderBlock = (block: ReportBlock) => {
+    switch (block.type) {
+      case 'subheading': {
+        const lh = lineHeight(FONT_SIZES.subheading);
+        // Never leave a heading alone at the bottom of a page
+        ensureSpace(lh + lineHeight(FONT_SIZES.body) * 2);
+        y += 2;
+        toc.push({ title: block.text, level: 2, page: currentPage() });
+        setStyle(FONT_SIZES.subheading, COLORS.accent);
+        writeLines(wrap(block.text, CONTENT_WIDTH), MARGIN_X, FONT_SIZES.subheading);
+        y += 1;
+        break;
+      }
+      case 'paragraph':
+        setStyle(FONT_SIZES.body);
+        writeLines(wrap(block.text, CONTENT_WIDTH), MARGIN_X, FONT_SIZES.body);
+        y += 3;
+        break;
+      case 'list':
+        block.items.forEach(item => {
+          const lines = wrap(item, CONTENT_WIDTH - 5);
+          ensureSpace(lineHeight(FONT_SIZES.body));
+          setStyle(FONT_SIZES.body, COLORS.accent);
+          pdf.text("•", MARGIN_X + 1, y, { baseline: "top" });
+          setStyle(FONT_SIZES.body);
+          writeLines(lines, MARGIN_X + 5, FONT_SIZES.body);
+        });
+        y += 3;
+        break;
+      case 'fields':
+        block.fields.forEach(field => {
+          ensureSpace(lineHeight(FONT_SIZES.body));
+          setStyle(FONT_SIZES.body, COLORS.muted);
+          pdf.text(field.label, MARGIN_X, y, { baseline: "top" });
+          setStyle(FONT_SIZES.body);
+          writeLines(wrap(field.value, CONTENT_WIDTH - 30), MARGIN_X + 30, FONT_SIZES.body);
+        });
+        y += 3;
+        break;
+      case 'links':
+        block.links.forEach(link => {
+          ensureSpace(lineHeight(FONT_SIZES.body) + lineHeight(FONT_SIZES.small));
+          setStyle(FONT_SIZES.body);
+          writeLines(wrap(link.title || link.uri, CONTENT_WIDTH), MARGIN_X, FONT_SIZES.body);
+          setStyle(FONT_SIZES.small, COLORS.muted);
+          wrap(link.uri, CONTENT_WIDTH).forEach(line => {
+            writeLines([line], MARGIN_X, FONT_SIZES.small);
+            pdf.link(MARGIN_X, y - lineHeight(FONT_SIZES.small), CONTENT_WIDTH, lineHeight(FONT_SIZES.small), { url: link.uri });
+          });
+          y += 2;
+        });
+        break;
+      case 'quotes':
+        block.quotes.forEach(q => {
+          const lines = wrap(q.text, CONTENT_WIDTH - 6);
+          const lh = lineHeight(FONT_SIZES.body);
+          // Keep a quote's first lines together with its rule
+          ensureSpace(Math.min(lines.length, 3) * lh);
+          setStyle(FONT_SIZES.body);
+          let ruleTop = y;
+          lines.forEach(line => {
+            if (y + lh > PAGE_HEIGHT - MARGIN_BOTTOM) {
+              drawQuoteRule(ruleTop, y);
+              newPage();
+              ruleTop = y;
+            }
+            pdf.text(line, MARGIN_X + 6, y, { baseline: "top" });
+            y += lh;
+          });
+          drawQuoteRule(ruleTop, y);
+          setStyle(FONT_SIZES.small, COLORS.muted);
+          writeLines(wrap(`—— ${q.attribution}`, CONTENT_WIDTH - 6), MARGIN_X + 6, FONT_SIZES.small);
+          if (q.note) writeLines(wrap(`备注：${q.note}`, CONTENT_WIDTH - 6), MARGIN_X + 6, FONT_SIZES.small);
+          y += 4;
+        });
+        break;
+      case 'transcript':
+        block.turns.forEach(renderTranscriptTurn);
+        break;
+    }
+  };
+
+  report.sections.forEach((section, idx) => {
+    newPage();
+    toc.push({ title: `${idx + 1}. ${section.title}`, level: 1, page: currentPage() });
+    setStyle(FONT_SIZES.section, COLORS.accent);
+    writeLines(wrap(`${idx + 1}. ${section.title}`, CONTENT_WIDTH), MARGIN_X, FONT_SIZES.section);
+    pdf.setDrawColor(COLORS.rule[0], COLORS.rule[1], COLORS.rule[2]);
+    pdf.setLineWidth(0.3);
+    pdf.line(MARGIN_X, y + 1, PAGE_WIDTH - MARGIN_X, y + 1);
+    y += 6;
+    section.blocks.forEach(renderBlock);
+  });
+
+  // --- Fill in the table of contents and bookmarks ---
+  let parent: unknown = null;
+  toc.forEach((entry, idx) => {
+    const page = tocFirstPage + Math.floor(idx / tocPerPage);
+    pdf.setPage(page);
+    if (idx % tocPerPage === 0) {
+      setStyle(FONT_SIZES.section, COLORS.accent);
+      pdf.text(page === tocFirstPage ? "目录" : "目录（续）", MARGIN_X, MARGIN_TOP, { baseline: "top" });
+    }
+    const rowY = MARGIN_TOP + 16 + (idx % tocPerPage) * TOC_LINE_HEIGHT;
+    const indent = entry.level === 1 ? 0 : 6;
+    const size = entry.level === 1 ? FONT_SIZES.subheading : FONT_SIZES.body;
+    setStyle(size, entry.level === 1 ? COLORS.text : COLORS.muted);
+    const pageLabel = String(entry.page);
+    const titleWidth = CONTENT_WIDTH - indent - 12;
+    const title = (pdf.splitTextToSize(entry.title, titleWidth) as string[])[0];
+    pdf.text(title, MARGIN_X + indent, rowY, { baseline: "top" });
+    pdf.text(pageLabel, PAGE_WIDTH - MARGIN_X, rowY, { baseline: "top", align: "right" });
+    pdf.setDrawColor(COLORS.rule[0], COLORS.rule[1], COLORS.rule[2]);
+    pdf.setLineDashPattern([0.5, 1], 0);
+    pdf.line(MARGIN_X + indent + pdf.getTextWidth(title) + 2, rowY + 3, PAGE_WIDTH - MARGIN_X - pdf.getTextWidth(pageLabel) - 2, rowY + 3);
+    pdf.setLineDashPattern([], 0);
+    pdf.link(MARGIN_X, rowY - 1, CONTENT_WIDTH, TOC_LINE_HEIGHT, { pageNumber: entry.page });
+
+    const item = pdf.outline.add(entry.level === 1 ? null : parent, entry.title, { pageNumber: entry.page });
+    if (entry.level === 1) parent = item;
+  });
+
+  // --- Running header and page numbers; the cover has neither ---
+  const total = pdf.getNumberOfPages();
+  for (let page = 2; page <= total; page++) {
+    pdf.setPage(page);
+    setStyle(FONT_SIZES.small, COLORS.muted);
+    pdf.text(report.title, MARGIN_X, 10, { baseline: "top" });
+    pdf.text(`第 ${page} / ${total} 页`, PAGE_WIDTH / 2, PAGE_HEIGHT - 10, { align: "center" });
+  }
+
+  return pdf;
+};
+
+export const downloadReportPdf = async (report: ReportDocument, filename: string): Promise<void> => {
+  const pdf = await renderReportPdf(report);
+  pdf.save(filename);
+};
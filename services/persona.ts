@@ -0,0 +1,218 @@
+import { PersonaBehavior, PersonaDemographics, PersonaDetails, PersonaDimensionScores, PersonaProfile } from "../types";
+
+export type PersonaSectionKey = 'demographics' | 'psychographics' | 'behaviors' | 'needs' | 'style';
+
+export interface PersonaSectionDef {
+  key: PersonaSectionKey;
+  title: string;
+  scoreKey?: keyof PersonaDimensionScores; // The four core sections carry a completeness score
+}
+
+// Section order and headings of the rendered profile
+export const PERSONA_SECTIONS: PersonaSectionDef[] = [
+  { key: 'demographics', title: '人口统计学特征', scoreKey: 'demographics' },
+  { key: 'psychographics', title: '心理特征', scoreKey: 'psychographics' },
+  { key: 'behaviors', title: '行为特征', scoreKey: 'behaviors' },
+  { key: 'needs', title: '需求与痛点', scoreKey: 'needs' },
+  { key: 'style', title: '访谈风格' },
+];
+
+type DemographicField = Exclude<keyof PersonaDemographics, 'other'>;
+
+export const DEMOGRAPHIC_LABELS: Record<DemographicField, string> = {
+  fullName: '姓名',
+  age: '年龄',
+  gender: '性别',
+  occupation: '职业',
+  income: '收入',
+  city: '居住地',
+  education: '教育',
+  household: '家庭',
+};
+
+// Line prefixes that tell the two lists apart inside a combined section
+const PAIN_POINT_PREFIX = '痛点：';
+const NEED_PREFIX = '需求：';
+const QUIRK_PREFIX = '小习惯：';
+
+const DEFAULT_PERSONA_NAME = "消费者";
+
+export const createEmptyPersonaDetails = (): PersonaDetails => ({
+  demographics: { fullName: "", age: null, gender: "", occupation: "", income: "", city: "", education: "", household: "", other: [] },
+  psychographics: [],
+  behaviors: [],
+  needs: [],
+  painPoints: [],
+  speakingStyle: [],
+  quirks: []
+});
+
+const toList = (items: string[], prefix = '') => items.map(item => `- ${prefix}${item}`);
+
+const fromList = (text: string): string[] =>
+  text.split("\n").map(line => line.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim()).filter(Boolean);
+
+const stripPrefix = (line: string, prefix: string) =>
+  line.startsWith(prefix) ? line.slice(prefix.length).trim() : line;
+
+/**
+ * One section as editable text: the markdown list it renders to, without the heading.
+ */
+export const getSectionText = (details: PersonaDetails, key: PersonaSectionKey): string => {
+  switch (key) {
+    case 'demographics': {
+      const d = details.demographics;
+      const fields = (Object.keys(DEMOGRAPHIC_LABELS) as DemographicField[])
+        .filter(field => d[field] !== null && d[field] !== "")
+        .map(field => `- ${DEMOGRAPHIC_LABELS[field]}：${field === 'age' ? `${d.age} 岁` : d[field]}`);
+      return [...fields, ...toList(d.other)].join("\n");
+    }
+    case 'psychographics':
+      return toList(details.psychographics).join("\n");
+    case 'behaviors':
+      return toList(details.behaviors).join("\n");
+    case 'needs':
+      return [...toList(details.needs, NEED_PREFIX), ...toList(details.painPoints, PAIN_POINT_PREFIX)].join("\n");
+    case 'style':
+      return [...toList(details.speakingStyle), ...toList(details.quirks, QUIRK_PREFIX)].join("\n");
+  }
+};
+
+const parseDemographics = (text: string): PersonaDemographics => {
+  const demographics = createEmptyPersonaDetails().demographics;
+  fromList(text).forEach(line => {
+    const [, label, value] = line.match(/^([^：:]+)[：:]\s*(.*)$/) || [];
+    const field = label && (Object.keys(DEMOGRAPHIC_LABELS) as DemographicField[]).find(f => label.trim() === DEMOGRAPHIC_LABELS[f]);
+    if (!field || !value) {
+      demographics.other.push(line);
+    } else if (field === 'age') {
+      const age = parseInt(value, 10);
+      demographics.age = Number.isNaN(age) ? null : age;
+    } else {
+      demographics[field] = value.trim();
+    }
+  });
+  return demographics;
+};
+
+/**
+ * Inverse of getSectionText: read an edited section back into the structured fields.
+ */
+export const applySectionText = (details: PersonaDetails, key: PersonaSectionKey, text: string): PersonaDetails => {
+  const lines = fromList(text);
+  switch (key) {
+    case 'demographics':
+      return { ...details, demographics: parseDemographics(text) };
+    case 'psychographics':
+      return { ...details, psychographics: lines };
+    case 'behaviors':
+      return { ...details, behaviors: lines };
+    case 'needs':
+      return {
+        ...details,
+        needs: lines.filter(l => !l.startsWith(PAIN_POINT_PREFIX)).map(l => stripPrefix(l, NEED_PREFIX)),
+        painPoints: lines.filter(l => l.startsWith(PAIN_POINT_PREFIX)).map(l => stripPrefix(l, PAIN_POINT_PREFIX))
+      };
+    case 'style':
+      return {
+        ...details,
+        speakingStyle: lines.filter(l => !l.startsWith(QUIRK_PREFIX)),
+        quirks: lines.filter(l => l.startsWith(QUIRK_PREFIX)).map(l => stripPrefix(l, QUIRK_PREFIX))
+      };
+  }
+};
+
+/**
+ * Render the markdown profile from the structured fields. The result is what the
+ * persona sees in its system prompt and what reports print.
+ */
+export const renderPersonaMarkdown = (name: string, summary: string, details: PersonaDetails): string => {
+  const body = PERSONA_SECTIONS.map((s, idx) => `## ${idx + 1}. ${s.title}\n${getSectionText(details, s.key)}`);
+  return [`# ${name.trim() || DEFAULT_PERSONA_NAME}`, summary.trim(), ...body].filter(Boolean).join("\n\n");
+};
+
+/**
+ * Build a persona from its fields, deriving the markdown.
+ */
+export const buildPersonaProfile = (
+  fields: { name: string; summary: string; details: PersonaDetails; scores?: PersonaDimensionScores; imageUrl?: string; behavior?: PersonaBehavior }
+): PersonaProfile => ({
+  ...fields,
+  name: fields.name.trim() || DEFAULT_PERSONA_NAME,
+  rawMarkdown: renderPersonaMarkdown(fields.name, fields.summary, fields.details)
+});
+
+/**
+ * Recover structured fields from a markdown-only persona saved before the schema existed.
+ * Headings are matched by title, so "## 2. 心理特征" and "## 心理特征 (Psychographics)" both work.
+ */
+export const detailsFromMarkdown = (markdown: string): PersonaDetails => {
+  let details = createEmptyPersonaDetails();
+  const chunks = markdown.split(/^##\s+/m).slice(1);
+  chunks.forEach(chunk => {
+    const [heading, ...rest] = chunk.split("\n");
+    const section = PERSONA_SECTIONS.find(s => heading.includes(s.title));
+    if (section) details = applySectionText(details, section.key, rest.join("\n"));
+  });
+  return details;
+};
+
+/**
+ * Rough completeness score for a hand-edited section: one point per two lines of detail,
+ * on the same 1-5 scale the generator uses.
+ */
+export const estimateSectionScore = (content: string): number => {
+  const lines = content.split("\n").filter(l => l.trim().length > 0).length;
+  return Math.min(5, Math.max(1, Math.ceil(lines / 2) + 1));
+};
+
+export interface PersonaEdit {
+  name?: string;
+  section?: { key: PersonaSectionKey; content: string; score?: number };
+  behavior?: PersonaBehavior;
+}
+
+/**
+ * Apply edits to a persona and re-render the markdown. Edited core sections get
+ * their completeness score re-estimated unless the model supplied one.
+ */
+export const updatePersona = (profile: PersonaProfile, edit: PersonaEdit): PersonaProfile => {
+  let details = profile.details;
+  let scores = profile.scores;
+  if (edit.section) {
+    const { key, content, score } = edit.section;
+    details = applySectionText(details, key, content);
+    const scoreKey = PERSONA_SECTIONS.find(s => s.key === key)?.scoreKey;
+    if (scoreKey && scores) {
+      scores = { ...scores, [scoreKey]: score ?? estimateSectionScore(content) };
+    }
+  }
+
+  return buildPersonaProfile({
+    name: edit.name ?? profile.name,
+    summary: profile.summary,
+    details,
+    scores,
+    imageUrl: profile.imageUrl,
+    behavior: edit.behavior ?? profile.behavior
+  });
+};
+
+/**
+ * One-line demographic description, e.g. "女 · 34 岁 · 外企市场经理 · 上海".
+ */
+export const describeDemographics = (details: PersonaDetails): string => {
+  const d = details.demographics;
+  return [d.gender, d.age !== null ? `${d.age} 岁` : '', d.occupation, d.city].filter(Boolean).join(' · ');
+};
+
+/**
+ * Fill in the structured fields on profiles saved as markdown only. The original markdown
+ * is kept until the persona is next edited; the old summary was a raw markdown prefix,
+ * so it is replaced with the demographic line.
+ */
+export const normalizePersonaProfile = (profile: PersonaProfile): PersonaProfile => {
+  if (profile.details) return profile;
+  const details = detailsFromMarkdown(profile.rawMarkdown);
+  return { ...profile, details, summary: describeDemographics(details) };
+};
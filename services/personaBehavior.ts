@@ -0,0 +1,138 @@
+import { PersonaBehavior, PersonaMood, PersonaMoodArc, PersonaProfile } from "../types";
+
+export type BehaviorTraitKey = 'talkativeness' | 'candour' | 'socialDesirability' | 'expertise';
+
+export const BEHAVIOR_MIN = 1;
+export const BEHAVIOR_MAX = 5;
+
+export interface BehaviorTraitDef {
+  key: BehaviorTraitKey;
+  title: string;
+  low: string; // Slider end labels
+  high: string;
+  instructions: string[]; // Prompt instruction for each level, 1 to 5
+}
+
+export const BEHAVIOR_TRAITS: BehaviorTraitDef[] = [
+  {
+    key: 'talkativeness',
+    title: '健谈程度',
+    low: '惜字如金',
+    high: '滔滔不绝',
+    instructions: [
+      '你非常寡言，大多数回答只有几个字或一句话，不主动展开，对方追问才勉强多说一点。',
+      '你话不多，主要 1-2 句话，很少主动举例。',
+      '保持回答相对简练，像真实的聊天信息（主要是 1-3 句话，除非在讲故事）。',
+      '你挺愿意聊，经常用 3-5 句话回答，喜欢顺带举个自己的例子。',
+      '你很健谈，回答常常很长，爱讲细节和故事，偶尔会跑题。',
+    ]
+  },
+  {
+    key: 'candour',
+    title: '批评意愿',
+    low: '报喜不报忧',
+    high: '直言不讳',
+    instructions: [
+      '你几乎从不批评产品或品牌，遇到不满也只会说“还行吧”“挺好的”，需要对方反复追问才可能透露一点不满。',
+      '你不太愿意直接批评，不满多半说得很委婉，点到为止。',
+      '遇到不满你会说出来，但语气比较克制。',
+      '诚实地表达你的挫折感。',
+      '你说话非常直接，对不满意的地方会毫不客气地吐槽，甚至有点刻薄。',
+    ]
+  },
+  {
+    key: 'socialDesirability',
+    title: '社会期许偏差',
+    low: '实话实说',
+    high: '迎合“正确答案”',
+    instructions: [
+      '你会如实说出自己真实的做法，哪怕听起来不够体面（比如图便宜、懒、冲动消费）。',
+      '你基本实话实说，只是偶尔会把自己说得稍微好一点。',
+      '你有时会美化自己的做法，比如夸大自己做攻略、看成分、支持环保的程度。',
+      '你经常说你认为“应该”说的话：声称自己理性消费、在意品质和环保，实际行为细节却可能对不上。',
+      '你总是倾向给出听起来最体面、最符合社会期待的答案，很少承认不理性或不光彩的消费行为；只有被具体追问细节时才会露出真实情况。',
+    ]
+  },
+  {
+    key: 'expertise',
+    title: '领域知识',
+    low: '小白',
+    high: '行家',
+    instructions: [
+      '你对这个领域几乎一无所知，不懂专业术语，经常说“这个我不太懂”，判断主要靠感觉和别人推荐。',
+      '你对这个领域了解不多，只知道一些常见说法，容易把概念搞混。',
+      '你对这个领域有一般消费者的了解。',
+      '你对这个领域比较懂，会比较参数和品牌，能说出一些专业术语。',
+      '你是这个领域的行家，熟悉行业内幕、技术细节和各品牌的优劣，会纠正对方不准确的说法。',
+    ]
+  },
+];
+
+export const MOODS: { key: PersonaMood; label: string; instruction: string }[] = [
+  { key: 'upbeat', label: '积极', instruction: '心情不错，乐于配合' },
+  { key: 'neutral', label: '平静', instruction: '情绪平稳，正常配合' },
+  { key: 'guarded', label: '戒备', instruction: '有些戒备，不太愿意透露个人信息，对访谈目的有点怀疑' },
+  { key: 'irritable', label: '烦躁', instruction: '有点烦躁、不耐烦，觉得这个访谈在占用你的时间' },
+];
+
+export const MOOD_ARCS: { key: PersonaMoodArc; label: string; instruction: string }[] = [
+  { key: 'steady', label: '保持不变', instruction: '整场访谈中你的情绪基本保持不变。' },
+  { key: 'warming', label: '逐渐放开', instruction: '随着访谈推进 (大约聊过五六个问题之后)，你逐渐放松、变得更信任对方，也更愿意说真心话。' },
+  { key: 'cooling', label: '逐渐疲惫', instruction: '随着访谈推进 (大约聊过五六个问题之后)，你逐渐感到疲惫和不耐烦，回答越来越短、越来越敷衍。' },
+];
+
+// Matches the rule every persona followed before behaviour was configurable
+export const DEFAULT_PERSONA_BEHAVIOR: PersonaBehavior = {
+  talkativeness: 3,
+  candour: 4,
+  socialDesirability: 2,
+  expertise: 3,
+  mood: 'neutral',
+  moodArc: 'steady'
+};
+
+export const clampBehaviorLevel = (value: unknown, fallback: number): number =>
+  typeof value === "number" && !isNaN(value)
+    ? Math.max(BEHAVIOR_MIN, Math.min(BEHAVIOR_MAX, Math.round(value)))
+    : fallback;
+
+/**
+ * The persona's behaviour with defaults for anything missing, e.g. on profiles saved
+ * before behaviour existed.
+ */
+export const getPersonaBehavior = (profile: PersonaProfile): PersonaBehavior => {
+  const behavior: Partial<PersonaBehavior> = profile.behavior || {};
+  return {
+    talkativeness: clampBehaviorLevel(behavior.talkativeness, DEFAULT_PERSONA_BEHAVIOR.talkativeness),
+    candour: clampBehaviorLevel(behavior.candour, DEFAULT_PERSONA_BEHAVIOR.candour),
+    socialDesirability: clampBehaviorLevel(behavior.socialDesirability, DEFAULT_PERSONA_BEHAVIOR.socialDesirability),
+    expertise: clampBehaviorLevel(behavior.expertise, DEFAULT_PERSONA_BEHAVIOR.expertise),
+    mood: MOODS.some(m => m.key === behavior.mood) ? behavior.mood! : DEFAULT_PERSONA_BEHAVIOR.mood,
+    moodArc: MOOD_ARCS.some(a => a.key === behavior.moodArc) ? behavior.moodArc! : DEFAULT_PERSONA_BEHAVIOR.moodArc
+  };
+};
+
+/**
+ * Behaviour rules for the persona's system instruction, one line per trait plus the mood.
+ */
+export const describeBehaviorForPrompt = (behavior: PersonaBehavior): string[] => {
+  const mood = MOODS.find(m => m.key === behavior.mood)!;
+  const arc = MOOD_ARCS.find(a => a.key === behavior.moodArc)!;
+  return [
+    ...BEHAVIOR_TRAITS.map(trait => trait.instructions[behavior[trait.key] - BEHAVIOR_MIN]),
+    `访谈开始时你${mood.instruction}。${arc.instruction}`
+  ];
+};
+
+/**
+ * Short label for behaviour that differs from the default, e.g. "惜字如金 · 戒备";
+ * empty for a default persona.
+ */
+export const describeBehaviorShort = (behavior: PersonaBehavior): string => {
+  const traits = BEHAVIOR_TRAITS
+    .filter(trait => behavior[trait.key] !== DEFAULT_PERSONA_BEHAVIOR[trait.key])
+    .map(trait => behavior[trait.key] < DEFAULT_PERSONA_BEHAVIOR[trait.key] ? trait.low : trait.high);
+  const mood = behavior.mood !== DEFAULT_PERSONA_BEHAVIOR.mood ? [MOODS.find(m => m.key === behavior.mood)!.label] : [];
+  const arc = behavior.moodArc !== DEFAULT_PERSONA_BEHAVIOR.moodArc ? [MOOD_ARCS.find(a => a.key === behavior.moodArc)!.label] : [];
+  return [...traits, ...mood, ...arc].join(' · ');
+};
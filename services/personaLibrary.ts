@@ -0,0 +1,87 @@
+import { GroundingSource, LibraryPersona, PersonaProfile, ResearchConfig } from "../types";
+import { PERSONA_LIBRARY_STORE, dbDelete, dbGetAll, dbPut } from "./db";
+import { normalizePersonaProfile } from "./persona";
+
+export const createLibraryId = () =>
+  `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Default tags for a newly saved persona: the industry and the target segment of its brief.
+ */
+export const suggestTags = (config: ResearchConfig): string[] =>
+  normalizeTags([config.industry, config.targetAudience]);
+
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(t => t.trim()).filter(Boolean)));
+
+/**
+ * Save a persona to the library. The brief is stored without reference materials
+ * (they can be large uploads) and without panel settings, since a saved persona is
+ * always reused on its own.
+ */
+export const savePersonaToLibrary = async (
+  profile: PersonaProfile,
+  sources: GroundingSource[],
+  config: ResearchConfig,
+  tags: string[] = suggestTags(config)
+): Promise<LibraryPersona> => {
+  const { referenceMaterials, panel, ...brief } = config;
+  const entry: LibraryPersona = {
+    id: createLibraryId(),
+    profile,
+    sources,
+    config: brief,
+    tags: normalizeTags(tags),
+    savedAt: new Date()
+  };
+  await dbPut<LibraryPersona>(PERSONA_LIBRARY_STORE, entry);
+  return entry;
+};
+
+export const updateLibraryPersona = async (entry: LibraryPersona): Promise<void> => {
+  await dbPut<LibraryPersona>(PERSONA_LIBRARY_STORE, { ...entry, tags: normalizeTags(entry.tags) });
+};
+
+/**
+ * All saved personas, newest first.
+ */
+export const listLibraryPersonas = async (): Promise<LibraryPersona[]> => {
+  const entries = await dbGetAll<LibraryPersona>(PERSONA_LIBRARY_STORE);
+  return entries
+    .map(entry => ({ ...entry, tags: entry.tags || [], profile: normalizePersonaProfile(entry.profile) }))
+    .sort((a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime());
+};
+
+export const deleteLibraryPersona = async (id: string): Promise<void> => {
+  await dbDelete(PERSONA_LIBRARY_STORE, id);
+};
+
+/**
+ * Case-insensitive search over the persona's name, summary, structured fields, tags and brief.
+ * Every whitespace-separated term must match; a selected tag must match exactly.
+ */
+export const searchLibrary = (entries: LibraryPersona[], query: string, tag?: string | null): LibraryPersona[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter(entry => {
+    if (tag && !entry.tags.includes(tag)) return false;
+    const { profile, config, tags } = entry;
+    const d = profile.details.demographics;
+    const haystack = [
+      profile.name,
+      profile.summary,
+      d.fullName, d.gender, d.occupation, d.income, d.city, d.household,
+      d.age !== null ? `${d.age}岁` : '',
+      ...profile.details.psychographics,
+      ...profile.details.behaviors,
+      ...profile.details.needs,
+      ...profile.details.painPoints,
+      config.industry,
+      config.targetAudience,
+      ...tags
+    ].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
+
+export const collectTags = (entries: LibraryPersona[]): string[] =>
+  normalizeTags(entries.flatMap(entry => entry.tags)).sort();
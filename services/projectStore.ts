@@ -0,0 +1,95 @@
+import { AppStep, ConceptRespondent, ConceptTest, ResearchProject } from "../types";
+import { PROJECTS_STORE, dbDelete, dbGet, dbGetAll, dbPut } from "./db";
+import { normalizeGuide } from "./guide";
+import { normalizePersonaProfile } from "./persona";
+import { normalizeSummary } from "./summary";
+
+// Loading and navigation screens; a project is never reopened on them.
+const TRANSIENT_STEPS: AppStep[] = [AppStep.PROJECTS, AppStep.LIBRARY, AppStep.RESEARCHING];
+
+export const isResumableStep = (step: AppStep) => !TRANSIENT_STEPS.includes(step);
+
+export const createProjectId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Human readable title for the recent projects list.
+ */
+export const buildProjectTitle = (project: Pick<ResearchProject, 'config' | 'persona'>) => {
+  const base = project.config.industry || "未命名研究";
+  return project.persona ? `${base} · ${project.persona.name}` : base;
+};
+
+/**
+ * Persist a project snapshot. Timestamps are stored as Date objects (IndexedDB clones them natively).
+ */
+export const saveProject = async (project: ResearchProject): Promise<void> => {
+  await dbPut<ResearchProject>(PROJECTS_STORE, {
+    ...project,
+    title: buildProjectTitle(project),
+    updatedAt: new Date()
+  });
+};
+
+// Tests planned before respondents were stored with them: the runs' panel members, or the study's persona
+const inferConceptRespondents = (test: ConceptTest, project: ResearchProject): ConceptRespondent[] => [
+  ...(project.panel || [])
+    .filter(member => test.runs.some(run => run.memberId === member.id))
+    .map(member => ({ memberId: member.id, profile: member.profile })),
+  ...(project.persona && test.runs.some(run => !run.memberId) ? [{ profile: project.persona }] : [])
+];
+
+/**
+ * Fill in fields added after a project was saved, so older records open cleanly.
+ */
+export const normalizeProject = (project: ResearchProject): ResearchProject => ({
+  ...project,
+  // Personas used to be markdown only
+  persona: project.persona ? normalizePersonaProfile(project.persona) : null,
+  panel: (project.panel || []).map(member => ({ ...member, profile: normalizePersonaProfile(member.profile) })),
+  // Guides used to be a flat list of questions
+  discussionGuide: normalizeGuide(project.discussionGuide),
+  // A batch does not survive a reload; interrupted interviews can be resumed from the batch screen
+  batchInterviews: (project.batchInterviews || []).map(record => ({
+    ...record,
+    status: record.status === 'running' ? 'cancelled' : record.status,
+    summary: normalizeSummary(record.summary) || undefined
+  })),
+  // Summaries used to be four free-text fields
+  summary: normalizeSummary(project.summary),
+  synthesis: project.synthesis || null,
+  focusGroup: project.focusGroup
+    ? { ...project.focusGroup, summary: normalizeSummary(project.focusGroup.summary) || undefined }
+    : null,
+  quotes: project.quotes || [],
+  codebook: project.codebook || [],
+  codeAssignments: project.codeAssignments || [],
+  waves: (project.waves || []).map(wave => ({ ...wave, summary: normalizeSummary(wave.summary) })),
+  waveEvents: project.waveEvents || "",
+  // Interrupted concept-test runs start over when the test is continued from the test screen
+  conceptTest: project.conceptTest
+    ? {
+        ...project.conceptTest,
+        respondents: (project.conceptTest.respondents || inferConceptRespondents(project.conceptTest, project))
+          .map(respondent => ({ ...respondent, profile: normalizePersonaProfile(respondent.profile) })),
+        runs: project.conceptTest.runs.map(run => run.status === 'running' ? { ...run, status: 'cancelled' } : run)
+      }
+    : null
+});
+
+export const loadProject = async (id: string): Promise<ResearchProject | undefined> => {
+  const project = await dbGet<ResearchProject>(PROJECTS_STORE, id);
+  return project && normalizeProject(project);
+};
+
+/**
+ * All saved projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ResearchProject[]> => {
+  const projects = (await dbGetAll<ResearchProject>(PROJECTS_STORE)).map(normalizeProject);
+  return projects.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await dbDelete(PROJECTS_STORE, id);
+};
@@ -0,0 +1,71 @@
+import { ChatMessage, Quote } from "../types";
+import { normalizeTags } from "./personaLibrary";
+
+// Transcript ids for the study's single interview and focus group; batch interviews use their record id
+export const MAIN_INTERVIEW_ID = "interview";
+export const FOCUS_GROUP_ID = "focus-group";
+
+export const createQuoteId = () =>
+  `q-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export interface QuoteDraft {
+  interviewId: string;
+  turnIndex: number;
+  speakerName: string;
+  text: string;
+  tags: string[];
+  note: string;
+}
+
+export const createQuote = (draft: QuoteDraft): Quote => ({
+  ...draft,
+  id: createQuoteId(),
+  text: draft.text.trim(),
+  tags: normalizeTags(draft.tags),
+  note: draft.note.trim(),
+  inReport: false,
+  createdAt: new Date()
+});
+
+/**
+ * Draft for text selected in one turn of a transcript, attributed to whoever said it.
+ */
+export const quoteDraftFor = (
+  interviewId: string,
+  messages: ChatMessage[],
+  personaName: string,
+  selection: { turnIndex: number; text: string; tags: string[]; note: string }
+): QuoteDraft => {
+  const msg = messages[selection.turnIndex];
+  const speakerName = !msg || msg.role === 'model'
+    ? (msg?.speakerName || personaName)
+    : msg.isAiInterviewer ? "AI 主持人" : "采访者";
+  return { ...selection, interviewId, speakerName };
+};
+
+/**
+ * Split free-form tag input ("价格, 口味 ，包装") into tags.
+ */
+export const parseTagInput = (input: string): string[] =>
+  normalizeTags(input.split(/[,，、;；\s]+/));
+
+/**
+ * Attribution line for reports, e.g. "王芳，第 12 轮发言". Turns are counted from 1.
+ */
+export const formatQuoteAttribution = (quote: Quote): string =>
+  `${quote.speakerName}，第 ${quote.turnIndex + 1} 轮发言`;
+
+export const collectQuoteTags = (quotes: Quote[]): string[] =>
+  normalizeTags(quotes.flatMap(q => q.tags)).sort();
+
+/**
+ * Quotes matching every search term (in text, note, speaker or tags) and the selected tag.
+ */
+export const searchQuotes = (quotes: Quote[], query: string, tag?: string | null): Quote[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return quotes.filter(q => {
+    if (tag && !q.tags.includes(tag)) return false;
+    const haystack = [q.text, q.note, q.speakerName, ...q.tags].join(" ").toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+};
@@ -0,0 +1,196 @@
+import { ChatMessage, GroundingSource, InterviewSummary, InterviewWave, PersonaProfile, Quote, ResearchConfig, SummaryFinding } from "../types";
+import { PERSONA_SECTIONS, describeDemographics, getSectionText } from "./persona";
+import { formatQuoteAttribution } from "./quotes";
+import { formatConsistencyIssue, summarizeConsistency } from "./consistency";
+import { averageSentiment } from "./sentiment";
+import { getWaveLabel } from "./waves";
+import { describeStimulus, isTextStimulus } from "./stimulus";
+import { SUMMARY_CATEGORIES, findingsByCategory, getFindingIssue, isEvidenceVerified } from "./summary";
+
+// Renderer-independent report content, laid out by the PDF, Word and Markdown renderers.
+
+export interface ReportField {
+  label: string;
+  value: string;
+}
+
+export interface ReportQuote {
+  text: string;
+  attribution: string;
+  note?: string;
+}
+
+// What the interviewer showed with a question: a JPEG thumbnail for images, the wording for typed-in copy
+export interface TranscriptStimulus {
+  label: string;
+  image?: { data: string; width: number; height: number };
+  text?: string;
+}
+
+export interface TranscriptTurn {
+  speaker: string;
+  text: string;
+  timestamp: Date;
+  isInterviewer: boolean;
+  stimulus?: TranscriptStimulus;
+}
+
+export type ReportBlock =
+  | { type: 'subheading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] }
+  | { type: 'fields'; fields: ReportField[] }
+  | { type: 'links'; links: GroundingSource[] }
+  | { type: 'quotes'; quotes: ReportQuote[] }
+  | { type: 'transcript'; turns: TranscriptTurn[] };
+
+export interface ReportSection {
+  title: string;
+  blocks: ReportBlock[];
+}
+
+export interface ReportDocument {
+  title: string;
+  meta: ReportField[]; // Shown on the cover
+  generatedAt: Date;
+  sections: ReportSection[];
+}
+
+export const INTERVIEWER_LABEL = "采访者";
+
+export const formatTurnTime = (date: Date) =>
+  Number.isNaN(date.getTime()) ? "" : date.toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit" });
+
+export const toTranscriptTurns = (messages: ChatMessage[], respondentName: string): TranscriptTurn[] =>
+  messages.map(msg => ({
+    speaker: msg.role === 'user' ? INTERVIEWER_LABEL : (msg.speakerName || respondentName),
+    text: msg.text,
+    timestamp: new Date(msg.timestamp),
+    isInterviewer: msg.role === 'user',
+    ...(msg.stimulus ? {
+      stimulus: {
+        label: `展示${describeStimulus(msg.stimulus)}`,
+        image: msg.stimulus.thumbnail,
+        text: isTextStimulus(msg.stimulus) ? msg.stimulus.content : undefined
+      }
+    } : {})
+  }));
+
+// Persona sections are stored as markdown lists; reports show them as bullet lists
+const sectionItems = (text: string) =>
+  text.split("\n").map(line => line.replace(/^-\s*/, '').trim()).filter(Boolean);
+
+// A finding as a list item: the claim, then one line per citation, then a warning if the citations do not hold
+const findingItem = (finding: SummaryFinding, messages: ChatMessage[]) => {
+  const issue = getFindingIssue(finding, messages);
+  return [
+    finding.text,
+    ...finding.evidence.map(e => `“${e.excerpt}”（${
+      e.turnIndex === null ? "未在逐字稿中找到" : `第 ${e.turnIndex + 1} 轮发言${isEvidenceVerified(messages, e) ? "" : "，未核实"}`
+    }）`),
+    ...(issue ? [`[待核实] ${issue}`] : [])
+  ].join("\n");
+};
+
+const summaryBlocks = (summary: InterviewSummary, messages: ChatMessage[]): ReportBlock[] =>
+  SUMMARY_CATEGORIES.flatMap(category => {
+    const findings = findingsByCategory(summary, category.key);
+    return findings.length > 0
+      ? [{ type: 'subheading' as const, text: category.title }, { type: 'list' as const, items: findings.map(f => findingItem(f, messages)) }]
+      : [];
+  });
+
+// One earlier wave: when it happened, what preceded it and what the persona took from it
+const waveItem = (wave: InterviewWave): string => {
+  const average = wave.summary ? averageSentiment(wave.summary.sentiment) : null;
+  return [
+    `${getWaveLabel(wave.number)}（${wave.completedAt.toLocaleDateString()}）`,
+    ...(wave.events ? [`期间：${wave.events}`] : []),
+    ...(average !== null ? [`平均情绪：${average > 0 ? '+' : ''}${average.toFixed(1)}`] : []),
+    ...(wave.memory.feelings.length > 0 ? [`感受：${wave.memory.feelings.join("；")}`] : []),
+    ...(wave.memory.intentions.length > 0 ? [`打算：${wave.memory.intentions.join("；")}`] : []),
+  ].join("\n");
+};
+
+/**
+ * Report of a single interview (or focus group): summary, earlier waves, selected quotes, persona, consistency flags, sources and full transcript.
+ */
+export const buildInterviewReport = (
+  { summary, profile, config, messages, sources = [], quotes = [], waves = [] }: {
+    summary: InterviewSummary;
+    profile: PersonaProfile;
+    config: ResearchConfig;
+    messages: ChatMessage[];
+    sources?: GroundingSource[];
+    quotes?: Quote[]; // Quotes chosen for the report
+    waves?: InterviewWave[]; // Earlier waves of a longitudinal study
+  }
+): ReportDocument => {
+  const consistency = summarizeConsistency(messages);
+  const flaggedTurns = messages
+    .map((msg, idx) => ({ msg, idx }))
+    .filter(({ msg }) => msg.role === 'model' && msg.consistencyIssues && msg.consistencyIssues.length > 0);
+
+  return {
+    title: "消费者访谈洞察报告",
+    meta: [
+      { label: "行业 / 产品", value: config.industry },
+      { label: "目标受众", value: config.targetAudience },
+      ...(config.objectives ? [{ label: "研究目标", value: config.objectives }] : []),
+      { label: "受访者", value: [profile.name, describeDemographics(profile.details)].filter(Boolean).join("，") },
+      { label: "访谈轮次", value: `${messages.filter(m => m.role === 'user').length} 问 / ${messages.length} 条发言` },
+      ...(waves.length > 0 ? [{ label: "访谈期次", value: getWaveLabel(waves.length + 1) }] : []),
+      ...(consistency.score !== null ? [{
+        label: "角色一致性",
+        value: `${consistency.score} 分（${consistency.checked} 条回答中 ${consistency.flagged} 条存在问题）`
+      }] : []),
+    ],
+    generatedAt: new Date(),
+    sections: [
+      {
+        title: "总结摘要",
+        blocks: summaryBlocks(summary, messages)
+      },
+      ...(waves.length > 0 ? [{
+        title: "往期访谈",
+        blocks: [{ type: 'list' as const, items: waves.map(waveItem) }]
+      }] : []),
+      ...(quotes.length > 0 ? [{
+        title: "精选引用",
+        blocks: [{
+          type: 'quotes' as const,
+          quotes: quotes.map(q => ({ text: q.text, attribution: formatQuoteAttribution(q), note: q.note || undefined }))
+        }]
+      }] : []),
+      {
+        title: "受访者画像",
+        blocks: [
+          ...(profile.summary ? [{ type: 'paragraph' as const, text: profile.summary }] : []),
+          ...PERSONA_SECTIONS.flatMap(section => {
+            const items = sectionItems(getSectionText(profile.details, section.key));
+            return items.length > 0
+              ? [{ type: 'subheading' as const, text: section.title }, { type: 'list' as const, items }]
+              : [];
+          })
+        ]
+      },
+      ...(flaggedTurns.length > 0 ? [{
+        title: "角色一致性",
+        blocks: [
+          { type: 'paragraph' as const, text: "以下回答与受访者画像或其前文不一致，引用前请核实。" },
+          {
+            type: 'list' as const,
+            items: flaggedTurns.map(({ msg, idx }) =>
+              [`第 ${idx + 1} 轮发言：${msg.text}`, ...msg.consistencyIssues!.map(formatConsistencyIssue)].join("\n")
+            )
+          }
+        ]
+      }] : []),
+      ...(sources.length > 0 ? [{ title: "数据来源", blocks: [{ type: 'links' as const, links: sources }] }] : []),
+      {
+        title: "访谈逐字稿",
+        blocks: [{ type: 'transcript', turns: toTranscriptTurns(messages, profile.name) }]
+      }
+    ]
+  };
+};
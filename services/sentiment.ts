@@ -0,0 +1,94 @@
+import { ChatMessage, DiscussionGuide, Emotion, TurnSentiment } from "../types";
+import { linkTurnsToGuide } from "./guideCoverage";
+
+export const SENTIMENT_MIN = -2;
+export const SENTIMENT_MAX = 2;
+
+// Emotions the model may assign, from most positive to most negative
+export const EMOTIONS: { key: Emotion; label: string; hint: string }[] = [
+  { key: 'delight', label: "惊喜", hint: "超出预期的开心、兴奋" },
+  { key: 'satisfaction', label: "满意", hint: "认可、放心、还不错" },
+  { key: 'neutral', label: "平静", hint: "客观陈述事实，没有明显情绪" },
+  { key: 'indifference', label: "无所谓", hint: "不在乎、没兴趣、敷衍" },
+  { key: 'confusion', label: "困惑", hint: "看不懂、不确定、犹豫" },
+  { key: 'worry', label: "担忧", hint: "顾虑、害怕、不放心" },
+  { key: 'frustration', label: "挫败", hint: "烦躁、失望、被折腾、生气" },
+];
+
+export const getEmotionLabel = (emotion: Emotion) =>
+  EMOTIONS.find(e => e.key === emotion)?.label || emotion;
+
+export const clampSentiment = (score: number) =>
+  Math.max(SENTIMENT_MIN, Math.min(SENTIMENT_MAX, Math.round(score)));
+
+export interface SentimentPoint extends TurnSentiment {
+  topic: string | null; // Guide section being discussed, or the question asked when it matches no guide item
+  question: string | null; // Guide question or, failing that, the interviewer's own question
+  isDip: boolean; // A negative low point worth annotating
+}
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+/**
+ * Sentiment points in transcript order, each tagged with the guide topic under discussion.
+ * A dip is a negative turn lower than the one before it and no higher than the one after.
+ */
+export const buildSentimentTimeline = (
+  sentiment: TurnSentiment[],
+  messages: ChatMessage[],
+  guide: DiscussionGuide
+): SentimentPoint[] => {
+  const links = linkTurnsToGuide(guide, messages);
+  const sectionOf = (questionId: string) =>
+    guide.sections.find(section => section.questions.some(q => q.id === questionId));
+
+  const askedBefore = (turnIndex: number) => {
+    for (let i = turnIndex - 1; i >= 0; i--) {
+      if (messages[i].role === 'user') return messages[i].text;
+    }
+    return null;
+  };
+
+  const points = sentiment
+    .filter(s => messages[s.turnIndex]?.role === 'model')
+    .sort((a, b) => a.turnIndex - b.turnIndex)
+    .map(s => {
+      const linked = links[s.turnIndex];
+      const asked = askedBefore(s.turnIndex);
+      return {
+        ...s,
+        topic: linked ? (sectionOf(linked.id)?.title || truncate(linked.text, 16)) : asked && truncate(asked, 16),
+        question: linked ? linked.text : asked
+      };
+    });
+
+  return points.map((point, idx) => {
+    const prev = points[idx - 1];
+    const next = points[idx + 1];
+    const isDip = point.score < 0 && (!prev || point.score < prev.score) && (!next || point.score <= next.score);
+    return { ...point, isDip };
+  });
+};
+
+export const averageSentiment = (points: TurnSentiment[]): number | null =>
+  points.length > 0 ? points.reduce((sum, p) => sum + p.score, 0) / points.length : null;
+
+export interface TopicSentiment {
+  topic: string;
+  average: number;
+  count: number;
+}
+
+/**
+ * Average sentiment per topic, most negative first: the parts of the journey that hurt most.
+ */
+export const sentimentByTopic = (points: SentimentPoint[]): TopicSentiment[] => {
+  const groups = new Map<string, SentimentPoint[]>();
+  points.forEach(point => {
+    if (!point.topic) return;
+    groups.set(point.topic, [...(groups.get(point.topic) || []), point]);
+  });
+  return Array.from(groups, ([topic, group]) => ({ topic, average: averageSentiment(group)!, count: group.length }))
+    .sort((a, b) => a.average - b.average);
+};
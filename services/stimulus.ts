@@ -0,0 +1,107 @@
+import { Stimulus, StimulusKind } from "../types";
+
+export const STIMULUS_KINDS: { key: StimulusKind; label: string }[] = [
+  { key: 'concept', label: '概念板' },
+  { key: 'packaging', label: '包装设计' },
+  { key: 'ad', label: '广告文案' },
+  { key: 'price', label: '价格卡' },
+  { key: 'other', label: '其他材料' },
+];
+
+// File types the model can look at directly
+export const STIMULUS_FILE_ACCEPT = "image/png,image/jpeg,image/webp,application/pdf";
+
+export const TEXT_STIMULUS_MIME = "text/plain";
+
+// Asked when a stimulus is sent without a question
+export const DEFAULT_STIMULUS_QUESTION = "请看一下这个，你的第一感觉是什么？";
+
+// Longest edge of the preview kept for transcripts and reports, in pixels
+const THUMBNAIL_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.75;
+
+export const getStimulusKindLabel = (kind: StimulusKind) =>
+  STIMULUS_KINDS.find(k => k.key === kind)?.label || kind;
+
+export const isImageStimulus = (stimulus: Stimulus) => stimulus.mimeType.startsWith("image/");
+
+export const isTextStimulus = (stimulus: Stimulus) => stimulus.mimeType === TEXT_STIMULUS_MIME;
+
+/**
+ * One-line description, e.g. "概念板「新品概念A.png」", for prompts, exports and reports.
+ */
+export const describeStimulus = (stimulus: Stimulus) =>
+  `${getStimulusKindLabel(stimulus.kind)}「${stimulus.name}」`;
+
+const createStimulusId = () =>
+  `stim-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const readAsDataUrl = (file: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Image could not be decoded"));
+    image.src = src;
+  });
+
+/**
+ * Downscaled JPEG copy of an image, small enough to embed in every report.
+ */
+const createThumbnail = async (dataUrl: string): Promise<Stimulus['thumbnail']> => {
+  const image = await loadImage(dataUrl);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext("2d");
+  if (!context) return undefined;
+  // JPEG has no alpha; transparent packaging renders on white rather than black
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return {
+    data: canvas.toDataURL("image/jpeg", THUMBNAIL_QUALITY).split(",")[1],
+    width: canvas.width,
+    height: canvas.height
+  };
+};
+
+/**
+ * A stimulus from an uploaded image or PDF. Images also get a thumbnail.
+ */
+export const readStimulusFile = async (file: File, kind: StimulusKind): Promise<Stimulus> => {
+  const dataUrl = await readAsDataUrl(file);
+  const stimulus: Stimulus = {
+    id: createStimulusId(),
+    kind,
+    name: file.name,
+    mimeType: file.type || "application/pdf",
+    content: dataUrl.split(",")[1]
+  };
+  if (!isImageStimulus(stimulus)) return stimulus;
+  try {
+    return { ...stimulus, thumbnail: await createThumbnail(dataUrl) };
+  } catch (err) {
+    console.error("Creating stimulus thumbnail failed", err);
+    return stimulus;
+  }
+};
+
+/**
+ * A stimulus typed in by the researcher, such as ad copy or a price card.
+ */
+export const createTextStimulus = (kind: StimulusKind, text: string, name = getStimulusKindLabel(kind)): Stimulus => ({
+  id: createStimulusId(),
+  kind,
+  name,
+  mimeType: TEXT_STIMULUS_MIME,
+  content: text.trim()
+});
@@ -0,0 +1,474 @@
+import { AppStep, ChatMessage, InterviewMode, ResearchProject } from "../types";
+import { createProjectId, normalizeProject, saveProject } from "./projectStore";
+import { downloadBlob, toFileStem } from "./download";
+import { SUMMARY_CATEGORIES } from "./summary";
+import { EMOTIONS } from "./sentiment";
+import { BEHAVIOR_TRAITS, MOODS, MOOD_ARCS } from "./personaBehavior";
+import { STIMULUS_KINDS } from "./stimulus";
+import { CONCEPT_METRICS } from "./conceptTest";
+
+// Format identifier and current version of the study bundle; see docs/study-bundle.md
+export const BUNDLE_FORMAT = "personalink.study";
+export const BUNDLE_VERSION = 1;
+
+export const BUNDLE_FILE_SUFFIX = ".study.json";
+
+export interface StudyBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  study: ResearchProject; // Dates are ISO 8601 strings on disk
+}
+
+/**
+ * Raised when a file is not a study bundle or fails validation. `issues` lists
+ * every problem found, each prefixed with its JSON path.
+ */
+export class StudyBundleError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(message);
+    this.name = "StudyBundleError";
+    this.issues = issues;
+  }
+}
+
+export const buildStudyBundle = (project: ResearchProject): StudyBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  study: project
+});
+
+export const serializeStudyBundle = (project: ResearchProject): string =>
+  JSON.stringify(buildStudyBundle(project), null, 2);
+
+export const exportStudyBundle = (project: ResearchProject) => {
+  const blob = new Blob([serializeStudyBundle(project)], { type: "application/json" });
+  downloadBlob(blob, `${toFileStem(project.title)}${BUNDLE_FILE_SUFFIX}`);
+};
+
+// --- Migration ---
+
+type RawBundle = { format?: unknown; version?: unknown; [key: string]: unknown };
+
+// Each step upgrades a bundle from version N to N + 1
+const MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+  // v0: a bare project record (e.g. copied out of the browser's IndexedDB), no envelope
+  0: (project) => ({
+    format: BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    study: project
+  }),
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const detectVersion = (raw: RawBundle): number => {
+  if (raw.format === undefined && raw.version === undefined && "config" in raw) return 0;
+  if (raw.format !== BUNDLE_FORMAT) {
+    throw new StudyBundleError("文件不是 PersonaLink 研究包。");
+  }
+  if (typeof raw.version !== "number" || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new StudyBundleError("研究包版本号无效。");
+  }
+  if (raw.version > BUNDLE_VERSION) {
+    throw new StudyBundleError(`研究包版本 v${raw.version} 比当前应用支持的 v${BUNDLE_VERSION} 更新，请先升级应用。`);
+  }
+  return raw.version;
+};
+
+/**
+ * Upgrade a parsed bundle of any supported version to the current one.
+ */
+export const migrateStudyBundle = (raw: unknown): RawBundle => {
+  if (!isObject(raw)) throw new StudyBundleError("文件不是 PersonaLink 研究包。");
+  let bundle: RawBundle = raw;
+  for (let version = detectVersion(bundle); version < BUNDLE_VERSION; version++) {
+    bundle = MIGRATIONS[version](bundle);
+  }
+  return bundle;
+};
+
+// --- Validation ---
+
+const isDateLike = (value: unknown) =>
+  (typeof value === "string" || value instanceof Date) && !Number.isNaN(new Date(value).getTime());
+
+class Validator {
+  issues: string[] = [];
+
+  fail(path: string, expected: string) {
+    this.issues.push(`${path}: 应为${expected}`);
+  }
+
+  object(value: unknown, path: string): value is Record<string, unknown> {
+    if (isObject(value)) return true;
+    this.fail(path, "对象");
+    return false;
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (Array.isArray(value)) return true;
+    this.fail(path, "数组");
+    return false;
+  }
+
+  string(value: unknown, path: string, optional = false) {
+    if (typeof value === "string" || (optional && value === undefined)) return;
+    this.fail(path, "字符串");
+  }
+
+  number(value: unknown, path: string) {
+    if (typeof value === "number" && Number.isFinite(value)) return;
+    this.fail(path, "数字");
+  }
+
+  date(value: unknown, path: string, optional = false) {
+    if (isDateLike(value) || (optional && value === undefined)) return;
+    this.fail(path, "ISO 8601 日期");
+  }
+
+  oneOf(value: unknown, options: readonly string[], path: string) {
+    if (typeof value === "string" && options.includes(value)) return;
+    this.fail(path, ` ${options.join(" / ")} 之一`);
+  }
+
+  messages(value: unknown, path: string) {
+    if (!this.array(value, path)) return;
+    value.forEach((msg, i) => {
+      const at = `${path}[${i}]`;
+      if (!this.object(msg, at)) return;
+      this.oneOf(msg.role, ["user", "model"], `${at}.role`);
+      this.string(msg.text, `${at}.text`);
+      this.date(msg.timestamp, `${at}.timestamp`);
+      if (msg.consistencyIssues !== undefined && this.array(msg.consistencyIssues, `${at}.consistencyIssues`)) {
+        msg.consistencyIssues.forEach((issue, j) => {
+          if (!this.object(issue, `${at}.consistencyIssues[${j}]`)) return;
+          this.oneOf(issue.kind, ["profile", "self", "assistant"], `${at}.consistencyIssues[${j}].kind`);
+          this.string(issue.description, `${at}.consistencyIssues[${j}].description`);
+        });
+      }
+      if (msg.stimulus !== undefined) this.stimulus(msg.stimulus, `${at}.stimulus`);
+    });
+  }
+
+  stimulus(value: unknown, path: string) {
+    if (!this.object(value, path)) return;
+    this.string(value.id, `${path}.id`);
+    this.oneOf(value.kind, STIMULUS_KINDS.map(k => k.key), `${path}.kind`);
+    this.string(value.name, `${path}.name`);
+    this.string(value.mimeType, `${path}.mimeType`);
+    this.string(value.content, `${path}.content`);
+  }
+
+  persona(value: unknown, path: string) {
+    if (!this.object(value, path)) return;
+    this.string(value.name, `${path}.name`);
+    this.string(value.rawMarkdown, `${path}.rawMarkdown`);
+    // Structured fields are optional: older personas are recovered from the markdown
+    if (value.details !== undefined) this.object(value.details, `${path}.details`);
+    if (value.behavior !== undefined && this.object(value.behavior, `${path}.behavior`)) {
+      const behavior = value.behavior;
+      BEHAVIOR_TRAITS.forEach(trait => this.number(behavior[trait.key], `${path}.behavior.${trait.key}`));
+      this.oneOf(behavior.mood, MOODS.map(m => m.key), `${path}.behavior.mood`);
+      this.oneOf(behavior.moodArc, MOOD_ARCS.map(a => a.key), `${path}.behavior.moodArc`);
+    }
+  }
+
+  summary(value: unknown, path: string) {
+    if (!this.object(value, path)) return;
+    const summary = value;
+    if (summary.findings === undefined) {
+      // Summaries from before findings carried evidence: four free-text fields
+      (["keyInsights", "painPoints", "wantsNeeds", "verdict"] as const).forEach(key =>
+        this.string(summary[key], `${path}.${key}`)
+      );
+    } else if (this.array(summary.findings, `${path}.findings`)) {
+      summary.findings.forEach((finding, i) => {
+        const at = `${path}.findings[${i}]`;
+        if (!this.object(finding, at)) return;
+        this.oneOf(finding.category, SUMMARY_CATEGORIES.map(c => c.key), `${at}.category`);
+        this.string(finding.text, `${at}.text`);
+        if (!this.array(finding.evidence, `${at}.evidence`)) return;
+        finding.evidence.forEach((evidence, j) => {
+          if (!this.object(evidence, `${at}.evidence[${j}]`)) return;
+          if (evidence.turnIndex !== null) this.number(evidence.turnIndex, `${at}.evidence[${j}].turnIndex`);
+          this.string(evidence.excerpt, `${at}.evidence[${j}].excerpt`);
+        });
+      });
+    }
+    if (summary.sentiment !== undefined && this.array(summary.sentiment, `${path}.sentiment`)) {
+      summary.sentiment.forEach((turn, i) => {
+        const at = `${path}.sentiment[${i}]`;
+        if (!this.object(turn, at)) return;
+        this.number(turn.turnIndex, `${at}.turnIndex`);
+        this.number(turn.score, `${at}.score`);
+        this.oneOf(turn.emotion, EMOTIONS.map(e => e.key), `${at}.emotion`);
+      });
+    }
+  }
+
+  sources(value: unknown, path: string) {
+    if (!this.array(value, path)) return;
+    value.forEach((source, i) => {
+      if (!this.object(source, `${path}[${i}]`)) return;
+      this.string(source.uri, `${path}[${i}].uri`);
+      this.string(source.title, `${path}[${i}].title`);
+    });
+  }
+}
+
+/**
+ * Check the shape of a current-version study. Fields added after the first release
+ * (panel, batch interviews, synthesis, focus group, quotes, coding) may be missing and are defaulted on import.
+ */
+export const validateStudy = (study: unknown): string[] => {
+  const v = new Validator();
+  if (!v.object(study, "study")) return v.issues;
+
+  v.string(study.id, "study.id");
+  v.string(study.title, "study.title", true);
+  v.date(study.createdAt, "study.createdAt");
+  v.date(study.updatedAt, "study.updatedAt");
+  v.oneOf(study.step, Object.values(AppStep), "study.step");
+  v.oneOf(study.interviewMode, Object.values(InterviewMode), "study.interviewMode");
+
+  if (v.object(study.config, "study.config")) {
+    const config = study.config;
+    v.string(config.industry, "study.config.industry");
+    v.string(config.targetAudience, "study.config.targetAudience");
+    v.string(config.objectives, "study.config.objectives", true);
+    v.string(config.userQuestions, "study.config.userQuestions", true);
+    if (config.referenceMaterials !== undefined && v.array(config.referenceMaterials, "study.config.referenceMaterials")) {
+      config.referenceMaterials.forEach((m, i) => {
+        const at = `study.config.referenceMaterials[${i}]`;
+        if (!v.object(m, at)) return;
+        v.string(m.id, `${at}.id`);
+        v.oneOf(m.type, ["text", "file"], `${at}.type`);
+        v.string(m.name, `${at}.name`);
+        v.string(m.content, `${at}.content`);
+        v.string(m.mimeType, `${at}.mimeType`, true);
+      });
+    }
+  }
+
+  v.array(study.clarificationQuestions, "study.clarificationQuestions");
+  if (study.persona !== null) v.persona(study.persona, "study.persona");
+  v.sources(study.sources, "study.sources");
+
+  if (study.panel !== undefined && v.array(study.panel, "study.panel")) {
+    study.panel.forEach((member, i) => {
+      if (!v.object(member, `study.panel[${i}]`)) return;
+      v.string(member.id, `study.panel[${i}].id`);
+      v.persona(member.profile, `study.panel[${i}].profile`);
+      v.sources(member.sources, `study.panel[${i}].sources`);
+    });
+  }
+
+  // A guide is either sections or, in older studies, a flat list of questions
+  const guide = study.discussionGuide;
+  if (!Array.isArray(guide) && v.object(guide, "study.discussionGuide")) {
+    v.array(guide.sections, "study.discussionGuide.sections");
+  }
+
+  v.messages(study.chatHistory, "study.chatHistory");
+
+  if (study.summary !== null) v.summary(study.summary, "study.summary");
+
+  if (study.batchInterviews !== undefined && v.array(study.batchInterviews, "study.batchInterviews")) {
+    study.batchInterviews.forEach((record, i) => {
+      const at = `study.batchInterviews[${i}]`;
+      if (!v.object(record, at)) return;
+      v.string(record.id, `${at}.id`);
+      v.string(record.memberId, `${at}.memberId`);
+      v.oneOf(record.status, ["queued", "running", "done", "failed", "cancelled"], `${at}.status`);
+      v.messages(record.messages, `${at}.messages`);
+      if (record.summary !== undefined) v.summary(record.summary, `${at}.summary`);
+      v.date(record.startedAt, `${at}.startedAt`, true);
+      v.date(record.finishedAt, `${at}.finishedAt`, true);
+    });
+  }
+
+  if (study.synthesis != null && v.object(study.synthesis, "study.synthesis")) {
+    v.string(study.synthesis.overview, "study.synthesis.overview");
+    v.date(study.synthesis.createdAt, "study.synthesis.createdAt");
+  }
+
+  if (study.focusGroup != null && v.object(study.focusGroup, "study.focusGroup")) {
+    v.array(study.focusGroup.memberIds, "study.focusGroup.memberIds");
+    v.messages(study.focusGroup.messages, "study.focusGroup.messages");
+    if (study.focusGroup.summary !== undefined) v.summary(study.focusGroup.summary, "study.focusGroup.summary");
+  }
+
+  if (study.quotes !== undefined && v.array(study.quotes, "study.quotes")) {
+    study.quotes.forEach((quote, i) => {
+      const at = `study.quotes[${i}]`;
+      if (!v.object(quote, at)) return;
+      v.string(quote.id, `${at}.id`);
+      v.string(quote.interviewId, `${at}.interviewId`);
+      v.number(quote.turnIndex, `${at}.turnIndex`);
+      v.string(quote.speakerName, `${at}.speakerName`);
+      v.string(quote.text, `${at}.text`);
+      v.array(quote.tags, `${at}.tags`);
+      v.date(quote.createdAt, `${at}.createdAt`);
+    });
+  }
+
+  if (study.codebook !== undefined && v.array(study.codebook, "study.codebook")) {
+    study.codebook.forEach((code, i) => {
+      const at = `study.codebook[${i}]`;
+      if (!v.object(code, at)) return;
+      v.string(code.id, `${at}.id`);
+      v.string(code.name, `${at}.name`);
+      v.string(code.description, `${at}.description`);
+    });
+  }
+
+  if (study.codeAssignments !== undefined && v.array(study.codeAssignments, "study.codeAssignments")) {
+    study.codeAssignments.forEach((assignment, i) => {
+      const at = `study.codeAssignments[${i}]`;
+      if (!v.object(assignment, at)) return;
+      v.string(assignment.id, `${at}.id`);
+      v.string(assignment.codeId, `${at}.codeId`);
+      v.string(assignment.interviewId, `${at}.interviewId`);
+      v.number(assignment.turnIndex, `${at}.turnIndex`);
+      v.oneOf(assignment.origin, ["manual", "ai"], `${at}.origin`);
+      v.oneOf(assignment.status, ["proposed", "accepted", "rejected"], `${at}.status`);
+      v.date(assignment.createdAt, `${at}.createdAt`);
+    });
+  }
+
+  if (study.waves !== undefined && v.array(study.waves, "study.waves")) {
+    study.waves.forEach((wave, i) => {
+      const at = `study.waves[${i}]`;
+      if (!v.object(wave, at)) return;
+      v.string(wave.id, `${at}.id`);
+      v.number(wave.number, `${at}.number`);
+      v.string(wave.events, `${at}.events`);
+      v.messages(wave.messages, `${at}.messages`);
+      if (wave.summary !== null) v.summary(wave.summary, `${at}.summary`);
+      if (v.object(wave.memory, `${at}.memory`)) {
+        const memory = wave.memory;
+        (["intentions", "feelings", "facts"] as const).forEach(key => v.array(memory[key], `${at}.memory.${key}`));
+      }
+      v.date(wave.completedAt, `${at}.completedAt`);
+    });
+  }
+  v.string(study.waveEvents, "study.waveEvents", true);
+
+  if (study.conceptTest != null && v.object(study.conceptTest, "study.conceptTest")) {
+    const test = study.conceptTest;
+    v.oneOf(test.design, ["monadic", "sequential"], "study.conceptTest.design");
+    v.oneOf(test.rotation, ["balanced", "random", "fixed"], "study.conceptTest.rotation");
+    if (v.array(test.concepts, "study.conceptTest.concepts")) {
+      test.concepts.forEach((concept, i) => v.stimulus(concept, `study.conceptTest.concepts[${i}]`));
+    }
+    if (test.respondents !== undefined && v.array(test.respondents, "study.conceptTest.respondents")) {
+      test.respondents.forEach((respondent, i) => {
+        const at = `study.conceptTest.respondents[${i}]`;
+        if (!v.object(respondent, at)) return;
+        v.string(respondent.memberId, `${at}.memberId`, true);
+        v.persona(respondent.profile, `${at}.profile`);
+      });
+    }
+    if (v.array(test.runs, "study.conceptTest.runs")) {
+      test.runs.forEach((run, i) => {
+        const at = `study.conceptTest.runs[${i}]`;
+        if (!v.object(run, at)) return;
+        v.string(run.id, `${at}.id`);
+        v.string(run.memberId, `${at}.memberId`, true);
+        v.array(run.conceptIds, `${at}.conceptIds`);
+        v.oneOf(run.status, ["queued", "running", "done", "failed", "cancelled"], `${at}.status`);
+        v.messages(run.messages, `${at}.messages`);
+        if (v.array(run.ratings, `${at}.ratings`)) {
+          run.ratings.forEach((rating, j) => {
+            if (!v.object(rating, `${at}.ratings[${j}]`) || !v.object(rating.scores, `${at}.ratings[${j}].scores`)) return;
+            v.string(rating.conceptId, `${at}.ratings[${j}].conceptId`);
+            v.number(rating.position, `${at}.ratings[${j}].position`);
+            const scores = rating.scores;
+            CONCEPT_METRICS.forEach(({ key }) => {
+              if (v.object(scores[key], `${at}.ratings[${j}].scores.${key}`)) {
+                v.number(scores[key].score, `${at}.ratings[${j}].scores.${key}.score`);
+              }
+            });
+          });
+        }
+        v.date(run.startedAt, `${at}.startedAt`, true);
+        v.date(run.finishedAt, `${at}.finishedAt`, true);
+      });
+    }
+    v.date(test.createdAt, "study.conceptTest.createdAt");
+  }
+
+  return v.issues;
+};
+
+// --- Import ---
+
+const reviveMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map(msg => ({ ...msg, timestamp: new Date(msg.timestamp) }));
+
+// JSON carries dates as strings; the app and IndexedDB expect Date objects
+const reviveDates = (study: ResearchProject): ResearchProject => ({
+  ...study,
+  createdAt: new Date(study.createdAt),
+  updatedAt: new Date(study.updatedAt),
+  chatHistory: reviveMessages(study.chatHistory),
+  batchInterviews: (study.batchInterviews || []).map(record => ({
+    ...record,
+    messages: reviveMessages(record.messages),
+    startedAt: record.startedAt && new Date(record.startedAt),
+    finishedAt: record.finishedAt && new Date(record.finishedAt)
+  })),
+  synthesis: study.synthesis ? { ...study.synthesis, createdAt: new Date(study.synthesis.createdAt) } : null,
+  focusGroup: study.focusGroup ? { ...study.focusGroup, messages: reviveMessages(study.focusGroup.messages) } : null,
+  quotes: (study.quotes || []).map(quote => ({ ...quote, createdAt: new Date(quote.createdAt) })),
+  codeAssignments: (study.codeAssignments || []).map(assignment => ({ ...assignment, createdAt: new Date(assignment.createdAt) })),
+  waves: (study.waves || []).map(wave => ({ ...wave, messages: reviveMessages(wave.messages), completedAt: new Date(wave.completedAt) })),
+  conceptTest: study.conceptTest
+    ? {
+        ...study.conceptTest,
+        runs: study.conceptTest.runs.map(run => ({
+          ...run,
+          messages: reviveMessages(run.messages),
+          startedAt: run.startedAt && new Date(run.startedAt),
+          finishedAt: run.finishedAt && new Date(run.finishedAt)
+        })),
+        createdAt: new Date(study.conceptTest.createdAt)
+      }
+    : null
+});
+
+/**
+ * Parse, migrate and validate a bundle file's text into a project.
+ * Throws StudyBundleError when the text is not a usable bundle.
+ */
+export const parseStudyBundle = (text: string): ResearchProject => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new StudyBundleError("文件不是有效的 JSON。");
+  }
+  const bundle = migrateStudyBundle(raw);
+  const issues = validateStudy(bundle.study);
+  if (issues.length > 0) {
+    throw new StudyBundleError("研究包内容不完整或格式有误。", issues);
+  }
+  return normalizeProject(reviveDates(bundle.study as ResearchProject));
+};
+
+/**
+ * Import a bundle file as a new local project. The study gets a fresh id so an
+ * import never overwrites an existing project, even when re-importing one's own export.
+ */
+export const importStudyBundle = async (file: File): Promise<ResearchProject> => {
+  const study = parseStudyBundle(await file.text());
+  const project: ResearchProject = { ...study, id: createProjectId() };
+  await saveProject(project);
+  return project;
+};
@@ -0,0 +1,129 @@
+import { ChatMessage, InterviewSummary, SummaryEvidence, SummaryFinding, SummaryFindingCategory } from "../types";
+
+export interface SummaryCategory {
+  key: SummaryFindingCategory;
+  icon: string;
+  title: string;
+}
+
+// Display order of the summary; also the categories the model may use
+export const SUMMARY_CATEGORIES: SummaryCategory[] = [
+  { key: 'insight', icon: "💡", title: "关键洞察" },
+  { key: 'painPoint', icon: "🔥", title: "主要痛点" },
+  { key: 'need', icon: "🎯", title: "核心需求" },
+  { key: 'verdict', icon: "⚖️", title: "总体评价" },
+];
+
+// Excerpt shown for a citation that named a turn but quoted nothing
+const DEFAULT_EXCERPT_LENGTH = 60;
+
+// Whitespace, punctuation and quote marks differ freely between a transcript and a model's quotation of it
+const normalizeForMatch = (text: string) =>
+  text.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, "");
+
+/**
+ * Whether the excerpt appears in the turn text. An excerpt may skip words with an
+ * ellipsis ("清洗太麻烦了……拆下来洗"); its parts must then appear in order.
+ * An excerpt of nothing but ellipses and punctuation quotes nothing, so it never matches.
+ */
+export const excerptMatches = (text: string, excerpt: string): boolean => {
+  const haystack = normalizeForMatch(text);
+  const parts = excerpt.split(/\.{3,}|…+/).map(normalizeForMatch).filter(Boolean);
+  if (parts.length === 0) return false;
+  let from = 0;
+  for (const part of parts) {
+    const at = haystack.indexOf(part, from);
+    if (at < 0) return false;
+    from = at + part.length;
+  }
+  return true;
+};
+
+const isRespondentTurn = (messages: ChatMessage[], turnIndex: number | null) =>
+  turnIndex !== null && messages[turnIndex]?.role === 'model';
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+/**
+ * Turn a model citation into evidence. The cited turn is kept when the excerpt is found in it;
+ * otherwise the excerpt is looked up in the other respondent turns (nearest first), since
+ * models often quote correctly but miscount. Citations that match nothing are kept as cited
+ * so the finding can be flagged.
+ */
+export const resolveEvidence = (messages: ChatMessage[], citation: { turn?: number; excerpt?: string }): SummaryEvidence => {
+  const excerpt = (citation.excerpt || "").trim().replace(/^["“「『']+|["”」』']+$/g, "");
+  const cited = typeof citation.turn === 'number' && Number.isInteger(citation.turn) && citation.turn >= 0 && citation.turn < messages.length
+    ? citation.turn
+    : null;
+
+  if (!excerpt) {
+    return { turnIndex: cited, excerpt: cited !== null ? truncate(messages[cited].text, DEFAULT_EXCERPT_LENGTH) : "" };
+  }
+  if (isRespondentTurn(messages, cited) && excerptMatches(messages[cited!].text, excerpt)) {
+    return { turnIndex: cited, excerpt };
+  }
+  const anchor = cited ?? 0;
+  const match = messages
+    .map((_, idx) => idx)
+    .filter(idx => isRespondentTurn(messages, idx) && excerptMatches(messages[idx].text, excerpt))
+    .sort((a, b) => Math.abs(a - anchor) - Math.abs(b - anchor))[0];
+  return { turnIndex: match ?? cited, excerpt };
+};
+
+/**
+ * Evidence is verified when it points at something the respondent said and the excerpt is in it.
+ */
+export const isEvidenceVerified = (messages: ChatMessage[], evidence: SummaryEvidence): boolean =>
+  isRespondentTurn(messages, evidence.turnIndex) && excerptMatches(messages[evidence.turnIndex!].text, evidence.excerpt);
+
+/**
+ * Why a finding should not be taken at face value, or null when all of its citations check out.
+ */
+export const getFindingIssue = (finding: SummaryFinding, messages: ChatMessage[]): string | null => {
+  if (finding.evidence.length === 0) return "没有引用逐字稿";
+  const unverified = finding.evidence.filter(e => !isEvidenceVerified(messages, e)).length;
+  if (unverified === 0) return null;
+  return unverified === finding.evidence.length
+    ? "引用与逐字稿不符"
+    : `${unverified} 处引用与逐字稿不符`;
+};
+
+export const findingsByCategory = (summary: InterviewSummary, category: SummaryFindingCategory): SummaryFinding[] =>
+  summary.findings.filter(f => f.category === category);
+
+// Summaries were four free-text fields before findings carried evidence
+interface LegacySummary {
+  keyInsights?: string;
+  painPoints?: string;
+  wantsNeeds?: string;
+  verdict?: string;
+}
+
+const LEGACY_FIELDS: [keyof LegacySummary, SummaryFindingCategory][] = [
+  ["keyInsights", 'insight'],
+  ["painPoints", 'painPoint'],
+  ["wantsNeeds", 'need'],
+  ["verdict", 'verdict'],
+];
+
+/**
+ * Accept a summary in any shape it was ever saved in. Old free-text summaries become
+ * one finding per line, without evidence (and are therefore flagged).
+ */
+export const normalizeSummary = (raw: InterviewSummary | LegacySummary | null | undefined): InterviewSummary | null => {
+  if (!raw) return null;
+  if ("findings" in raw && Array.isArray(raw.findings)) {
+    return { findings: raw.findings.map(f => ({ ...f, evidence: f.evidence || [] })), sentiment: raw.sentiment || [] };
+  }
+  const legacy = raw as LegacySummary;
+  return {
+    findings: LEGACY_FIELDS.flatMap(([field, category]) =>
+      (legacy[field] || "").split("\n")
+        .map(line => line.replace(/^\s*(\d+[.、)]|[-*•])\s*/, "").trim())
+        .filter(Boolean)
+        .map(text => ({ category, text, evidence: [] }))
+    ),
+    sentiment: []
+  };
+};
@@ -0,0 +1,111 @@
+import { utils, writeFile } from "xlsx";
+import { ChatMessage, DiscussionGuide } from "../types";
+import { linkTurnsToGuide } from "./guideCoverage";
+import { downloadBlob } from "./download";
+import { describeStimulus } from "./stimulus";
+
+// One interview (or focus group) to export
+export interface TranscriptSource {
+  interviewId: string;
+  personaName: string; // Respondent; focus-group turns carry their own speaker name
+  messages: ChatMessage[];
+}
+
+export type SpeakerRole = 'interviewer' | 'ai_moderator' | 'respondent';
+
+export interface TranscriptRow {
+  studyId: string;
+  interviewId: string;
+  personaName: string;
+  speakerRole: SpeakerRole;
+  speaker: string;
+  timestamp: string; // ISO 8601, sorts correctly as text
+  turnIndex: number; // 1-based, per interview
+  guideItemId: string;
+  guideItem: string;
+  stimulus: string; // What was shown with the question, e.g. 概念板「新品概念A.png」
+  text: string;
+}
+
+const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  interviewer: '采访者',
+  ai_moderator: 'AI 主持人',
+  respondent: '受访者',
+};
+
+// Column order and headers; the role column holds the stable code so coding tools can filter on it
+const COLUMNS: { key: keyof TranscriptRow; header: string }[] = [
+  { key: 'studyId', header: 'study_id' },
+  { key: 'interviewId', header: 'interview_id' },
+  { key: 'personaName', header: 'persona_name' },
+  { key: 'speakerRole', header: 'speaker_role' },
+  { key: 'speaker', header: 'speaker' },
+  { key: 'timestamp', header: 'timestamp' },
+  { key: 'turnIndex', header: 'turn_index' },
+  { key: 'guideItemId', header: 'guide_item_id' },
+  { key: 'guideItem', header: 'guide_item' },
+  { key: 'stimulus', header: 'stimulus' },
+  { key: 'text', header: 'text' },
+];
+
+const speakerRole = (msg: ChatMessage): SpeakerRole =>
+  msg.role === 'model' ? 'respondent' : msg.isAiInterviewer ? 'ai_moderator' : 'interviewer';
+
+/**
+ * One row per turn across all given interviews, each turn linked to the guide question
+ * it was asked under (see linkTurnsToGuide).
+ */
+export const buildTranscriptRows = (studyId: string, guide: DiscussionGuide, sources: TranscriptSource[]): TranscriptRow[] =>
+  sources.flatMap(source => {
+    const links = linkTurnsToGuide(guide, source.messages);
+    return source.messages.map((msg, idx) => {
+      const role = speakerRole(msg);
+      const timestamp = new Date(msg.timestamp);
+      return {
+        studyId,
+        interviewId: source.interviewId,
+        personaName: source.personaName,
+        speakerRole: role,
+        speaker: role === 'respondent' ? (msg.speakerName || source.personaName) : SPEAKER_ROLE_LABELS[role],
+        timestamp: Number.isNaN(timestamp.getTime()) ? '' : timestamp.toISOString(),
+        turnIndex: idx + 1,
+        guideItemId: links[idx]?.id || '',
+        guideItem: links[idx]?.text || '',
+        stimulus: msg.stimulus ? describeStimulus(msg.stimulus) : '',
+        text: msg.text
+      };
+    });
+  });
+
+// Spreadsheets run text starting with these as a formula, so a reply like "=HYPERLINK(...)" would execute
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number) => {
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * RFC 4180 CSV with a UTF-8 byte order mark, which Excel needs to read Chinese text correctly.
+ */
+export const transcriptRowsToCsv = (rows: TranscriptRow[]): string =>
+  "\uFEFF" + [
+    COLUMNS.map(c => c.header).join(","),
+    ...rows.map(row => COLUMNS.map(c => csvCell(row[c.key])).join(","))
+  ].join("\r\n") + "\r\n";
+
+export const exportTranscriptsCsv = (rows: TranscriptRow[], fileStem: string) => {
+  downloadBlob(new Blob([transcriptRowsToCsv(rows)], { type: "text/csv;charset=utf-8" }), `${fileStem}.csv`);
+};
+
+export const exportTranscriptsXlsx = (rows: TranscriptRow[], fileStem: string) => {
+  // Strings become text cells (t: 's'), which Excel never evaluates, so no escaping is needed here
+  const sheet = utils.aoa_to_sheet([
+    COLUMNS.map(c => c.header),
+    ...rows.map(row => COLUMNS.map(c => row[c.key]))
+  ]);
+  sheet['!cols'] = COLUMNS.map(c => ({ wch: c.key === 'text' ? 80 : c.key === 'guideItem' ? 40 : 16 }));
+  const book = utils.book_new();
+  utils.book_append_sheet(book, sheet, "transcripts");
+  writeFile(book, `${fileStem}.xlsx`);
+};
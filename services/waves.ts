@@ -0,0 +1,58 @@
+import { ChatMessage, InterviewSummary, InterviewWave, WaveMemory } from "../types";
+
+// Earlier waves and the researcher's time-passing events, as the current interview sees them
+export interface WaveContext {
+  waves: InterviewWave[];
+  events: string;
+}
+
+// Starting points for the events between two waves
+export const WAVE_EVENT_PRESETS = [
+  "过了一个月，TA 试用了上次提到想尝试的产品",
+  "品牌推出了新一代产品",
+  "产品价格上涨了 20%",
+  "竞品开始大幅降价促销",
+  "TA 在社交媒体上看到了关于这个产品的负面新闻",
+];
+
+export const getWaveLabel = (number: number) => `第 ${number} 期`;
+
+export const createWave = (
+  fields: { number: number; events: string; messages: ChatMessage[]; summary: InterviewSummary | null; memory: WaveMemory }
+): InterviewWave => ({
+  ...fields,
+  id: `wave-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  completedAt: new Date()
+});
+
+/**
+ * Point quotes or code assignments at a transcript's new id, e.g. when the current
+ * interview is archived as a wave and the next wave takes over its id.
+ */
+export const moveToTranscript = <T extends { interviewId: string }>(items: T[], from: string, to: string): T[] =>
+  items.map(item => item.interviewId === from ? { ...item, interviewId: to } : item);
+
+/**
+ * What the persona remembers of earlier waves, for its system instruction. Empty
+ * when there are no earlier waves and nothing happened in between.
+ */
+export const formatWaveMemoryForPrompt = ({ waves, events }: WaveContext): string => {
+  if (waves.length === 0 && !events.trim()) return "";
+
+  const list = (label: string, items: string[]) =>
+    items.length > 0 ? [`  ${label}：`, ...items.map(item => `  - ${item}`)] : [];
+
+  const recaps = waves.flatMap(wave => [
+    ...(wave.events.trim() ? [`（这次访谈之前：${wave.events.trim()}）`] : []),
+    `你的第 ${wave.number} 次访谈（${wave.completedAt.toLocaleDateString()}）：`,
+    ...list("当时的感受", wave.memory.feelings),
+    ...list("当时说打算做的事", wave.memory.intentions),
+    ...list("当时提到的个人情况", wave.memory.facts),
+  ]);
+
+  return [
+    ...(waves.length > 0 ? [`你之前已经接受过 ${waves.length} 次同一主题的访谈，以下是你对之前访谈的记忆：`, ...recaps, ""] : []),
+    ...(events.trim() ? [`距离上次访谈，你经历了这些事：${events.trim()}`] : []),
+    "请延续你之前的说法和感受，再让这段时间的经历自然地影响你现在的态度；被问起时，可以说说之前打算做的事后来有没有做、结果怎样。",
+  ].join("\n");
+};
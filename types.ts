@@ -1,4 +1,6 @@
 export enum AppStep {
+  PROJECTS = 'PROJECTS', // Recent projects list
+  LIBRARY = 'LIBRARY', // Saved personas, outside any project
   SETUP = 'SETUP',
   CLARIFYING = 'CLARIFYING',
   RESEARCHING = 'RESEARCHING',
@@ -7,6 +9,11 @@ export enum AppStep {
   GUIDE_REVIEW = 'GUIDE_REVIEW', // Step 1: Review generated guide
   MODE_SELECTION = 'MODE_SELECTION', // Step 2: Choose who interviews
   INTERVIEW = 'INTERVIEW',
+  BATCH = 'BATCH', // Run the guide against every accepted panel member
+  SYNTHESIS = 'SYNTHESIS', // Cross-interview report over the batch transcripts
+  FOCUS_GROUP = 'FOCUS_GROUP', // Several panel members in one discussion
+  CONCEPT_TEST = 'CONCEPT_TEST', // Respondents rate 2-5 concepts on fixed scales
+  CONCEPT_RESULTS = 'CONCEPT_RESULTS', // Concept comparison over the finished ratings
   SUMMARY = 'SUMMARY'
 }
 
@@ -30,6 +37,25 @@ export interface ResearchConfig {
   objectives?: string; // What user wants to learn
   userQuestions?: string; // Specific questions user has
   referenceMaterials?: ReferenceMaterial[]; // New: Context data
+  panel?: PanelConfig; // Set when recruiting several respondents instead of one
+}
+
+export type PriceSensitivity = 'low' | 'medium' | 'high';
+export type BrandLoyalty = 'loyal' | 'switcher' | 'indifferent';
+
+// Diversity constraints for a multi-persona panel; each list is spread across the panel
+export interface PanelConfig {
+  size: number;
+  ageBands: string[]; // e.g. '25-34'
+  priceSensitivity: PriceSensitivity[];
+  brandLoyalty: BrandLoyalty[];
+}
+
+// The recruiting quota one panel member has to satisfy
+export interface PanelSlot {
+  ageBand?: string;
+  priceSensitivity?: PriceSensitivity;
+  brandLoyalty?: BrandLoyalty;
 }
 
 export interface ClarifyingQuestion {
@@ -44,12 +70,86 @@ export interface PersonaDimensionScores {
   needs: number; // 需求与痛点
 }
 
+export interface PersonaDemographics {
+  fullName: string;
+  age: number | null;
+  gender: string;
+  occupation: string;
+  income: string;
+  city: string;
+  education: string;
+  household: string;
+  other: string[]; // Anything that doesn't fit a field above
+}
+
+export interface PersonaDetails {
+  demographics: PersonaDemographics;
+  psychographics: string[];
+  behaviors: string[];
+  needs: string[];
+  painPoints: string[];
+  speakingStyle: string[];
+  quirks: string[];
+}
+
+export type PersonaMood = 'upbeat' | 'neutral' | 'guarded' | 'irritable';
+
+// How the mood moves as the interview goes on
+export type PersonaMoodArc = 'steady' | 'warming' | 'cooling';
+
+// How the persona behaves in an interview, as opposed to who they are; each trait runs 1-5
+export interface PersonaBehavior {
+  talkativeness: number; // 1 terse, 5 rambling
+  candour: number; // Willingness to criticise
+  socialDesirability: number; // Tendency to give the answer that sounds right
+  expertise: number; // Domain knowledge, 1 novice, 5 expert
+  mood: PersonaMood; // Mood at the start of the interview
+  moodArc: PersonaMoodArc;
+}
+
 export interface PersonaProfile {
-  rawMarkdown: string; 
-  name: string; 
+  rawMarkdown: string; // Rendered from details; what prompts and exports read
+  name: string; // Display name / persona label, e.g. "极客小王"
   summary: string;
+  details: PersonaDetails;
   imageUrl?: string; // Base64 string of the generated pixel art
   scores?: PersonaDimensionScores;
+  behavior?: PersonaBehavior; // Defaults apply when absent
+}
+
+export interface GuideQuestion {
+  id: string;
+  text: string;
+  probes: string[]; // Optional follow-ups the moderator can draw on
+  mustAsk: boolean;
+}
+
+export interface GuideSection {
+  id: string;
+  title: string;
+  targetMinutes: number;
+  questions: GuideQuestion[];
+}
+
+export interface DiscussionGuide {
+  sections: GuideSection[];
+}
+
+export type GuideCoverageStatus = 'none' | 'partial' | 'covered';
+
+// Coverage of each guide question, keyed by question id
+export type GuideCoverage = Record<string, GuideCoverageStatus>;
+
+export type StimulusKind = 'concept' | 'packaging' | 'ad' | 'price' | 'other';
+
+// Material shown to the respondent with a question, e.g. a concept board or a price card
+export interface Stimulus {
+  id: string;
+  kind: StimulusKind;
+  name: string; // File name, or a label for typed-in material
+  mimeType: string; // An image type, application/pdf, or text/plain for typed-in copy and prices
+  content: string; // Base64 for files, the text itself for text/plain
+  thumbnail?: { data: string; width: number; height: number }; // Base64 JPEG preview of images, in pixels
 }
 
 export interface ChatMessage {
@@ -57,6 +157,20 @@ export interface ChatMessage {
   text: string;
   timestamp: Date;
   isAiInterviewer?: boolean; // To distinguish visual style in UI
+  speakerId?: string; // Focus groups: panel member who said this
+  speakerName?: string;
+  addresseeId?: string; // Focus groups: moderator question aimed at one participant
+  consistencyIssues?: ConsistencyIssue[]; // Persona replies: problems found by the consistency check, [] when it passed
+  stimulus?: Stimulus; // Interviewer questions: material shown with the question
+}
+
+export type ConsistencyIssueKind = 'profile' | 'self' | 'assistant';
+
+// A way a persona reply breaks character
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind; // Contradicts the profile, contradicts an earlier reply, or sounds like an assistant
+  description: string;
+  conflictTurn?: number; // Earlier turn it contradicts
 }
 
 export interface GroundingSource {
@@ -64,9 +178,235 @@ export interface GroundingSource {
   title: string;
 }
 
+export interface PanelMember {
+  id: string;
+  slot: PanelSlot;
+  profile: PersonaProfile;
+  sources: GroundingSource[];
+  status: 'pending' | 'accepted'; // Only accepted members are interviewed
+}
+
+export interface FocusGroupSession {
+  memberIds: string[];
+  moderatorMode: InterviewMode;
+  messages: ChatMessage[];
+  summary?: InterviewSummary; // Report generated when the session was ended
+}
+
+export type InterviewRunStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One automatically run interview from a batch over the panel
+export interface InterviewRecord {
+  id: string;
+  memberId: string;
+  personaName: string;
+  status: InterviewRunStatus;
+  messages: ChatMessage[];
+  summary?: InterviewSummary; // Report generated from the batch screen
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export type SummaryFindingCategory = 'insight' | 'painPoint' | 'need' | 'verdict';
+
+// A transcript passage backing a summary finding
+export interface SummaryEvidence {
+  turnIndex: number | null; // Index into the summarized messages; null when the citation could not be located
+  excerpt: string; // Words quoted from that turn
+}
+
+export interface SummaryFinding {
+  category: SummaryFindingCategory;
+  text: string;
+  evidence: SummaryEvidence[];
+}
+
+export type Emotion = 'delight' | 'satisfaction' | 'neutral' | 'indifference' | 'confusion' | 'worry' | 'frustration';
+
+// Sentiment of one respondent turn
+export interface TurnSentiment {
+  turnIndex: number; // Index into the summarized messages
+  score: number; // -2 (very negative) to 2 (very positive)
+  emotion: Emotion;
+}
+
 export interface InterviewSummary {
-  keyInsights: string;
-  painPoints: string;
-  wantsNeeds: string;
-  verdict: string;
-}
\ No newline at end of file
+  findings: SummaryFinding[];
+  sentiment: TurnSentiment[]; // Respondent turns in transcript order; empty when the analysis failed
+}
+
+// A verbatim turn cited by the cross-interview synthesis
+export interface SynthesisQuote {
+  interviewId: string;
+  turnIndex: number; // Index into InterviewRecord.messages
+  text: string;
+}
+
+export interface SynthesisTheme {
+  title: string;
+  description: string;
+  interviewIds: string[]; // Respondents who raised it
+  quotes: SynthesisQuote[];
+}
+
+export interface SynthesisPosition {
+  stance: string;
+  interviewIds: string[];
+  quotes: SynthesisQuote[];
+}
+
+export interface SynthesisDisagreement {
+  topic: string;
+  positions: SynthesisPosition[];
+}
+
+export interface SynthesisReport {
+  overview: string;
+  interviewIds: string[]; // Transcripts the report was built from
+  themes: SynthesisTheme[];
+  painPoints: SynthesisTheme[];
+  agreements: SynthesisTheme[];
+  disagreements: SynthesisDisagreement[];
+  createdAt: Date;
+}
+
+// A verbatim excerpt a researcher highlighted in a transcript
+export interface Quote {
+  id: string;
+  interviewId: string; // Transcript it came from: the interview, the focus group or a batch record id
+  turnIndex: number; // Index into that transcript's messages
+  speakerName: string;
+  text: string; // The selected excerpt, possibly part of the turn
+  tags: string[];
+  note: string;
+  inReport: boolean; // Embedded in exported reports
+  createdAt: Date;
+}
+
+// A code in the study's codebook, applied to respondent turns during analysis
+export interface CodebookCode {
+  id: string;
+  name: string;
+  description: string; // Definition coders (and auto-coding) apply
+}
+
+export type CodeAssignmentOrigin = 'manual' | 'ai';
+export type CodeAssignmentStatus = 'proposed' | 'accepted' | 'rejected';
+
+// One code applied to one turn of a transcript
+export interface CodeAssignment {
+  id: string;
+  codeId: string;
+  interviewId: string; // Same transcript ids as Quote.interviewId
+  turnIndex: number;
+  origin: CodeAssignmentOrigin;
+  status: CodeAssignmentStatus; // Manual codes are accepted as soon as they are applied
+  rationale?: string; // Why auto-coding proposed it
+  createdAt: Date;
+}
+
+// A persona saved for reuse across studies
+export interface LibraryPersona {
+  id: string;
+  profile: PersonaProfile;
+  sources: GroundingSource[];
+  config: ResearchConfig; // Brief the persona was generated from
+  tags: string[];
+  savedAt: Date;
+}
+
+// Compact recap of an interview, carried into later interviews with the same persona
+export interface WaveMemory {
+  intentions: string[]; // What the persona said they would try or do
+  feelings: string[]; // How they felt about the product or category
+  facts: string[]; // Circumstances they revealed
+}
+
+// One finished wave of a longitudinal study: an earlier interview with the study's persona
+export interface InterviewWave {
+  id: string;
+  number: number; // 1-based
+  events: string; // What the researcher said happened before this wave; empty for the first
+  messages: ChatMessage[];
+  summary: InterviewSummary | null;
+  memory: WaveMemory;
+  completedAt: Date;
+}
+
+// Monadic: every concept is rated in a fresh session that has seen no other concept.
+// Sequential monadic: one session rates all concepts, in an order rotated across respondents.
+export type ConceptTestDesign = 'monadic' | 'sequential';
+
+// How concept orders are assigned in a sequential monadic test
+export type ConceptRotation = 'balanced' | 'random' | 'fixed';
+
+export type ConceptMetric = 'purchaseIntent' | 'appeal' | 'uniqueness' | 'believability';
+
+// One scale answer, 1-5, with the respondent's reason in their own words
+export interface ConceptScore {
+  score: number;
+  reason: string;
+}
+
+// A respondent's ratings of one concept
+export interface ConceptRating {
+  conceptId: string;
+  position: number; // 1-based place in the order the respondent saw the concepts
+  scores: Record<ConceptMetric, ConceptScore>;
+}
+
+// Someone the concepts are shown to: a panel member, or the study's single persona
+export interface ConceptRespondent {
+  memberId?: string;
+  profile: PersonaProfile;
+}
+
+// One concept-test session with one respondent
+export interface ConceptTestRun {
+  id: string;
+  memberId?: string; // Panel member; absent for the study's single persona
+  personaName: string;
+  conceptIds: string[]; // Concepts in the order shown; a single concept in monadic tests
+  status: InterviewRunStatus;
+  messages: ChatMessage[];
+  ratings: ConceptRating[];
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface ConceptTest {
+  design: ConceptTestDesign;
+  rotation: ConceptRotation; // Sequential tests only; monadic runs each show a single concept
+  concepts: Stimulus[];
+  respondents: ConceptRespondent[]; // Profiles as they were when the test was planned; runs match on memberId
+  runs: ConceptTestRun[];
+  createdAt: Date;
+}
+
+export interface ResearchProject {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  step: AppStep; // Last stable step, used to reopen the study where it was left
+  config: ResearchConfig;
+  clarificationQuestions: ClarifyingQuestion[];
+  persona: PersonaProfile | null;
+  sources: GroundingSource[];
+  panel: PanelMember[];
+  discussionGuide: DiscussionGuide;
+  interviewMode: InterviewMode;
+  chatHistory: ChatMessage[];
+  summary: InterviewSummary | null;
+  batchInterviews: InterviewRecord[];
+  synthesis: SynthesisReport | null;
+  focusGroup: FocusGroupSession | null;
+  quotes: Quote[];
+  codebook: CodebookCode[];
+  codeAssignments: CodeAssignment[];
+  waves: InterviewWave[]; // Earlier waves of the one-to-one interview, oldest first
+  waveEvents: string; // What happened before the current wave; empty outside longitudinal studies
+  conceptTest: ConceptTest | null;
+}